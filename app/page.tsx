@@ -9,7 +9,10 @@ import StarfieldCanvas from '../components/StarfieldCanvas'
 import SettingsDropdown from '../components/SettingsDropdown'
 import FpsCounter from '../components/FpsCounter'
 import CosmeticsPanel from '../components/CosmeticsPanel'
+import SiteEffectsLayer from '../components/SiteEffectsLayer'
+import ToolStrip from '../components/ToolStrip'
 import { useClusteringGalaxy } from '../hooks/useClusteringGalaxy'
+import { CORE_LEVELS, maxCoreLevel } from '../constants/coreLevels'
 
 export default function Page() {
   const [bgEffectsOn, setBgEffectsOn] = useState(true) // Controls starfield AND ambient data
@@ -50,6 +53,20 @@ export default function Page() {
     } catch {}
   }, [galaxy.api])
 
+  // Save slot actions for Settings → Save Management; stable so the slot list isn't re-read every render
+  const saveSlots = useMemo(() => {
+    const api = galaxy.api
+    if (!api) return undefined
+    return {
+      list: () => api.listSaveSlots(),
+      create: (name: string) => api.createSaveSlot(name),
+      duplicate: (id: string, name: string) => api.duplicateSaveSlot(id, name),
+      rename: (id: string, name: string) => api.renameSaveSlot(id, name),
+      remove: (id: string) => api.deleteSaveSlot(id),
+      switchTo: (id: string) => api.switchSaveSlot(id),
+    }
+  }, [galaxy.api])
+
   // Auto-start game (disable tutorial/intro)
   useEffect(() => {
     setGameStarted(true)
@@ -58,9 +75,8 @@ export default function Page() {
     setShowInstr(false)
   }, [])
 
-  // Disable tutorial-related event responses
+  // Toasts from the galaxy (galaxy-effect events are handled by SiteEffectsLayer)
   useEffect(() => {
-    const onFx = () => {}
     const onToast = (e: any) => {
       const msg = e?.detail?.message as string
       if (msg) {
@@ -69,10 +85,8 @@ export default function Page() {
         setTimeout(() => setUnlockToast(null), ms)
       }
     }
-    window.addEventListener('galaxy-effect' as any, onFx as any)
     window.addEventListener('galaxy-toast' as any, onToast as any)
     return () => {
-      window.removeEventListener('galaxy-effect' as any, onFx as any)
       window.removeEventListener('galaxy-toast' as any, onToast as any)
     }
   }, [])
@@ -134,13 +148,25 @@ export default function Page() {
 
       {/* Galaxy game canvas (interactive layer above starfield) */}
       {galaxyOn && (
-        <div className="fixed inset-0 z-[10]">
+        <div className="fx-palette fixed inset-0 z-[10]">
           <ErrorBoundary>
             <ClusteringGalaxyCanvas enabled={galaxyOn} parallaxY={smoothY} api={galaxy.api} />
           </ErrorBoundary>
         </div>
       )}
 
+      {/* Capture tools (lasso, gravity well) over the galaxy canvas */}
+      {galaxyOn && (
+        <ToolStrip
+          tools={galaxy.state?.tools}
+          onSelect={id => galaxy.api?.selectTool(id)}
+          className="fx-palette fixed bottom-4 left-1/2 -translate-x-1/2 z-30 pointer-events-auto"
+        />
+      )}
+
+      {/* Confetti canvas and palette shift, unlocked with IQ */}
+      <SiteEffectsLayer getTargetFps={galaxy.api?.getTargetFps} />
+
       {/* FPS Counter (responsive positioning) */}
       <FpsCounter
         show={showFpsCounter}
@@ -232,6 +258,11 @@ export default function Page() {
                 try { galaxy.api?.setDragAndDropEnabled?.(next) } catch {}
                 setDragAndDropEnabled(next)
               }}
+              notation={galaxy.state.notation}
+              onNotationChange={n => galaxy.api?.setNotation?.(n)}
+              pacing={galaxy.state.pacing}
+              onPacingPresetChange={preset => galaxy.api?.setPacingPreset?.(preset)}
+              onCustomPacingChange={patch => galaxy.api?.setCustomPacing?.(patch)}
               targetFps={galaxy.api?.getTargetFps ? galaxy.api.getTargetFps() : 30}
               onTargetFpsChange={fps => galaxy.api?.setTargetFps?.(fps)}
               qualityMode={
@@ -251,9 +282,11 @@ export default function Page() {
               }}
               showFpsCounter={showFpsCounter}
               onFpsCounterToggle={() => setShowFpsCounter(v => !v)}
-              onExportSave={() => null} // Not implemented yet
-              onImportSave={() => false} // Not implemented yet
+              onExportSave={() => galaxy.api?.exportSave() ?? null}
+              onExportSaveCode={() => galaxy.api?.exportSaveCode() ?? null}
+              onImportSave={(data) => galaxy.api?.importSave(data) ?? { ok: false, errors: ['save: the game is not running'] }}
               onClearSave={() => galaxy.api?.clearSaveData?.() || false}
+              saveSlots={saveSlots}
             />
           </div>
           
@@ -344,13 +377,15 @@ export default function Page() {
                   ...apiSettings,
                   specialEffects: {
                     rgbNeon: apiSettings.specialEffects?.rgbNeon ?? false,
+                    customShift: apiSettings.specialEffects?.customShift ?? false,
+                    shiftSpeed: apiSettings.specialEffects?.shiftSpeed ?? 1.0,
                   },
                 }
               }
               return {
-                coreColors: ['#3b82f6', '#6366f1', '#8b5cf6', '#a855f7', '#c084fc'],
+                coreColors: CORE_LEVELS.map(r => r.color),
                 ambientColors: ['#e5e7eb'],
-                coreSprites: ['database', 'database', 'database', 'database', 'database'],
+                coreSprites: CORE_LEVELS.map(() => 'database'),
                 unlockedSprites: [],
                 specialEffects: { rgbNeon: false },
                 dataGlowColor: '#00ff88',
@@ -363,13 +398,18 @@ export default function Page() {
                 unlockedSprites: settings.unlockedSprites || [],
                 specialEffects: {
                   rgbNeon: settings.specialEffects?.rgbNeon ?? false,
-                  customShift: false,
-                  shiftSpeed: 1.0,
+                  customShift: settings.specialEffects?.customShift ?? false,
+                  shiftSpeed: settings.specialEffects?.shiftSpeed ?? 1.0,
                 },
               }
               galaxy.api?.setCosmeticsSettings?.(apiSettings)
             }}
             unlocked={true || galaxy.state?.iqUpgrades?.paletteUnlocked || false}
+            maxLevel={maxCoreLevel(galaxy.state?.iqUpgrades?.deepLayers)}
+            tokens={galaxy.state?.tokens}
+            iq={galaxy.state?.iq}
+            notation={galaxy.state?.notation}
+            onBuy={id => galaxy.api?.buyCosmetic?.(id)}
           />
         </div>
       )}
@@ -6,7 +6,7 @@ import type { DrawSnapshot } from "../hooks/useClusteringGalaxy"
 export type ClusteringGalaxyCanvasProps = {
   enabled: boolean
   parallaxY: number
-  api: { getDrawSnapshot(): DrawSnapshot; registerCanvas: (c: HTMLCanvasElement | null) => () => void; clickAt: (x: number, y: number) => void; startDrag: (x: number, y: number) => boolean; updateDrag: (x: number, y: number) => void; endDrag: (velocityX: number, velocityY: number) => void; getDragAndDropEnabled: () => boolean }
+  api: { getDrawSnapshot(): DrawSnapshot; registerCanvas: (c: HTMLCanvasElement | null) => () => void; clickAt: (x: number, y: number) => void; startDrag: (x: number, y: number) => boolean; updateDrag: (x: number, y: number) => void; endDrag: (velocityX: number, velocityY: number) => void; getDragAndDropEnabled: () => boolean; getActiveTool?: () => string | null; beginLasso?: (x: number, y: number) => void; extendLasso?: (x: number, y: number) => void; finishLasso?: () => number }
 }
 
 /**
@@ -73,6 +73,7 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
       pointerId: null as number | null,
       mouseHistory: [] as { x: number; y: number; time: number }[],
       lastPointerUpTime: 0,
+      lasso: false, // drawing a loop with the lasso tool instead of clicking or dragging
     }
 
     // Enhanced mouse velocity tracking for dramatic physics effects
@@ -95,6 +96,7 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
       
       // Always reset local state
       dragState.isActive = false
+      dragState.lasso = false
       dragState.hasMoved = false
       dragState.attempted = false
       dragState.pointerId = null
@@ -160,6 +162,13 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
       dragState.pointerId = e.pointerId
       dragState.mouseHistory = []
       console.log('🔽 Pointer down at:', coords.x.toFixed(1), coords.y.toFixed(1))
+
+      // Lasso tool: this press draws a loop instead
+      if (api.getActiveTool?.() === 'lasso' && api.beginLasso) {
+        dragState.lasso = true
+        api.beginLasso(coords.x, coords.y)
+        try { canvas.setPointerCapture(e.pointerId) } catch {}
+      }
     }
 
     const handlePointerMove = (e: PointerEvent) => {
@@ -168,6 +177,11 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
       const coords = getCanvasCoords(e.clientX, e.clientY)
       const now = performance.now()
 
+      if (dragState.lasso) {
+        api.extendLasso?.(coords.x, coords.y)
+        return
+      }
+
       // Enhanced mouse velocity tracking for more dramatic physics
       if (dragState.mouseHistory.length === 0 ||
           now - dragState.mouseHistory[dragState.mouseHistory.length - 1].time > VELOCITY_SAMPLE_TIME) {
@@ -214,7 +228,7 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
             // Continue with drag even if capture fails
           }
         } else {
-          console.log('❌ Drag failed - no outlier found at (', coords.x.toFixed(1), coords.y.toFixed(1), ')')
+          console.log('❌ Drag failed - no outlier or core found at (', coords.x.toFixed(1), coords.y.toFixed(1), ')')
           // If drag failed but game hook thinks there's an active drag, clean it up
           if (api.getDragAndDropEnabled?.()) {
             console.log('🧹 Cleaning up failed drag state in game hook')
@@ -233,7 +247,10 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
 
       console.log('👆 Pointer up - isDragging:', dragState.isActive, 'hasMoved:', dragState.hasMoved, 'dragAttempted:', dragState.attempted)
 
-      if (dragState.isActive) {
+      if (dragState.lasso) {
+        // Close the loop and capture what it surrounds
+        api.finishLasso?.()
+      } else if (dragState.isActive) {
         // Enhanced mouse velocity calculation for dramatic physics
         let velocityX = 0, velocityY = 0
         if (dragState.mouseHistory.length >= 2) {
@@ -279,6 +296,7 @@ export default function ClusteringGalaxyCanvas({ enabled, parallaxY, api }: Clus
 
     const handlePointerCancel = (e: PointerEvent) => {
       console.log('🚫 Pointer cancelled - cleaning up drag state')
+      if (dragState.lasso) api.finishLasso?.()
       if (dragState.isActive) {
         console.log('🏁 Force ending drag due to pointer cancel')
         api.endDrag(0, 0)
@@ -4,18 +4,31 @@ import { useState, useRef, useEffect } from "react"
 import { createPortal } from "react-dom"
 import { motion, AnimatePresence } from "framer-motion"
 import { ALL_SPRITES, SPRITE_EMOJI } from "../constants/sprites"
+import { LINEAGES } from "../constants/lineages"
+import { CAPSULE_COLORS, getRarity } from "../constants/capsules"
+import { SHOP_ITEMS, BASE_AMBIENT_SLOTS, MAX_AMBIENT_SLOTS, itemPrice, purchaseBlocker } from "../constants/cosmeticShop"
+import type { ShopItemKind, ShopEffectId } from "../constants/cosmeticShop"
+import { ZERO, fromNumber, gte, format } from "../constants/bigNumber"
+import type { Big, Notation } from "../constants/bigNumber"
+import { CORE_LEVELS, BASE_MAX_LEVEL } from "../constants/coreLevels"
+import type { CoreLineage } from "../constants/lineages"
+import { galaxyStorage, getGalaxyStorage } from "../constants/storageAdapter"
 
 export type CosmeticsSettings = {
-  coreColors: string[] // L1-L5 core colors
-  ambientColors: string[] // Up to 3 ambient data colors
-  coreSprites: string[] // L1-L5 sprite choices
+  coreColors: string[] // Per-level core colors (L1 first)
+  ambientColors: string[] // Ambient data colors; the first ambientSlots are used
+  coreSprites: string[] // Per-level sprite choices (L1 first)
   specialEffects: {
     rgbNeon: boolean
     customShift?: boolean
     shiftSpeed?: number
   }
   unlockedSprites?: string[]
+  unlockedColors?: string[] // Capsule color ids won from loot capsules
+  unlockedEffects?: string[] // Special effects bought in the shop
+  ambientSlots?: number // Ambient color slots owned (1 free, more in the shop)
   dataGlowColor?: string // Custom color for data collection glow
+  lineageColors?: Partial<Record<CoreLineage, string>> // Halo colors for Transformer/Ensemble cores
 }
 
 export type CosmeticsPanelProps = {
@@ -24,9 +37,22 @@ export type CosmeticsPanelProps = {
   settings: CosmeticsSettings
   onSettingsChange: (settings: CosmeticsSettings) => void
   unlocked: boolean // Whether cosmetics are unlocked
+  maxLevel?: number // Highest core level reached so far; one color and sprite slot per level
+  // Shop: balances to price against and the purchase call (api.buyCosmetic)
+  tokens?: Big
+  iq?: Big
+  notation?: Notation
+  onBuy?: (id: string) => void
 }
 
-type TabType = 'palette' | 'sprites' | 'special'
+type TabType = 'palette' | 'sprites' | 'special' | 'shop'
+
+// Shop sections in display order
+const SHOP_SECTIONS: { kind: ShopItemKind; title: string }[] = [
+  { kind: 'sprite', title: 'Sprites' },
+  { kind: 'effect', title: 'Special Effects' },
+  { kind: 'ambientSlot', title: 'Ambient Color Slots' },
+]
 
 // Available sprite options
 const SPRITE_OPTIONS = [
@@ -59,16 +85,24 @@ const SPRITE_OPTIONS = [
 ]
 
 // Default color palettes
-const DEFAULT_CORE_COLORS = ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"]
+const DEFAULT_CORE_COLORS = CORE_LEVELS.map(r => r.color)
 const DEFAULT_AMBIENT_COLORS = ["#e5e7eb"]
 const DEFAULT_DATA_GLOW_COLOR = "#00ff88"
 
-export default function CosmeticsPanel({ visible, onToggle, settings, onSettingsChange, unlocked }: CosmeticsPanelProps) {
+export default function CosmeticsPanel({ visible, onToggle, settings, onSettingsChange, unlocked, maxLevel = BASE_MAX_LEVEL, tokens, iq, notation, onBuy }: CosmeticsPanelProps) {
   const [activeTab, setActiveTab] = useState<TabType>('palette')
-  const [activeSlot, setActiveSlot] = useState<number>(0) // 0..4 selection for L1..L5
+  const [activeSlot, setActiveSlot] = useState<number>(0) // 0-based selection for L1..L{maxLevel}
+  const levelSlots = Array.from({ length: maxLevel }, (_, i) => i)
+  // What the shop treats as owned (the hook resolves these in getCosmeticsSettings)
+  const owned = {
+    sprites: settings.unlockedSprites ?? [],
+    effects: (settings.unlockedEffects ?? []) as ShopEffectId[],
+    ambientSlots: settings.ambientSlots ?? BASE_AMBIENT_SLOTS,
+  }
+  const ownsEffect = (id: ShopEffectId) => owned.effects.includes(id)
   // Centralized picker state so it cannot be lost on child remounts
   const [openPicker, setOpenPicker] = useState<null | {
-    group: 'core' | 'ambient' | 'dataGlow'
+    group: 'core' | 'ambient' | 'dataGlow' | 'lineage'
     index: number
     label: string
   }>(null)
@@ -90,26 +124,31 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
     setOpenPicker(null)
   }
 
-  // Load/save recent colors (persist last 5)
+  // Load/save recent colors (persist last 5) through the game's storage
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem('cosmetics.recentColors')
-      if (raw) {
-        const arr = JSON.parse(raw)
-        if (Array.isArray(arr)) {
-          setRecentColors(arr.filter(Boolean).slice(0, 5))
-          return
+    let cancelled = false
+    galaxyStorage().then(storage => {
+      if (cancelled) return
+      try {
+        const raw = storage.getItem('cosmetics.recentColors')
+        if (raw) {
+          const arr = JSON.parse(raw)
+          if (Array.isArray(arr)) {
+            setRecentColors(arr.filter(Boolean).slice(0, 5))
+            return
+          }
         }
-      }
-    } catch {}
-    // Default to 5 whites
-    setRecentColors(new Array(5).fill('#ffffff'))
+      } catch {}
+      // Default to 5 whites
+      setRecentColors(new Array(5).fill('#ffffff'))
+    })
+    return () => { cancelled = true }
   }, [])
 
   const addRecentColor = (c: string) => {
     setRecentColors(prev => {
       const next = [c, ...prev.filter(x => x && x.toLowerCase() !== c.toLowerCase())].slice(0, 5)
-      try { localStorage.setItem('cosmetics.recentColors', JSON.stringify(next)) } catch {}
+      getGalaxyStorage()?.setItem('cosmetics.recentColors', JSON.stringify(next))
       return next
     })
   }
@@ -326,7 +365,7 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
             {/* Header with tabs */}
             <div className="flex items-center justify-between p-3 border-b border-zinc-700/50">
               <div className="flex gap-1">
-                {(['palette', 'sprites', 'special'] as TabType[]).map((tab) => (
+                {(['palette', 'sprites', 'special', 'shop'] as TabType[]).map((tab) => (
                   <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -357,10 +396,10 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                   <div>
                     <h3 className="text-[12px] font-semibold text-zinc-300 mb-3">Core Colors</h3>
                     <div className="grid grid-cols-5 gap-3">
-                      {settings.coreColors.map((color, i) => (
+                      {levelSlots.map(i => (
                         <ColorSwatch
                           key={i}
-                          color={color}
+                          color={settings.coreColors[i] || DEFAULT_CORE_COLORS[i]}
                           label={`L${i + 1}`}
                           onOpen={() => {
                             setOpenPicker({ group: 'core', index: i, label: `L${i + 1}` })
@@ -374,7 +413,7 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                   <div>
                     <h3 className="text-[12px] font-semibold text-zinc-300 mb-3">Ambient Data Colors</h3>
                     <div className="grid grid-cols-3 gap-3">
-                      {[0, 1, 2].map((i) => (
+                      {Array.from({ length: owned.ambientSlots }, (_, i) => i).map((i) => (
                         <ColorSwatch
                           key={i}
                           color={settings.ambientColors[i] || "#e5e7eb"}
@@ -386,6 +425,9 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                         />
                       ))}
                     </div>
+                    {owned.ambientSlots < MAX_AMBIENT_SLOTS && (
+                      <p className="text-[10px] text-zinc-500 mt-2">More ambient slots are in the Shop</p>
+                    )}
                   </div>
 
                   <div>
@@ -402,13 +444,31 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                     </div>
                   </div>
 
+                  <div>
+                    <h3 className="text-[12px] font-semibold text-zinc-300 mb-3">Lineage Halos</h3>
+                    <div className="flex gap-3">
+                      {LINEAGES.map((l, i) => (
+                        <ColorSwatch
+                          key={l.id}
+                          color={settings.lineageColors?.[l.id] || l.color}
+                          label={l.label}
+                          onOpen={() => {
+                            setOpenPicker({ group: 'lineage', index: i, label: `${l.label} Halo` })
+                            setPickerTempColor(null)
+                          }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+
                   <div className="pt-2">
                     <button
                       onClick={() => onSettingsChange({
                         ...settings,
                         coreColors: [...DEFAULT_CORE_COLORS],
                         ambientColors: [...DEFAULT_AMBIENT_COLORS],
-                        dataGlowColor: DEFAULT_DATA_GLOW_COLOR
+                        dataGlowColor: DEFAULT_DATA_GLOW_COLOR,
+                        lineageColors: {}
                       })}
                       className="px-3 py-1 text-[10px] bg-zinc-800/60 border border-zinc-700/50 text-zinc-300 rounded hover:bg-zinc-700/60 transition-colors"
                     >
@@ -420,11 +480,11 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
 
               {activeTab === 'sprites' && (
                 <div className="space-y-4">
-                  {/* Selected sprites L1-L5 */}
+                  {/* Selected sprite per reachable level */}
                   <div>
                     <h3 className="text-[12px] font-semibold text-zinc-300 mb-2">Selected Sprites</h3>
                     <div className="grid grid-cols-5 gap-2">
-                      {[0,1,2,3,4].map(i => {
+                      {levelSlots.map(i => {
                         const id = settings.coreSprites[i] || 'database'
                         return (
                           <button
@@ -449,13 +509,13 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                     <h3 className="text-[12px] font-semibold text-zinc-300 mb-2">Unlocked Sprites</h3>
                     <div className="grid grid-cols-8 gap-2">
                       {(settings.unlockedSprites?.length ? settings.unlockedSprites : ALL_SPRITES.map(s=>s.id)).map(id => {
-                        const usedSlots = (settings.coreSprites || []).map((s, i) => s === id ? i : -1).filter(i => i >= 0)
+                        const usedSlots = (settings.coreSprites || []).map((s, i) => s === id ? i : -1).filter(i => i >= 0 && i < maxLevel)
                         return (
                           <button
                             key={id}
                             onClick={() => {
                               const newSprites = [...settings.coreSprites]
-                              newSprites[Math.max(0, Math.min(4, activeSlot))] = id
+                              newSprites[Math.max(0, Math.min(maxLevel - 1, activeSlot))] = id
                               onSettingsChange({ ...settings, coreSprites: newSprites })
                             }}
                             className={`relative h-10 rounded border flex items-center justify-center text-sm ${ (settings.coreSprites.includes(id)) ? 'border-blue-500/60 bg-blue-500/10 text-blue-200' : 'border-zinc-700/60 bg-zinc-800/50 text-zinc-300 hover:bg-zinc-700/40'}`}
@@ -517,6 +577,7 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                     </div>
                     <button
                       onClick={() => {
+                        if (!ownsEffect('rgbNeon')) return setActiveTab('shop')
                         const newRgbNeon = !settings.specialEffects.rgbNeon
                         console.log(`RGB Neon toggled: ${newRgbNeon}`)
                         // Mutual exclusion: disable custom shift when enabling neon
@@ -531,17 +592,18 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                           : 'bg-zinc-800/60 border border-zinc-700/50 text-zinc-300 hover:bg-zinc-700/60'
                       }`}
                     >
-                      {settings.specialEffects.rgbNeon ? 'Enabled' : 'Disabled'}
+                      {!ownsEffect('rgbNeon') ? 'Locked · Shop' : settings.specialEffects.rgbNeon ? 'Enabled' : 'Disabled'}
                     </button>
                   </div>
 
                   <div className="flex items-center justify-between">
                     <div>
                       <h3 className="text-[12px] font-semibold text-zinc-300">Custom Shift</h3>
-                      <p className="text-[10px] text-zinc-500 mt-1">Animated gradient using your palette (L1..L5)</p>
+                      <p className="text-[10px] text-zinc-500 mt-1">Animated gradient using your palette (L1..L{maxLevel})</p>
                     </div>
                     <button
                       onClick={() => {
+                        if (!ownsEffect('customShift')) return setActiveTab('shop')
                         const current = (settings.specialEffects as any).customShift || false
                         const next = !current
                         onSettingsChange({
@@ -555,7 +617,7 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                           : 'bg-zinc-800/60 border border-zinc-700/50 text-zinc-300 hover:bg-zinc-700/60'
                       }`}
                     >
-                      {(settings.specialEffects as any).customShift ? 'Enabled' : 'Disabled'}
+                      {!ownsEffect('customShift') ? 'Locked · Shop' : (settings.specialEffects as any).customShift ? 'Enabled' : 'Disabled'}
                     </button>
                   </div>
 
@@ -589,6 +651,50 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                   </div>
                 </div>
               )}
+
+              {activeTab === 'shop' && (
+                <div className="space-y-4">
+                  <div className="text-[11px] text-zinc-400">
+                    Balance: <span className="font-semibold text-blue-200">{format(tokens ?? ZERO, notation)} tokens</span> · <span className="font-semibold text-emerald-200">{format(iq ?? ZERO, notation)} IQ</span>
+                  </div>
+                  {SHOP_SECTIONS.map(section => {
+                    // Sprites already owned drop out of the list; effects and slots stay to show they're owned
+                    const items = SHOP_ITEMS.filter(item => item.kind === section.kind && !(item.kind === 'sprite' && owned.sprites.includes(item.target)))
+                    return (
+                      <div key={section.kind}>
+                        <h3 className="text-[12px] font-semibold text-zinc-300 mb-2">{section.title}</h3>
+                        {items.length === 0 && <p className="text-[10px] text-zinc-500">Every sprite is unlocked</p>}
+                        <div className="space-y-1.5">
+                          {items.map(item => {
+                            const price = itemPrice(item)
+                            const blocker = purchaseBlocker(item, owned)
+                            const balance = (price.currency === 'iq' ? iq : tokens) ?? ZERO
+                            const can = !blocker && !!onBuy && gte(balance, fromNumber(price.amount))
+                            const rarity = getRarity(item.rarity)!
+                            return (
+                              <div key={item.id} className="flex items-center justify-between gap-2">
+                                <div className="flex min-w-0 items-center gap-2">
+                                  {item.kind === 'sprite' && <span className="text-zinc-300"><SpritePreview id={item.target} size={16} /></span>}
+                                  <span className="truncate text-[12px] text-zinc-200">{item.label}</span>
+                                  <span className="text-[10px] font-semibold" style={{ color: rarity.color }}>{rarity.label}</span>
+                                </div>
+                                <button
+                                  onClick={() => onBuy?.(item.id)}
+                                  disabled={!can}
+                                  title={blocker && blocker !== 'Owned' ? blocker : undefined}
+                                  className={`shrink-0 rounded px-2.5 py-1 text-[11px] font-semibold transition-all ${can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                                >
+                                  {blocker === 'Owned' ? 'Owned' : `${format(price.amount, notation)} ${price.currency === 'iq' ? 'IQ' : 'tokens'}`}
+                                </button>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
             </div>
           </div>
         </motion.div>
@@ -645,6 +751,8 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                       onSettingsChange({ ...settings, ambientColors: newColors.filter(Boolean) })
                     } else if (openPicker.group === 'dataGlow') {
                       onSettingsChange({ ...settings, dataGlowColor: c })
+                    } else if (openPicker.group === 'lineage') {
+                      onSettingsChange({ ...settings, lineageColors: { ...settings.lineageColors, [LINEAGES[openPicker.index].id]: c } })
                     }
                   }
                   apply(presetColor)
@@ -675,6 +783,8 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                       onSettingsChange({ ...settings, ambientColors: newColors.filter(Boolean) })
                     } else if (openPicker.group === 'dataGlow') {
                       onSettingsChange({ ...settings, dataGlowColor: c })
+                    } else if (openPicker.group === 'lineage') {
+                      onSettingsChange({ ...settings, lineageColors: { ...settings.lineageColors, [LINEAGES[openPicker.index].id]: c } })
                     }
                   }
                   apply(rc)
@@ -688,9 +798,46 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
               />
             ))}
           </div>
+          {/* Capsule colors: swatches won from loot capsules */}
+          {CAPSULE_COLORS.some(cc => settings.unlockedColors?.includes(cc.id)) && (
+            <>
+              <div className="mb-2 text-[10px] text-zinc-400">Capsule colors</div>
+              <div className="grid grid-cols-5 gap-1 mb-3">
+                {CAPSULE_COLORS.filter(cc => settings.unlockedColors?.includes(cc.id)).map(cc => (
+                  <button
+                    key={`capsule-${cc.id}`}
+                    onClick={() => {
+                      const apply = (c: string) => {
+                        if (openPicker.group === 'core') {
+                          const newColors = [...settings.coreColors]
+                          newColors[openPicker.index] = c
+                          onSettingsChange({ ...settings, coreColors: newColors })
+                        } else if (openPicker.group === 'ambient') {
+                          const newColors = [...settings.ambientColors]
+                          newColors[openPicker.index] = c
+                          onSettingsChange({ ...settings, ambientColors: newColors.filter(Boolean) })
+                        } else if (openPicker.group === 'dataGlow') {
+                          onSettingsChange({ ...settings, dataGlowColor: c })
+                        } else if (openPicker.group === 'lineage') {
+                          onSettingsChange({ ...settings, lineageColors: { ...settings.lineageColors, [LINEAGES[openPicker.index].id]: c } })
+                        }
+                      }
+                      apply(cc.hex)
+                      setPickerTempColor(cc.hex)
+                      addRecentColor(cc.hex)
+                      closePicker('capsule-select')
+                    }}
+                    className="w-6 h-6 rounded border border-zinc-600 hover:scale-110 transition-transform"
+                    style={{ backgroundColor: cc.hex }}
+                    title={cc.label}
+                  />
+                ))}
+              </div>
+            </>
+          )}
           <input
             type="color"
-            value={(pickerTempColor ?? (openPicker.group === 'core' ? (settings.coreColors[openPicker.index] || '#ffffff') : openPicker.group === 'ambient' ? (settings.ambientColors[openPicker.index] || '#e5e7eb') : (settings.dataGlowColor || '#00ff88')))}
+            value={(pickerTempColor ?? (openPicker.group === 'core' ? (settings.coreColors[openPicker.index] || '#ffffff') : openPicker.group === 'ambient' ? (settings.ambientColors[openPicker.index] || '#e5e7eb') : openPicker.group === 'lineage' ? (settings.lineageColors?.[LINEAGES[openPicker.index].id] || LINEAGES[openPicker.index].color) : (settings.dataGlowColor || '#00ff88')))}
             onChange={(e) => {
               const c = e.target.value
               setPickerTempColor(c)
@@ -704,6 +851,8 @@ export default function CosmeticsPanel({ visible, onToggle, settings, onSettings
                 onSettingsChange({ ...settings, ambientColors: newColors.filter(Boolean) })
               } else if (openPicker.group === 'dataGlow') {
                 onSettingsChange({ ...settings, dataGlowColor: c })
+              } else if (openPicker.group === 'lineage') {
+                onSettingsChange({ ...settings, lineageColors: { ...settings.lineageColors, [LINEAGES[openPicker.index].id]: c } })
               }
               addRecentColor(c)
             }}
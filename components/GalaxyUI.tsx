@@ -1,14 +1,30 @@
 "use client"
 
 import { useMemo, useState, useEffect } from "react"
-import type { Upgrades } from "../hooks/useClusteringGalaxy"
-// Use shared math for costs
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-const { upgradeCost } = require("../hooks/galaxyMath.js") as { upgradeCost: (k: keyof Upgrades, level: number) => number }
+import type { Upgrades, WeightUpgrades, BuyQuantity, OfflineReport } from "../hooks/useClusteringGalaxy"
+// Labels, costs and caps come from the shared upgrade registry
+import { upgradesFor, getUpgrade, remainingLevels, bulkCost, levelCost, maxAffordableLevels } from "../constants/upgrades"
+import { pacingValues, scaleCost } from "../constants/pacing"
+import type { PacingSave } from "../constants/pacing"
+import type { UpgradeId, IQUpgradeId, TokenUpgradeId, WeightUpgradeId } from "../constants/upgrades"
+import { ZERO, fromNumber, gte, toFiniteNumber, format } from "../constants/bigNumber"
+import type { Big, Notation } from "../constants/bigNumber"
+import { LINEAGES } from "../constants/lineages"
+import type { CoreLineage } from "../constants/lineages"
+import { BUFFS } from "../constants/dropTables"
+import type { BuffId } from "../constants/dropTables"
+import { getEvent } from "../constants/galaxyEvents"
+import type { ActiveEvent } from "../constants/galaxyEvents"
+import { ACHIEVEMENTS, achievementBonus } from "../constants/achievements"
+import type { AchievementDef, AchievementProgress } from "../constants/achievements"
+import type { AutobuyRule, AutobuyLogEntry } from "../constants/autobuyer"
+import { RESEARCH, getResearch, queueBlocker, researchProgress } from "../constants/research"
+import type { ResearchId, ResearchState } from "../constants/research"
+import { CORE_LEVELS, maxCoreLevel } from "../constants/coreLevels"
 
 export type GalaxyUIProps = {
-  state: { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades?: { computeMult: number; autoCollect: number; confettiUnlocked?: boolean; paletteUnlocked?: boolean; silverUnlocked?: boolean; goldUnlocked?: boolean; rareUnlocked?: boolean; epicUnlocked?: boolean; silverChanceLvl?: number; goldChanceLvl?: number; rareChanceLvl?: number; epicChanceLvl?: number }; cosmetics?: { coreColors?: string[] } }
-  api: { purchase: (k: keyof Upgrades, qty?: number) => void; purchaseIQ?: (k: 'computeMult' | 'autoCollect' | 'silverUnlock' | 'goldUnlock' | 'rareUnlock' | 'epicUnlock' | 'silverChanceUp' | 'goldChanceUp' | 'rareChanceUp' | 'epicChanceUp') => void; triggerEffect: (name: "confetti" | "palette") => void; getStats?: () => { tokensPerSec: number; coresByLevel: number[]; totalEverCollected: number; currentFloatingData: number }; getExtremeMode?: () => boolean; setExtremeMode?: (v: boolean) => void; debug?: { addTokens: (amount: number) => void; addIQ: (amount: number) => void; addCores: (levels: number[]) => void; setUpgradeLevel: (upgradeKey: keyof Upgrades, level: number) => void; setIQUpgradeLevel: (upgradeKey: 'computeMult' | 'autoCollect' | 'confettiUnlocked' | 'paletteUnlocked', level: number) => void; setExtremeMode?: (v: boolean) => void } }
+  state: { tokens: Big; iq: Big; upgrades: Upgrades; iqUpgrades?: { computeMult: number; autoCollect: number; confettiUnlocked?: boolean; paletteUnlocked?: boolean; silverUnlocked?: boolean; goldUnlocked?: boolean; rareUnlocked?: boolean; epicUnlocked?: boolean; autobuyerUnlocked?: boolean; silverChanceLvl?: number; goldChanceLvl?: number; rareChanceLvl?: number; epicChanceLvl?: number; offlineCap?: number; offlineEfficiency?: number; attentionHeads?: number; deepLayers?: number }; weights?: number; weightUpgrades?: WeightUpgrades; retrains?: number; offlineReport?: OfflineReport | null; notation?: Notation; pendingLineages?: number; buffs?: { id: BuffId; mult: number; endsAt: number }[]; cosmeticTokens?: number; activeEvent?: ActiveEvent | null; achievements?: string[]; autobuyer?: { enabled: boolean; rules: AutobuyRule[]; log: AutobuyLogEntry[] }; research?: ResearchState; pacing?: PacingSave; cosmetics?: { coreColors?: string[]; lineageColors?: Partial<Record<CoreLineage, string>> } }
+  api: { purchase: (k: keyof Upgrades, qty?: BuyQuantity) => void; purchaseIQ?: (k: Exclude<IQUpgradeId, 'dataQuality'>, qty?: BuyQuantity) => void; triggerEffect: (name: "confetti" | "palette") => void; getStats?: () => { tokensPerSec: number; coresByLevel: number[]; coresByLineage?: Record<CoreLineage, number>; clickMult?: number; bestCombo?: number; totalEverCollected: Big; currentFloatingData: number }; getRetrainPreview?: () => { weights: number; totalEverCollected: Big; peakCores: number }; retrain?: () => boolean; purchaseWeight?: (k: WeightUpgradeId) => void; dismissOfflineReport?: () => void; chooseLineage?: (lineage: CoreLineage) => boolean; redeemCosmeticToken?: () => boolean; setAutobuyRule?: (id: TokenUpgradeId, patch: Partial<Omit<AutobuyRule, 'id'>>) => void; setAutobuyerEnabled?: (v: boolean) => void; queueResearch?: (id: ResearchId) => boolean; cancelResearch?: (id: ResearchId) => boolean; getAchievements?: () => (AchievementDef & AchievementProgress & { unlocked: boolean })[]; getExtremeMode?: () => boolean; setExtremeMode?: (v: boolean) => void; debug?: { addTokens: (amount: number) => void; addIQ: (amount: number) => void; addCores: (levels: number[]) => void; setUpgradeLevel: (upgradeKey: keyof Upgrades, level: number) => void; setIQUpgradeLevel: (upgradeKey: 'computeMult' | 'autoCollect' | 'confettiUnlocked' | 'paletteUnlocked', level: number) => void; setExtremeMode?: (v: boolean) => void } }
   onToggle: () => void
   enabled?: boolean
   collapsed?: boolean
@@ -17,12 +33,33 @@ export type GalaxyUIProps = {
   onSidebarToggle?: () => void
 }
 
+// "2h 5m", "12m", "40s"
+function formatDuration(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(s / 3600)
+  const m = Math.floor((s % 3600) / 60)
+  if (h > 0) return m > 0 ? `${h}h ${m}m` : `${h}h`
+  if (m > 0) return `${m}m`
+  return `${s}s`
+}
+
 export default function GalaxyUI({ state, api, onToggle, enabled = true, collapsed = true, onCollapsedChange, sidebar = false, onSidebarToggle }: GalaxyUIProps) {
-  const [buyQuantity, setBuyQuantity] = useState(1)
-  const [openSections, setOpenSections] = useState<{ swarm: boolean; tokens: boolean; iq: boolean; debug: boolean }>({ swarm: true, tokens: true, iq: true, debug: false })
+  const [buyQuantity, setBuyQuantity] = useState<BuyQuantity>(1)
+  const [openSections, setOpenSections] = useState<{ swarm: boolean; tokens: boolean; iq: boolean; research: boolean; autobuy: boolean; retrain: boolean; debug: boolean }>({ swarm: true, tokens: true, iq: true, research: false, autobuy: false, retrain: false, debug: false })
+  const [confirmRetrain, setConfirmRetrain] = useState(false)
   const [tooltip, setTooltip] = useState<{ text: string; x: number; y: number; visible: boolean }>({ text: '', x: 0, y: 0, visible: false })
   const [panelPos, setPanelPos] = useState<{ top: number; right: number } | null>(null)
   const [compactSidebar, setCompactSidebar] = useState(false)
+  const [tab, setTab] = useState<'galaxy' | 'achievements'>('galaxy')
+  // Wall clock for event/buff/research countdowns; only ticks while something is counting down
+  const [now, setNow] = useState(() => Date.now())
+  const counting = Boolean(state.activeEvent) || (state.buffs?.length ?? 0) > 0 || (state.research?.queue.length ?? 0) > 0
+  useEffect(() => {
+    if (!counting) return
+    setNow(Date.now())
+    const id = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(id)
+  }, [counting])
 
   // Hide external toggle button when sidebar mode is active
   useEffect(() => {
@@ -61,20 +98,24 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
       window.removeEventListener('scroll', onResize as any)
     }
   }, [collapsed])
-  const rows = useMemo(() => ([
-    { key: "spawnRate", label: "Data Ingest", desc: "- spawn chance frequency" },
-    { key: "spawnQty", label: "Spawn Qty", desc: "spawn multiple per wave (max 5)" },
-    { key: "clickYield", label: "Label Quality", desc: "+1 click tokens / level" },
-    { key: "batchCollect", label: "Mini-Batch", desc: "+10% chance/level; collect all" },
-  ] as { key: keyof Upgrades; label: string; desc: string }[]), [])
+  const rows = useMemo(() => upgradesFor('tokens', 'upgrades').map(d => (
+    { key: d.id as keyof Upgrades, label: d.label, desc: d.description }
+  )), [])
+  const weightRows = useMemo(() => upgradesFor('weights').map(d => (
+    { key: d.id as WeightUpgradeId & keyof WeightUpgrades, label: d.label, desc: d.description }
+  )), [])
   const iqUp = state.iqUpgrades || { computeMult: 0, autoCollect: 0, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 }
-  const stats = api.getStats ? api.getStats() : { tokensPerSec: 0, coresByLevel: [0,0,0,0,0], totalEverCollected: 0, currentFloatingData: 0 }
+  const stats = api.getStats ? api.getStats() : { tokensPerSec: 0, coresByLevel: [] as number[], totalEverCollected: ZERO, currentFloatingData: 0 }
   const totalCores = stats.coresByLevel.reduce((a, b) => a + b, 0)
+  const retrainPreview = api.getRetrainPreview ? api.getRetrainPreview() : { weights: 0, totalEverCollected: ZERO, peakCores: 0 }
+  // Every economy value goes through the selected notation (suffix / scientific / engineering)
+  const fmt = (v: Big | number, decimals = 0) => format(v, state.notation, decimals)
+  const weightUp = state.weightUpgrades || { passiveBoost: 0, clickBoost: 0, warmStart: 0 }
 
   const coreColors = useMemo(() => {
     const palette = state.cosmetics?.coreColors
     if (palette && palette.length >= 2) return palette
-    return ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"]
+    return CORE_LEVELS.map(r => r.color)
   }, [state.cosmetics?.coreColors])
   const primaryGradientStops = useMemo(() => {
     const first = coreColors[0]
@@ -89,7 +130,33 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
     color: "transparent",
   }), [primaryGradientStops])
 
-  const quantityOptions = [1, 5, 20, 100] as const
+  const quantityOptions: BuyQuantity[] = [1, 5, 20, 100, 'max']
+  const qtyText = (q: BuyQuantity) => q === 'max' ? 'Max' : `${q}x`
+
+  // Offline progress upgrades (cap and efficiency) and Deep Layers, shown under the IQ section
+  const iqLevelRows = (['offlineCap', 'offlineEfficiency', 'deepLayers'] as const).map(id => {
+    const def = getUpgrade(id)!
+    const lvl = iqUp[id] ?? 0
+    const value = id === 'offlineCap' ? formatDuration(def.effect(lvl)) : id === 'deepLayers' ? `max L${def.effect(lvl)}` : `${Math.round(def.effect(lvl) * 100)}%`
+    return { id, lvl, value, label: def.label, desc: def.description }
+  })
+  // Core levels reachable right now (L1..max); Deep Layers adds more
+  const maxLevel = maxCoreLevel(iqUp.deepLayers)
+  const levels = Array.from({ length: maxLevel }, (_, i) => i + 1)
+  // Pacing scales token upgrade prices (IQ prices stay put) and sets where Data Ingest tops out
+  const pace = pacingValues(state.pacing)
+  const tokenPriceMult = pace.tokenCostMult
+  // Levels the selected quantity resolves to and their total cost (mirrors api.purchase)
+  const buyInfo = (id: UpgradeId, lvl: number, budget: Big) => {
+    const remaining = remainingLevels(id, lvl, pace)
+    const mult = getUpgrade(id)!.currency === 'tokens' ? tokenPriceMult : 1
+    let n = buyQuantity === 'max'
+      ? Math.max(1, maxAffordableLevels(id, lvl, toFiniteNumber(budget) / mult, pace))
+      : Math.max(1, Math.min(remaining, buyQuantity))
+    while (buyQuantity === 'max' && n > 1 && scaleCost(bulkCost(id, lvl, n), mult) > toFiniteNumber(budget)) n--
+    const cost = scaleCost(bulkCost(id, lvl, n), mult)
+    return { n, cost, maxed: remaining <= 0, can: remaining > 0 && gte(budget, fromNumber(cost)) }
+  }
 
   const renderSwarmSection = () => (
     <div className="px-4 py-3">
@@ -105,7 +172,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
           <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
             <div className="rounded border border-blue-500/40 bg-blue-500/10 px-2 py-2">
               <div className="text-[10px] text-blue-200/80">Tokens / sec</div>
-              <div className="text-[13px] font-semibold text-blue-200">{stats.tokensPerSec.toFixed(2)}</div>
+              <div className="text-[13px] font-semibold text-blue-200">{fmt(stats.tokensPerSec, 2)}</div>
             </div>
             <div className="rounded border border-purple-500/40 bg-purple-500/10 px-2 py-2">
               <div className="text-[10px] text-purple-200/80">Floating Data</div>
@@ -113,7 +180,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
             </div>
             <div className="rounded border border-amber-500/40 bg-amber-500/10 px-2 py-2">
               <div className="text-[10px] text-amber-200/80">Total Collected</div>
-              <div className="text-[13px] font-semibold text-amber-200">{Math.floor(stats.totalEverCollected || 0)}</div>
+              <div className="text-[13px] font-semibold text-amber-200">{fmt(stats.totalEverCollected)}</div>
             </div>
           </div>
           <div className="grid grid-cols-6 gap-2 text-center">
@@ -128,6 +195,38 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
               <div className="text-[12px] font-semibold text-zinc-200">{totalCores}</div>
             </div>
           </div>
+          {stats.coresByLineage && (stats.coresByLineage.transformer > 0 || stats.coresByLineage.ensemble > 0) && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-zinc-400">
+              {LINEAGES.map(l => (
+                <span key={l.id}>
+                  <span className="font-semibold" style={{ color: lineageColor(l.id) }}>{l.label}</span> ×{stats.coresByLineage![l.id]}
+                </span>
+              ))}
+              {(stats.clickMult ?? 1) > 1 && <span>Click ×{(stats.clickMult ?? 1).toFixed(2)}</span>}
+            </div>
+          )}
+          {(stats.bestCombo ?? 0) > 1 && (
+            <div className="text-[11px] text-zinc-400">Best combo <span className="font-semibold text-amber-200">{stats.bestCombo}</span></div>
+          )}
+          {/* Drop-table rewards: running buffs and unspent cosmetic tokens */}
+          {((state.buffs?.length ?? 0) > 0 || (state.cosmeticTokens ?? 0) > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-[11px]">
+              {state.buffs?.map(b => (
+                <span key={b.id} className="rounded border border-amber-500/50 bg-amber-500/10 px-2 py-0.5 text-amber-200" title={BUFFS[b.id].description}>
+                  {BUFFS[b.id].label} ×{b.mult} · {Math.max(0, Math.ceil((b.endsAt - now) / 1000))}s
+                </span>
+              ))}
+              {(state.cosmeticTokens ?? 0) > 0 && (
+                <button
+                  onClick={() => api.redeemCosmeticToken && api.redeemCosmeticToken()}
+                  className="rounded border border-pink-500/60 bg-pink-500/10 px-2 py-0.5 text-pink-200 hover:bg-pink-500/20 transition-colors"
+                  title="Unlock a random locked core sprite"
+                >
+                  Redeem Cosmetic Token ({state.cosmeticTokens})
+                </button>
+              )}
+            </div>
+          )}
           <div className="mt-1">
             <div className="text-[10px] text-zinc-500 mb-1">Upgrades</div>
             <div className="grid grid-cols-6 sm:grid-cols-8 gap-1.5">
@@ -176,7 +275,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                 : 'bg-zinc-800/60 border border-zinc-700/70 text-zinc-300 hover:bg-zinc-700/60'
             }`}
           >
-            {qty}x
+            {qtyText(qty)}
           </button>
         ))}
       </div>
@@ -196,9 +295,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
         <div className="space-y-3 mt-2">
           {rows.map((r) => {
             const lvl = (state.upgrades[r.key] ?? 0) as number
-            const totalCost = Array.from({ length: buyQuantity }, (_, i) => upgradeCost(r.key, lvl + i)).reduce((a, b) => a + b, 0)
-            const can = state.tokens >= totalCost
-            const qtyLabel = buyQuantity > 1 ? `${buyQuantity}x ` : '1x '
+            const { n, cost: totalCost, maxed, can } = buyInfo(r.key, lvl, state.tokens)
             return (
               <div key={r.key} className="space-y-2">
                 <div className="flex items-start justify-between gap-3">
@@ -215,9 +312,9 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                       ? 'border border-blue-500/70 bg-blue-500/15 hover:bg-blue-500/25 text-blue-200 shadow-sm hover:shadow-blue-500/20'
                       : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'
                   }`}
-                  aria-label={`Buy ${qtyLabel}${r.label} upgrade${buyQuantity > 1 ? 's' : ''} for ${totalCost} tokens`}
+                  aria-label={maxed ? `${r.label} maxed` : `Buy ${n}x ${r.label} upgrade${n > 1 ? 's' : ''} for ${fmt(totalCost)} tokens`}
                 >
-                  Buy {qtyLabel.trim()}({totalCost} tokens)
+                  {maxed ? 'Maxed' : `Buy ${n}x (${fmt(totalCost)} tokens)`}
                 </button>
               </div>
             )
@@ -227,6 +324,29 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
     </div>
   )
 
+  // Site effects: unlock once with IQ, then play from here
+  const renderEffectRows = () => (['confetti', 'palette'] as const).map(id => {
+    const def = getUpgrade(id)!
+    const unlocked = id === 'confetti' ? !!iqUp.confettiUnlocked : !!iqUp.paletteUnlocked
+    const cost = levelCost(id, 0)
+    const can = unlocked || gte(state.iq, fromNumber(cost))
+    return (
+      <div key={id} className="flex items-center justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="text-[14px] font-semibold text-zinc-200">{def.label}</div>
+          <div className="text-[12px] text-zinc-400 mt-0.5">{id === 'confetti' ? 'A burst of confetti across the page' : 'Sweeps the galaxy, stars and HUD through the color wheel'}</div>
+        </div>
+        <button
+          onClick={() => unlocked ? api.triggerEffect(id) : api.purchaseIQ && api.purchaseIQ(id)}
+          disabled={!can}
+          className={`shrink-0 rounded px-3 py-1.5 text-[12px] font-semibold transition-all ${!can ? 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed' : unlocked ? 'border border-pink-500/70 bg-pink-500/15 hover:bg-pink-500/25 text-pink-200' : 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200'}`}
+        >
+          {unlocked ? 'Play' : `Unlock (${cost} IQ)`}
+        </button>
+      </div>
+    )
+  })
+
   const renderIqUpgradeSection = () => (
     <div className="px-4 py-3 border-t border-zinc-700/40">
       <button
@@ -240,57 +360,490 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
         <div className="space-y-3 mt-2">
           {/* Per-tier unlocks and chance upgrades */}
           {([ 
-            { key: 'silver', label: 'Silver', color: '#c0c0c0', unlockKey: 'silverUnlock', chanceKey: 'silverChanceUp', unlocked: !!iqUp.silverUnlocked, lvl: iqUp.silverChanceLvl || 0, base: 0.75 },
-            { key: 'gold', label: 'Gold', color: '#ffd700', unlockKey: 'goldUnlock', chanceKey: 'goldChanceUp', unlocked: !!iqUp.goldUnlocked, lvl: iqUp.goldChanceLvl || 0, base: 0.40 },
-            { key: 'rare', label: 'Rare', color: '#60a5fa', unlockKey: 'rareUnlock', chanceKey: 'rareChanceUp', unlocked: !!iqUp.rareUnlocked, lvl: iqUp.rareChanceLvl || 0, base: 0.10 },
-            { key: 'epic', label: 'Epic', color: '#a855f7', unlockKey: 'epicUnlock', chanceKey: 'epicChanceUp', unlocked: !!iqUp.epicUnlocked, lvl: iqUp.epicChanceLvl || 0, base: 0.01 },
+            { key: 'silver', label: 'Silver', color: '#c0c0c0', unlockKey: 'silverUnlock', chanceKey: 'silverChanceUp', unlocked: !!iqUp.silverUnlocked, lvl: iqUp.silverChanceLvl || 0 },
+            { key: 'gold', label: 'Gold', color: '#ffd700', unlockKey: 'goldUnlock', chanceKey: 'goldChanceUp', unlocked: !!iqUp.goldUnlocked, lvl: iqUp.goldChanceLvl || 0 },
+            { key: 'rare', label: 'Rare', color: '#60a5fa', unlockKey: 'rareUnlock', chanceKey: 'rareChanceUp', unlocked: !!iqUp.rareUnlocked, lvl: iqUp.rareChanceLvl || 0 },
+            { key: 'epic', label: 'Epic', color: '#a855f7', unlockKey: 'epicUnlock', chanceKey: 'epicChanceUp', unlocked: !!iqUp.epicUnlocked, lvl: iqUp.epicChanceLvl || 0 },
           ] as const).map(row => (
             <div key={row.key} className="space-y-2">
               <div className="flex items-start justify-between gap-3">
                 <div className="min-w-0 flex-1">
                   <div className="text-[14px] font-semibold" style={{ color: row.color }}>{row.label} <span className="text-[12px] text-zinc-400">Lv {row.lvl}</span></div>
-                  <div className="text-[12px] text-zinc-400 mt-0.5">Per 5s roll. Base {Math.round(Math.min(1, row.base) * 100)}%, +25% per level. Effective {(Math.min(1, row.base * (1 + 0.25 * row.lvl)) * 100).toFixed(0)}%.</div>
+                  <div className="text-[12px] text-zinc-400 mt-0.5">{getUpgrade(row.chanceKey)?.description}. Effective {((getUpgrade(row.chanceKey)?.effect(row.lvl) ?? 0) * 100).toFixed(0)}%.</div>
                 </div>
               </div>
               <button
                 onClick={() => api.purchaseIQ && api.purchaseIQ(row.unlocked ? row.chanceKey : row.unlockKey)}
                 className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${row.unlocked ? 'border border-blue-500/70 bg-blue-500/15 hover:bg-blue-500/25 text-blue-200 shadow-sm hover:shadow-blue-500/20' : 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20'}`}
               >
-                {row.unlocked ? '+25% Chance (1 IQ)' : 'Unlock (1 IQ)'}
+                {row.unlocked ? `+25% Chance (${levelCost(row.chanceKey, row.lvl)} IQ)` : `Unlock (${levelCost(row.unlockKey, 0)} IQ)`}
               </button>
             </div>
           ))}
           <div className="space-y-2">
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0 flex-1">
-                <div className="text-[14px] font-semibold text-zinc-200">Compute Multiplier <span className="text-[12px] text-zinc-400">Lv {iqUp.computeMult} (x{Math.pow(2, iqUp.computeMult)})</span></div>
+                <div className="text-[14px] font-semibold text-zinc-200">Compute Multiplier <span className="text-[12px] text-zinc-400">Lv {iqUp.computeMult} (x{getUpgrade('computeMult')?.effect(iqUp.computeMult)})</span></div>
                 <div className="text-[12px] text-zinc-400 mt-0.5">Scales passive tokens by 2x per level</div>
               </div>
             </div>
-            <button
-              onClick={() => api.purchaseIQ && api.purchaseIQ('computeMult')}
-              className="w-full rounded-lg px-4 py-3 text-[14px] font-semibold border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20 transition-all"
-            >
-              Buy ({Math.pow(2, iqUp.computeMult)} IQ)
-            </button>
+            {(() => {
+              const b = buyInfo('computeMult', iqUp.computeMult, state.iq)
+              return (
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ('computeMult', buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {b.maxed ? 'Maxed' : `Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
+              )
+            })()}
           </div>
           <div className="space-y-2">
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0 flex-1">
-                <div className="text-[14px] font-semibold text-zinc-200">Auto Collect <span className="text-[12px] text-zinc-400">Lv {iqUp.autoCollect} ({(5/Math.pow(2, Math.max(0, iqUp.autoCollect))).toFixed(2)}s)</span></div>
+                <div className="text-[14px] font-semibold text-zinc-200">Auto Collect <span className="text-[12px] text-zinc-400">Lv {iqUp.autoCollect} ({(getUpgrade('autoCollect')?.effect(Math.max(0, iqUp.autoCollect)) ?? 5).toFixed(2)}s)</span></div>
                 <div className="text-[12px] text-zinc-400 mt-0.5">Auto-capture 1 data every interval</div>
               </div>
             </div>
+            {(() => {
+              const b = buyInfo('autoCollect', iqUp.autoCollect, state.iq)
+              return (
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ('autoCollect', buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {`Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
+              )
+            })()}
+          </div>
+          {iqLevelRows.map(row => {
+            const b = buyInfo(row.id, row.lvl, state.iq)
+            return (
+              <div key={row.id} className="space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-[14px] font-semibold text-zinc-200">{row.label} <span className="text-[12px] text-zinc-400">Lv {row.lvl} ({row.value})</span></div>
+                    <div className="text-[12px] text-zinc-400 mt-0.5">{row.desc}</div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ(row.id, buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {b.maxed ? 'Maxed' : `Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
+              </div>
+            )
+          })}
+          {renderEffectRows()}
+        </div>
+      )}
+    </div>
+  )
+
+  // Research: the queue with progress bars, every project, then the upgrade research unlocks
+  const renderResearchSection = () => {
+    const rs = state.research || { completed: [], queue: [] }
+    const heads = iqUp.attentionHeads ?? 0
+    return (
+      <div className="px-4 py-3 border-t border-zinc-700/40">
+        <button
+          onClick={() => setOpenSections((s) => ({ ...s, research: !s.research }))}
+          className="w-full flex items-center justify-between text-[12px] font-semibold text-zinc-400"
+        >
+          <span className="inline-flex items-center"><span className="w-2 h-2 bg-fuchsia-500 rounded-full mr-2"></span>Research (IQ){rs.queue.length > 0 ? ` · ${rs.queue.length} queued` : ''}</span>
+          <span className="text-zinc-500">{openSections.research ? '▾' : '▸'}</span>
+        </button>
+        {openSections.research && (
+          <div className="space-y-3 mt-2">
+            {rs.queue.length > 0 && (
+              <div className="space-y-2">
+                {rs.queue.map((q, i) => {
+                  const def = getResearch(q.id)!
+                  const left = q.endsAt != null ? (q.endsAt - now) / 1000 : def.seconds
+                  return (
+                    <div key={q.id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-[12px]">
+                        <span className="font-semibold text-zinc-200">{def.label}</span>
+                        <span className="inline-flex items-center gap-2 text-zinc-400">
+                          {i === 0 ? `${formatDuration(left)} left` : 'Queued'}
+                          <button onClick={() => api.cancelResearch?.(q.id)} className="text-zinc-500 hover:text-red-300" aria-label={`Cancel ${def.label} (refunds ${def.iq} IQ)`}>✕</button>
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded bg-zinc-800 overflow-hidden">
+                        <div className="h-full bg-fuchsia-500/80 transition-[width] duration-1000 ease-linear" style={{ width: `${researchProgress(q, now) * 100}%` }} />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            {RESEARCH.map(def => {
+              const done = rs.completed.includes(def.id)
+              const blocker = done ? null : queueBlocker(rs, def.id)
+              const can = !done && !blocker && gte(state.iq, fromNumber(def.iq))
+              return (
+                <div key={def.id} className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-[13px] font-semibold text-zinc-200">{def.label}{done && <span className="ml-1 text-emerald-300">✓</span>}</div>
+                    <div className="text-[11px] text-zinc-400 mt-0.5">{def.description} · {formatDuration(def.seconds)}{blocker ? ` · ${blocker}` : ''}</div>
+                  </div>
+                  {!done && (
+                    <button
+                      onClick={() => api.queueResearch?.(def.id)}
+                      disabled={!can}
+                      className={`shrink-0 rounded px-2.5 py-1 text-[12px] font-semibold transition-all ${can ? 'border border-fuchsia-500/70 bg-fuchsia-500/15 hover:bg-fuchsia-500/25 text-fuchsia-200' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                    >
+                      {def.iq} IQ
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+            {rs.completed.includes('attention') && (() => {
+              const def = getUpgrade('attentionHeads')!
+              const b = buyInfo('attentionHeads', heads, state.iq)
+              return (
+                <div className="space-y-2">
+                  <div className="min-w-0">
+                    <div className="text-[14px] font-semibold text-zinc-200">{def.label} <span className="text-[12px] text-zinc-400">Lv {heads} (x{def.effect(heads).toFixed(1)})</span></div>
+                    <div className="text-[12px] text-zinc-400 mt-0.5">{def.description}</div>
+                  </div>
+                  <button
+                    onClick={() => api.purchaseIQ && api.purchaseIQ('attentionHeads', buyQuantity)}
+                    disabled={!b.can}
+                    className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                  >
+                    {b.maxed ? 'Maxed' : `Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                  </button>
+                </div>
+              )
+            })()}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Autobuyer: IQ unlock first, then one rule per token upgrade and a log of what it bought
+  const renderAutobuyerSection = () => {
+    const unlocked = !!iqUp.autobuyerUnlocked
+    const ab = state.autobuyer
+    const unlockCost = levelCost('autobuyer', 0)
+    const canUnlock = gte(state.iq, fromNumber(unlockCost))
+    const numberInput = 'w-14 rounded border border-zinc-700/70 bg-zinc-900/80 px-1.5 py-0.5 text-[11px] text-zinc-200'
+    return (
+      <div className="px-4 py-3 border-t border-zinc-700/40">
+        <button
+          onClick={() => setOpenSections((s) => ({ ...s, autobuy: !s.autobuy }))}
+          className="w-full flex items-center justify-between text-[12px] font-semibold text-zinc-400"
+        >
+          <span className="inline-flex items-center"><span className="w-2 h-2 bg-cyan-500 rounded-full mr-2"></span>Autobuyer</span>
+          <span className="text-zinc-500">{openSections.autobuy ? '▾' : '▸'}</span>
+        </button>
+        {openSections.autobuy && (
+          <div className="space-y-3 mt-2">
+            {!unlocked && (
+              <>
+                <div className="text-[12px] text-zinc-400">Buys token upgrades for you once a second, following a rule per upgrade.</div>
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ('autobuyer')}
+                  disabled={!canUnlock}
+                  className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${canUnlock ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {`Unlock (${unlockCost} IQ)`}
+                </button>
+              </>
+            )}
+            {unlocked && ab && (
+              <>
+                <label className="flex items-center justify-between text-[12px] text-zinc-300">
+                  <span>Run rules</span>
+                  <input type="checkbox" checked={ab.enabled} onChange={(e) => api.setAutobuyerEnabled?.(e.target.checked)} className="accent-cyan-500" />
+                </label>
+                {ab.rules.map(rule => {
+                  const label = getUpgrade(rule.id)?.label ?? rule.id
+                  return (
+                    <div key={rule.id} className="rounded border border-zinc-700/60 bg-zinc-800/40 px-2 py-2 space-y-1.5">
+                      <label className="flex items-center gap-2 text-[12px] font-semibold text-zinc-200">
+                        <input type="checkbox" checked={rule.enabled} onChange={(e) => api.setAutobuyRule?.(rule.id, { enabled: e.target.checked })} className="accent-cyan-500" />
+                        {label} <span className="text-[11px] font-normal text-zinc-400">Lv {state.upgrades[rule.id] ?? 0}</span>
+                      </label>
+                      <div className="flex flex-wrap items-center gap-x-1.5 gap-y-1 text-[11px] text-zinc-400">
+                        <span>Buy while cost ≤</span>
+                        <input
+                          type="number" min={1} max={100} value={rule.maxCostPct}
+                          onChange={(e) => { if (e.target.value !== '') api.setAutobuyRule?.(rule.id, { maxCostPct: Number(e.target.value) }) }}
+                          className={numberInput} aria-label={`${label} max cost percent of tokens`}
+                        />
+                        <span>% of tokens, up to Lv</span>
+                        <input
+                          type="number" min={0} placeholder="∞" value={rule.maxLevel ?? ''}
+                          onChange={(e) => api.setAutobuyRule?.(rule.id, { maxLevel: e.target.value === '' ? null : Number(e.target.value) })}
+                          className={numberInput} aria-label={`${label} level limit`}
+                        />
+                      </div>
+                    </div>
+                  )
+                })}
+                <div className="space-y-1">
+                  <div className="text-[11px] font-semibold text-zinc-400">Recent purchases</div>
+                  {ab.log.length === 0 ? (
+                    <div className="text-[11px] text-zinc-500">Nothing bought yet this session</div>
+                  ) : (
+                    <ul className="space-y-0.5 text-[11px] text-zinc-300">
+                      {ab.log.map((e, i) => (
+                        <li key={`${e.at}-${e.id}-${i}`} className="flex justify-between gap-2">
+                          <span>{getUpgrade(e.id)?.label ?? e.id} → Lv {e.level}{e.count > 1 ? ` (+${e.count})` : ''}</span>
+                          <span className="text-zinc-500">{fmt(e.cost)} tokens</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderRetrainSection = () => (
+    <div className="px-4 py-3 border-t border-zinc-700/40">
+      <button
+        onClick={() => setOpenSections((s) => ({ ...s, retrain: !s.retrain }))}
+        className="w-full flex items-center justify-between text-[12px] font-semibold text-zinc-400"
+      >
+        <span className="inline-flex items-center"><span className="w-2 h-2 bg-amber-500 rounded-full mr-2"></span>Retrain (Weights)</span>
+        <span className="text-zinc-500">{openSections.retrain ? '▾' : '▸'}</span>
+      </button>
+      {openSections.retrain && (
+        <div className="space-y-3 mt-2">
+          <div className="grid grid-cols-2 gap-2 text-[12px]">
+            <div className="rounded border border-amber-500/40 bg-amber-500/10 px-2 py-2">
+              <div className="text-[10px] text-amber-200/80">Weights</div>
+              <div className="text-[13px] font-semibold text-amber-200">{state.weights ?? 0}</div>
+            </div>
+            <div className="rounded border border-zinc-700/60 bg-zinc-800/40 px-2 py-2">
+              <div className="text-[10px] text-zinc-400">Retrains</div>
+              <div className="text-[13px] font-semibold text-zinc-200">{state.retrains ?? 0}</div>
+            </div>
+          </div>
+          <div className="text-[12px] text-zinc-400">Reset tokens, token upgrades and cores back to a single L1 core. Weights scale with total data collected and your peak core count.</div>
+          <button
+            onClick={() => setConfirmRetrain(true)}
+            disabled={retrainPreview.weights <= 0}
+            className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${
+              retrainPreview.weights > 0
+                ? 'border border-amber-500/70 bg-amber-500/15 hover:bg-amber-500/25 text-amber-200 shadow-sm hover:shadow-amber-500/20'
+                : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'
+            }`}
+          >
+            Retrain (+{retrainPreview.weights} Weights)
+          </button>
+          {weightRows.map((r) => {
+            const lvl = weightUp[r.key] ?? 0
+            const maxed = remainingLevels(r.key, lvl) <= 0
+            const cost = levelCost(r.key, lvl)
+            const can = !maxed && (state.weights ?? 0) >= cost
+            return (
+              <div key={r.key} className="space-y-2">
+                <div className="min-w-0">
+                  <div className="text-[14px] font-semibold text-zinc-200">{r.label} <span className="text-[12px] text-zinc-400">Lv {lvl}</span></div>
+                  <div className="text-[12px] text-zinc-400 mt-0.5">{r.desc}</div>
+                </div>
+                <button
+                  onClick={() => api.purchaseWeight && api.purchaseWeight(r.key)}
+                  disabled={!can}
+                  className={`w-full rounded-lg px-4 py-3 text-[14px] font-semibold transition-all ${
+                    can
+                      ? 'border border-amber-500/70 bg-amber-500/15 hover:bg-amber-500/25 text-amber-200 shadow-sm hover:shadow-amber-500/20'
+                      : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'
+                  }`}
+                >
+                  {maxed ? 'Maxed' : `Buy (${cost} Weights)`}
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+
+  const renderRetrainDialog = () => (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-auto" onClick={() => setConfirmRetrain(false)}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Confirm Retrain"
+        onClick={(e) => e.stopPropagation()}
+        className="w-[90vw] max-w-sm rounded-lg border border-zinc-700/70 bg-zinc-900/95 p-5 text-zinc-200 shadow-xl"
+      >
+        <div className="text-[15px] font-semibold text-amber-200">Retrain the model?</div>
+        <div className="mt-3 rounded border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-center">
+          <div className="text-[10px] text-amber-200/80">Payout</div>
+          <div className="text-[18px] font-semibold text-amber-200">+{retrainPreview.weights} Weights</div>
+        </div>
+        <div className="mt-3 space-y-1 text-[12px] text-zinc-400">
+          <div>Total collected: <span className="text-zinc-200">{fmt(retrainPreview.totalEverCollected)}</span> • Peak cores: <span className="text-zinc-200">{retrainPreview.peakCores}</span></div>
+          <div>Resets: tokens, token upgrades and all cores.</div>
+          <div>Keeps: IQ, IQ upgrades, cosmetics and Weights upgrades.</div>
+        </div>
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={() => setConfirmRetrain(false)}
+            className="flex-1 rounded-lg px-3 py-2 text-[13px] font-medium border border-zinc-700/70 bg-zinc-800/60 text-zinc-300 hover:bg-zinc-700/60 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              api.retrain && api.retrain()
+              setConfirmRetrain(false)
+            }}
+            disabled={retrainPreview.weights <= 0}
+            className="flex-1 rounded-lg px-3 py-2 text-[13px] font-semibold border border-amber-500/70 bg-amber-500/15 hover:bg-amber-500/25 text-amber-200 transition-colors disabled:opacity-50"
+          >
+            Retrain
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  const lineageColor = (id: CoreLineage) => state.cosmetics?.lineageColors?.[id] || LINEAGES.find(l => l.id === id)!.color
+
+  // Shown while any max-level core is held waiting for its split; it cannot be dismissed without choosing
+  const renderLineageDialog = (pending: number) => (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-auto">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Choose a lineage"
+        className="w-[90vw] max-w-md rounded-lg border border-zinc-700/70 bg-zinc-900/95 p-5 text-zinc-200 shadow-xl"
+      >
+        <div className="text-[15px] font-semibold text-zinc-100">An L{maxLevel} core is ready to split</div>
+        <div className="mt-1 text-[12px] text-zinc-400">
+          Both new L1 cores inherit the lineage you pick.{pending > 1 ? ` ${pending} cores are waiting.` : ''}
+        </div>
+        <div className="mt-4 grid grid-cols-2 gap-2">
+          {LINEAGES.map(l => (
             <button
-              onClick={() => api.purchaseIQ && api.purchaseIQ('autoCollect')}
-              className="w-full rounded-lg px-4 py-3 text-[14px] font-semibold border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20 transition-all"
+              key={l.id}
+              onClick={() => api.chooseLineage && api.chooseLineage(l.id)}
+              className="rounded-lg border bg-zinc-800/60 hover:bg-zinc-700/60 px-3 py-3 text-left transition-colors"
+              style={{ borderColor: lineageColor(l.id) }}
             >
-              Buy ({Math.pow(2, iqUp.autoCollect)} IQ)
+              <div className="text-[13px] font-semibold" style={{ color: lineageColor(l.id) }}>{l.label}</div>
+              <div className="mt-1 text-[11px] text-zinc-400">{l.description}</div>
             </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+
+  const unlockedAchievements = state.achievements ?? []
+
+  const renderAchievementsTab = () => {
+    const list = tab === 'achievements' && api.getAchievements ? api.getAchievements() : []
+    const groups = Array.from(new Set(list.map(a => a.group)))
+    const clickPct = Math.round((achievementBonus(unlockedAchievements, 'click') - 1) * 100)
+    const passivePct = Math.round((achievementBonus(unlockedAchievements, 'passive') - 1) * 100)
+    return (
+      <div className="px-4 py-3 space-y-4 text-[12px]">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded border border-emerald-500/40 bg-emerald-500/10 px-2 py-2">
+            <div className="text-[10px] text-emerald-200/80">Passive bonus</div>
+            <div className="text-[13px] font-semibold text-emerald-200">+{passivePct}%</div>
+          </div>
+          <div className="rounded border border-blue-500/40 bg-blue-500/10 px-2 py-2">
+            <div className="text-[10px] text-blue-200/80">Click bonus</div>
+            <div className="text-[13px] font-semibold text-blue-200">+{clickPct}%</div>
           </div>
-          {/* Cosmetics unlocks removed; cosmetics available by default in Cosmetics panel */}
         </div>
-      )}
+        {groups.map(g => (
+          <div key={g}>
+            <div className="text-[11px] font-semibold text-zinc-400 mb-2">{g}</div>
+            <div className="space-y-2">
+              {list.filter(a => a.group === g).map(a => (
+                <div key={a.id} className={`rounded border px-2 py-2 ${a.unlocked ? 'border-amber-500/50 bg-amber-500/10' : 'border-zinc-700/60 bg-zinc-800/40'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`font-semibold ${a.unlocked ? 'text-amber-200' : 'text-zinc-300'}`}>{a.unlocked ? '★ ' : ''}{a.label}</span>
+                    {a.bonus && <span className="text-[10px] text-emerald-300">+{a.bonus.pct}% {a.bonus.kind}</span>}
+                  </div>
+                  <div className="text-[11px] text-zinc-400">{a.description}</div>
+                  {!a.unlocked && (
+                    <div className="mt-1 flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded bg-zinc-700/60 overflow-hidden">
+                        <div className="h-full bg-blue-400/70" style={{ width: `${Math.round(a.ratio * 100)}%` }} />
+                      </div>
+                      <span className="text-[10px] tabular-nums text-zinc-400">{fmt(Math.min(a.value, a.target))}/{fmt(a.target)}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  // Timed event banner; stays on screen even when the HUD is collapsed
+  const renderEventBanner = (ev: ActiveEvent) => {
+    const def = getEvent(ev.id)
+    if (!def) return null
+    const left = Math.max(0, Math.ceil((ev.endsAt - now) / 1000))
+    return (
+      <div role="status" className="fixed left-1/2 top-3 z-40 -translate-x-1/2 pointer-events-none rounded-lg border border-cyan-500/60 bg-zinc-900/90 px-4 py-2 text-center shadow-[0_0_16px_rgba(6,182,212,0.25)]">
+        <div className="text-[13px] font-semibold text-cyan-200">{def.label} <span className="tabular-nums text-zinc-300">{Math.floor(left / 60)}:{String(left % 60).padStart(2, '0')}</span></div>
+        <div className="text-[11px] text-zinc-400">{def.description}</div>
+      </div>
+    )
+  }
+
+  const renderOfflineDialog = (report: OfflineReport) => (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-auto" onClick={() => api.dismissOfflineReport && api.dismissOfflineReport()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Welcome back"
+        onClick={(e) => e.stopPropagation()}
+        className="w-[90vw] max-w-sm rounded-lg border border-zinc-700/70 bg-zinc-900/95 p-5 text-zinc-200 shadow-xl"
+      >
+        <div className="text-[15px] font-semibold text-emerald-200">Welcome back</div>
+        <div className="mt-1 text-[12px] text-zinc-400">You were away for <span className="text-zinc-200">{formatDuration(report.awaySeconds)}</span>.</div>
+        <div className="mt-3 rounded border border-emerald-500/40 bg-emerald-500/10 px-3 py-2 text-center">
+          <div className="text-[10px] text-emerald-200/80">Earned while away</div>
+          <div className="text-[18px] font-semibold text-emerald-200">+{fmt(report.total)} tokens</div>
+        </div>
+        <div className="mt-3 space-y-1 text-[12px] text-zinc-400">
+          <div>Cores: <span className="text-zinc-200">+{fmt(report.passive)}</span> ({fmt(report.passivePerSec, 1)}/s)</div>
+          {report.autoPerSec > 0 && (
+            <div>Auto Collect: <span className="text-zinc-200">+{fmt(report.auto)}</span> ({fmt(report.autoPerSec, 1)}/s)</div>
+          )}
+          <div>Efficiency: <span className="text-zinc-200">{Math.round(report.efficiency * 100)}%</span></div>
+          {report.capped && (
+            <div className="text-amber-200/90">Offline cap reached: only {formatDuration(report.creditedSeconds)} counted. Upgrade Checkpointing for more.</div>
+          )}
+        </div>
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={() => api.dismissOfflineReport && api.dismissOfflineReport()}
+            className="flex-1 rounded-lg px-3 py-2 text-[13px] font-semibold border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
     </div>
   )
 
@@ -333,7 +886,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
             </div>
             <div className="space-y-2">
               <button
-                onClick={() => api.debug?.addCores([1, 2, 3, 4, 5])}
+                onClick={() => api.debug?.addCores(levels)}
                 disabled={!debugAvailable}
                 className={`w-full rounded px-3 py-2 text-[12px] font-medium transition-colors ${
                   debugAvailable
@@ -341,10 +894,10 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                     : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-500 cursor-not-allowed'
                 }`}
               >
-                ? Add All 5 Levels (L1-L5)
+                ? Add All {maxLevel} Levels (L1-L{maxLevel})
               </button>
               <div className="flex gap-1">
-                {[1, 2, 3, 4, 5].map((level) => (
+                {levels.map((level) => (
                   <button
                     key={level}
                     onClick={() => api.debug?.addCores([level])}
@@ -482,25 +1035,38 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
             </button>
           </div>
         </div>
+        <div className="flex items-center gap-1 text-[11px]" role="tablist">
+          {(['galaxy', 'achievements'] as const).map(t => (
+            <button
+              key={t}
+              role="tab"
+              aria-selected={tab === t}
+              onClick={() => setTab(t)}
+              className={`px-2 py-0.5 font-medium rounded ${tab === t ? 'bg-blue-500/20 border border-blue-500/70 text-blue-300' : 'text-zinc-300 hover:bg-zinc-800/80'}`}
+            >
+              {t === 'galaxy' ? 'Galaxy' : `Achievements ${unlockedAchievements.length}/${ACHIEVEMENTS.length}`}
+            </button>
+          ))}
+        </div>
         <div className="flex items-center justify-between text-[12px]">
           <span className="inline-flex items-center gap-1">
             <span className="w-2 h-2 bg-blue-400 rounded-full"></span>
-            <span className="text-blue-200 font-medium">Tokens: {Math.floor(state.tokens)}</span>
+            <span className="text-blue-200 font-medium">Tokens: {fmt(state.tokens)}</span>
           </span>
           <span className="inline-flex items-center gap-1">
             <span className="w-2 h-2 bg-emerald-400 rounded-full"></span>
-            <span className="text-emerald-200 font-medium">IQ: {Math.floor(state.iq || 0)}</span>
+            <span className="text-emerald-200 font-medium">IQ: {fmt(state.iq)}</span>
           </span>
         </div>
         <div className="flex items-center gap-2 text-[11px]">
           <span className="text-zinc-400">Buy Qty:</span>
           <div className="flex items-center gap-1 rounded px-0.5 py-0.5 bg-zinc-900/40">
-            {[1,5,20,100].map(q => (
+            {quantityOptions.map(q => (
               <button
                 key={q}
                 onClick={() => setBuyQuantity(q)}
                 className={`px-2 py-0.5 text-[10px] font-medium rounded ${buyQuantity===q? 'bg-blue-500/20 border border-blue-500/70 text-blue-300':'text-zinc-300 hover:bg-zinc-800/80'}`}
-              >{q}x</button>
+              >{qtyText(q)}</button>
             ))}
           </div>
         </div>
@@ -511,17 +1077,22 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
   // Dropdown panel (compact) - narrower than sidebar
   const DropdownPanel = (
     <div id="galaxy-ui-panel" role="region" aria-label="Clustering Galaxy Controls"
-      className="fixed z-40 w-[90vw] max-w-[22rem] max-h-[75vh] overflow-y-auto overflow-x-hidden small-scrollbar rounded-lg border border-zinc-700/60 bg-zinc-900/95 backdrop-blur text-zinc-200 shadow-[0_0_20px_rgba(59,130,246,0.15)] pointer-events-auto"
+      className="fx-palette fixed z-40 w-[90vw] max-w-[22rem] max-h-[75vh] overflow-y-auto overflow-x-hidden small-scrollbar rounded-lg border border-zinc-700/60 bg-zinc-900/95 backdrop-blur text-zinc-200 shadow-[0_0_20px_rgba(59,130,246,0.15)] pointer-events-auto"
       style={panelPos ? { top: panelPos.top, right: panelPos.right } : undefined}
     >
       {renderHeader()}
+      {tab === 'achievements' ? renderAchievementsTab() : (
       <div className="space-y-2 py-2">
         {renderSwarmSection()}
         {renderBuyQuantityRow()}
         {renderTokenUpgradeSection()}
         {renderIqUpgradeSection()}
+        {renderResearchSection()}
+        {renderAutobuyerSection()}
+        {renderRetrainSection()}
         {renderDebugSection()}
       </div>
+      )}
       {/* Debug tools (dev only) */}
       {api.debug?.addCores && (
         <div className="px-4 py-3">
@@ -529,12 +1100,12 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
           <button
             onClick={() => {
               const arr: number[] = []
-              for (let r = 0; r < 20; r++) arr.push(1, 2, 3, 4, 5)
+              for (let r = 0; r < 20; r++) arr.push(...levels)
               api.debug!.addCores(arr)
             }}
             className="w-full rounded border border-zinc-700/70 bg-zinc-800/60 px-3 py-2 text-[12px] font-semibold text-zinc-200 hover:bg-zinc-700/60 transition"
           >
-            Spawn 20× cores (L1–L5)
+            Spawn 20× cores (L1–L{maxLevel})
           </button>
           {api.setExtremeMode && (
             <button
@@ -553,11 +1124,12 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
   const Sidebar = (
     <div
       className={
-        "fixed right-0 z-50 w-[100vw] sm:w-[24rem] border-l border-zinc-700/60 bg-zinc-900/95 backdrop-blur text-zinc-200 shadow-[0_0_28px_rgba(59,130,246,0.25)] overflow-y-auto overflow-x-hidden small-scrollbar pointer-events-auto"
+        "fx-palette fixed right-0 z-50 w-[100vw] sm:w-[24rem] border-l border-zinc-700/60 bg-zinc-900/95 backdrop-blur text-zinc-200 shadow-[0_0_28px_rgba(59,130,246,0.25)] overflow-y-auto overflow-x-hidden small-scrollbar pointer-events-auto"
         + (compactSidebar ? " bottom-0 h-[42vh] rounded-t-lg" : " inset-y-0")
       }
     >
       {renderHeader()}
+      {tab === 'achievements' ? renderAchievementsTab() : (
       <div className="space-y-1">
         {renderSwarmSection()}
         {/* Token Upgrades */}
@@ -569,9 +1141,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
           <div className="space-y-4">
             {rows.map((r) => {
               const lvl = (state.upgrades[r.key] ?? 0) as number
-              const cost = upgradeCost(r.key, lvl)
-              const totalCost = Array.from({length: buyQuantity}, (_, i) => upgradeCost(r.key, lvl + i)).reduce((a, b) => a + b, 0)
-              const can = state.tokens >= totalCost
+              const { n, cost: totalCost, maxed, can } = buyInfo(r.key, lvl, state.tokens)
               return (
                 <div key={r.key} className="space-y-2">
                   <div className="flex items-start justify-between gap-3">
@@ -588,9 +1158,9 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                         ? "border border-blue-500/70 bg-blue-500/15 hover:bg-blue-500/25 text-blue-200 shadow-sm hover:shadow-blue-500/20"
                         : "border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed"
                     }`}
-                    aria-label={`Buy ${buyQuantity}x ${r.label} upgrade${buyQuantity > 1 ? 's' : ''} for ${totalCost} tokens`}
+                    aria-label={maxed ? `${r.label} maxed` : `Buy ${n}x ${r.label} upgrade${n > 1 ? 's' : ''} for ${fmt(totalCost)} tokens`}
                   >
-                    Buy {buyQuantity > 1 ? `${buyQuantity}x` : ''} ({totalCost} tokens)
+                    {maxed ? 'Maxed' : `Buy ${n}x (${fmt(totalCost)} tokens)`}
                   </button>
                 </div>
               )
@@ -615,7 +1185,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                   <div className="flex items-start justify-between gap-3">
                     <div className="min-w-0 flex-1">
                       <div className="text-[15px] font-semibold text-zinc-200">Silver Tier <span className="text-[12px] text-zinc-400">(2 data/click)</span></div>
-                      <div className="text-[12px] text-zinc-400 mt-1">Costs 10 IQ; requires Bronze</div>
+                      <div className="text-[12px] text-zinc-400 mt-1">Costs {levelCost('dataQuality', 0)} IQ; requires Bronze</div>
                     </div>
                   </div>
                   <button
@@ -627,14 +1197,14 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                         : 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20'
                     }`}
                   >
-                    {lvl >= 1 ? 'Unlocked ✓' : 'Buy (10 IQ)'}
+                    {lvl >= 1 ? 'Unlocked ✓' : `Buy (${levelCost('dataQuality', 0)} IQ)`}
                   </button>
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-start justify-between gap-3">
                     <div className="min-w-0 flex-1">
                       <div className="text-[15px] font-semibold text-zinc-200">Gold Tier <span className="text-[12px] text-zinc-400">(3 data/click)</span></div>
-                      <div className="text-[12px] text-zinc-400 mt-1">Costs 100 IQ; requires Silver</div>
+                      <div className="text-[12px] text-zinc-400 mt-1">Costs {levelCost('dataQuality', 1)} IQ; requires Silver</div>
                     </div>
                   </div>
                   <button
@@ -646,7 +1216,7 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
                         : 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20'
                     }`}
                   >
-                    {lvl >= 2 ? 'Unlocked ✓' : 'Buy (100 IQ)'}
+                    {lvl >= 2 ? 'Unlocked ✓' : `Buy (${levelCost('dataQuality', 1)} IQ)`}
                   </button>
                 </div>
               </>
@@ -655,40 +1225,64 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
           <div className="space-y-2">
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0 flex-1">
-                <div className="text-[15px] font-semibold text-zinc-200">Compute Multiplier <span className="text-[12px] text-zinc-400">Lv {iqUp.computeMult} (x{Math.pow(2, iqUp.computeMult)})</span></div>
+                <div className="text-[15px] font-semibold text-zinc-200">Compute Multiplier <span className="text-[12px] text-zinc-400">Lv {iqUp.computeMult} (x{getUpgrade('computeMult')?.effect(iqUp.computeMult)})</span></div>
                 <div className="text-[12px] text-zinc-400 mt-1">Scales passive tokens by 2x per level</div>
               </div>
             </div>
-            <button
-              onClick={() => api.purchaseIQ && api.purchaseIQ('computeMult')}
-              className="w-full rounded-lg px-4 py-3 text-[15px] font-semibold border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20 transition-all"
-            >
-              Buy ({Math.pow(2, iqUp.computeMult)} IQ)
-            </button>
+            {(() => {
+              const b = buyInfo('computeMult', iqUp.computeMult, state.iq)
+              return (
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ('computeMult', buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[15px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {b.maxed ? 'Maxed' : `Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
+              )
+            })()}
           </div>
           <div className="space-y-2">
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0 flex-1">
-                <div className="text-[15px] font-semibold text-zinc-200">Auto Collect <span className="text-[12px] text-zinc-400">Lv {iqUp.autoCollect} ({(5/Math.pow(2, Math.max(0, iqUp.autoCollect))).toFixed(2)}s)</span></div>
+                <div className="text-[15px] font-semibold text-zinc-200">Auto Collect <span className="text-[12px] text-zinc-400">Lv {iqUp.autoCollect} ({(getUpgrade('autoCollect')?.effect(Math.max(0, iqUp.autoCollect)) ?? 5).toFixed(2)}s)</span></div>
                 <div className="text-[12px] text-zinc-400 mt-1">Auto-capture 1 data every interval</div>
               </div>
             </div>
-            <button
-              onClick={() => api.purchaseIQ && api.purchaseIQ('autoCollect')}
-              className="w-full rounded-lg px-4 py-3 text-[15px] font-semibold border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20 transition-all"
-            >
-              Buy ({Math.pow(2, iqUp.autoCollect)} IQ)
-            </button>
+            {(() => {
+              const b = buyInfo('autoCollect', iqUp.autoCollect, state.iq)
+              return (
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ('autoCollect', buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[15px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {`Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
+              )
+            })()}
           </div>
-          <div className="space-y-2">
-            <div className="flex items-start justify-between gap-3">
-              <div className="min-w-0 flex-1">
-                <div className="text-[15px] font-semibold text-zinc-200">Cosmetics</div>
-                <div className="text-[12px] text-zinc-400 mt-1">Unlock Confetti / Palette (1 IQ each)</div>
+          {iqLevelRows.map(row => {
+            const b = buyInfo(row.id, row.lvl, state.iq)
+            return (
+              <div key={row.id} className="space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-[15px] font-semibold text-zinc-200">{row.label} <span className="text-[12px] text-zinc-400">Lv {row.lvl} ({row.value})</span></div>
+                    <div className="text-[12px] text-zinc-400 mt-1">{row.desc}</div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => api.purchaseIQ && api.purchaseIQ(row.id, buyQuantity)}
+                  disabled={!b.can}
+                  className={`w-full rounded-lg px-4 py-3 text-[15px] font-semibold transition-all ${b.can ? 'border border-emerald-500/70 bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-200 shadow-sm hover:shadow-emerald-500/20' : 'border border-zinc-700/70 bg-zinc-800/60 text-zinc-400 cursor-not-allowed'}`}
+                >
+                  {b.maxed ? 'Maxed' : `Buy ${b.n}x (${fmt(b.cost)} IQ)`}
+                </button>
               </div>
-            </div>
-            {/* removed cosmetics buttons */}
-          </div>
+            )
+          })}
+          {renderEffectRows()}
 
           {/* Debug Buttons */}
           <div className="border-t border-zinc-700/50 pt-4 mt-4">
@@ -711,13 +1305,13 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
 
               <div className="space-y-2">
                 <button
-                  onClick={() => api.debug?.addCores([1, 2, 3, 4, 5])}
+                  onClick={() => api.debug?.addCores(levels)}
                   className="w-full rounded-lg px-3 py-2 text-[13px] font-medium border border-purple-500/70 bg-purple-500/15 hover:bg-purple-500/25 text-purple-200 transition-colors"
                 >
-                  ⚡ Add All 5 Levels (L1-L5)
+                  ⚡ Add All {maxLevel} Levels (L1-L{maxLevel})
                 </button>
                 <div className="grid grid-cols-5 gap-1">
-                  {[1, 2, 3, 4, 5].map(level => (
+                  {levels.map(level => (
                     <button
                       key={level}
                       onClick={() => api.debug?.addCores([level])}
@@ -754,7 +1348,11 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
           </div>
           </div>
         </div>
+        {renderResearchSection()}
+        {renderAutobuyerSection()}
+        {renderRetrainSection()}
       </div>
+      )}
     </div>
   )
 
@@ -762,6 +1360,10 @@ export default function GalaxyUI({ state, api, onToggle, enabled = true, collaps
     <>
       {!collapsed && !sidebar && DropdownPanel}
       {sidebar && Sidebar}
+      {state.activeEvent && renderEventBanner(state.activeEvent)}
+      {confirmRetrain && renderRetrainDialog()}
+      {state.offlineReport && renderOfflineDialog(state.offlineReport)}
+      {!state.offlineReport && (state.pendingLineages ?? 0) > 0 && renderLineageDialog(state.pendingLineages!)}
       {tooltip.visible && (
         <div
           style={{ position: 'fixed', left: tooltip.x, top: tooltip.y, transform: 'translateX(-50%)', zIndex: 1000 }}
@@ -1,21 +1,92 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import type { SaveImportResult } from "../constants/saveDocument"
+import type { SlotInfo, SlotResult } from "../constants/saveSlots"
+import { MAIN_SLOT, MAX_SLOTS, MAX_SLOT_NAME } from "../constants/saveSlots"
+import { format } from "../constants/bigNumber"
+
+// Named save slots, straight from the game API
+export type SaveSlotActions = {
+  list: () => SlotInfo[]
+  create: (name: string) => SlotResult
+  duplicate: (id: string, name: string) => SlotResult
+  rename: (id: string, name: string) => SlotResult
+  remove: (id: string) => SlotResult
+  switchTo: (id: string) => SlotResult
+}
 
 export type SaveManagerProps = {
   onExport: () => string | null
-  onImport: (saveData: string) => boolean
+  onExportCode: () => string | null
+  onImport: (saveData: string) => SaveImportResult
   onClear: () => boolean
+  slots?: SaveSlotActions
 }
 
-export default function SaveManager({ onExport, onImport, onClear }: SaveManagerProps) {
+// "just now", "5m ago", "3h ago", "2d ago"
+function lastPlayedLabel(ms: number | null) {
+  if (ms == null) return "never played"
+  const s = Math.max(0, Math.floor((Date.now() - ms) / 1000))
+  if (s < 60) return "just now"
+  if (s < 3600) return `${Math.floor(s / 60)}m ago`
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`
+  return `${Math.floor(s / 86400)}d ago`
+}
+
+export default function SaveManager({ onExport, onExportCode, onImport, onClear, slots }: SaveManagerProps) {
   const [importText, setImportText] = useState("")
   const [showImport, setShowImport] = useState(false)
   const [showExport, setShowExport] = useState(false)
   const [exportData, setExportData] = useState("")
   const [message, setMessage] = useState("")
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [slotList, setSlotList] = useState<SlotInfo[]>([])
+  const [newSlotName, setNewSlotName] = useState("")
+
+  // The list carries live summaries (the game saves the active slot first), so re-read it after every change
+  const refreshSlots = () => setSlotList(slots ? slots.list() : [])
+  useEffect(refreshSlots, [slots])
+
+  const slotAction = (result: SlotResult, success: string) => {
+    setImportErrors([])
+    setMessage(result.ok ? success : result.error || "Something went wrong")
+    refreshSlots()
+    return result.ok
+  }
+
+  const handleCreateSlot = () => {
+    if (!slots) return
+    if (slotAction(slots.create(newSlotName), `Created slot "${newSlotName.trim()}"`)) setNewSlotName("")
+  }
+
+  const handleDuplicateSlot = (slot: SlotInfo) => {
+    if (!slots) return
+    const name = window.prompt("Name for the copy:", `${slot.name} copy`.slice(0, MAX_SLOT_NAME))
+    if (name == null) return
+    slotAction(slots.duplicate(slot.id, name), `Copied "${slot.name}" to "${name.trim()}"`)
+  }
+
+  const handleRenameSlot = (slot: SlotInfo) => {
+    if (!slots) return
+    const name = window.prompt("Rename slot:", slot.name)
+    if (name == null || name.trim() === slot.name) return
+    slotAction(slots.rename(slot.id, name), `Renamed to "${name.trim()}"`)
+  }
+
+  const handleDeleteSlot = (slot: SlotInfo) => {
+    if (!slots) return
+    if (!window.confirm(`Delete slot "${slot.name}" and its save? This cannot be undone!`)) return
+    slotAction(slots.remove(slot.id), `Deleted slot "${slot.name}"`)
+  }
+
+  const handleSwitchSlot = (slot: SlotInfo) => {
+    if (!slots) return
+    slotAction(slots.switchTo(slot.id), `Now playing "${slot.name}"`)
+  }
 
   const handleExport = () => {
+    setImportErrors([])
     const data = onExport()
     if (data) {
       setExportData(data)
@@ -26,39 +97,49 @@ export default function SaveManager({ onExport, onImport, onClear }: SaveManager
     }
   }
 
-  const handleImport = () => {
-    if (!importText.trim()) {
-      setMessage("Please enter save data")
+  // One click: build the compact code and put it on the clipboard (it also shows below for manual copying)
+  const handleCopyCode = async () => {
+    setImportErrors([])
+    const code = onExportCode()
+    if (!code) {
+      setMessage("Failed to create a save code")
       return
     }
-
-    const trimmedData = importText.trim()
-
-    // Check if the data looks like JSON
-    if (!trimmedData.startsWith('{') || !trimmedData.endsWith('}')) {
-      setMessage("Invalid format: Save data must be valid JSON starting with { and ending with }")
-      return
+    setExportData(code)
+    setShowExport(true)
+    try {
+      await navigator.clipboard.writeText(code)
+      setMessage("Save code copied to clipboard!")
+    } catch {
+      setMessage("Save code ready - copy it below")
     }
+  }
 
-    // Check for common non-JSON content
-    if (trimmedData.includes('##') || trimmedData.includes('Error') || trimmedData.includes('<!DOCTYPE')) {
-      setMessage("Invalid format: Please paste actual save data, not error messages or HTML")
+  const handleImport = () => {
+    if (!importText.trim()) {
+      setImportErrors([])
+      setMessage("Please paste a save code or save data")
       return
     }
 
-    const success = onImport(trimmedData)
-    if (success) {
+    // The game checks every field and applies the save in place; nothing changes if any check fails
+    const result = onImport(importText.trim())
+    setImportErrors(result.errors)
+    if (result.ok) {
+      refreshSlots()
       setMessage("Save imported successfully!")
       setImportText("")
       setShowImport(false)
     } else {
-      setMessage("Failed to import save data - check format and try again")
+      setMessage("Import failed - nothing was changed:")
     }
   }
 
   const handleClear = () => {
-    if (window.confirm("Are you sure you want to clear all save data? This cannot be undone!")) {
+    if (window.confirm(slots ? "Are you sure you want to clear the save data of the slot you are playing? This cannot be undone!" : "Are you sure you want to clear all save data? This cannot be undone!")) {
+      setImportErrors([])
       const success = onClear()
+      refreshSlots()
       if (success) {
         setMessage("Save data cleared successfully!")
       } else {
@@ -107,10 +188,90 @@ export default function SaveManager({ onExport, onImport, onClear }: SaveManager
       {message && (
         <div className="text-[10px] text-blue-200 bg-blue-500/10 border border-blue-500/30 rounded px-2 py-1">
           {message}
+          {importErrors.length > 0 && (
+            <ul className="mt-1 list-disc pl-4 text-red-200 max-h-24 overflow-y-auto">
+              {importErrors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {slots && (
+        <div className="space-y-2">
+          <div className="text-[11px] text-zinc-300 font-medium">Save Slots</div>
+          {slotList.map(slot => (
+            <div
+              key={slot.id}
+              className={`p-2 rounded border ${slot.active ? "bg-blue-500/10 border-blue-500/50" : "bg-zinc-800/30 border-zinc-700/50"}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[11px] text-zinc-200 font-medium truncate">{slot.name}</span>
+                {slot.active && <span className="text-[9px] uppercase tracking-wide text-blue-300">Playing</span>}
+              </div>
+              <div className="text-[10px] text-zinc-400">
+                {format(slot.tokens)} tokens · {slot.cores} {slot.cores === 1 ? "core" : "cores"}{slot.maxLevel > 0 ? ` (up to L${slot.maxLevel})` : ""} · {lastPlayedLabel(slot.lastPlayed)}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {!slot.active && (
+                  <button
+                    onClick={() => handleSwitchSlot(slot)}
+                    className="flex-1 px-1 py-0.5 text-[10px] bg-blue-500/15 border border-blue-500/50 text-blue-200 rounded hover:bg-blue-500/25 transition-colors"
+                  >
+                    Play
+                  </button>
+                )}
+                <button
+                  onClick={() => handleRenameSlot(slot)}
+                  className="flex-1 px-1 py-0.5 text-[10px] bg-zinc-700/30 border border-zinc-600/50 text-zinc-300 rounded hover:bg-zinc-600/30 transition-colors"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDuplicateSlot(slot)}
+                  disabled={slotList.length >= MAX_SLOTS}
+                  className="flex-1 px-1 py-0.5 text-[10px] bg-zinc-700/30 border border-zinc-600/50 text-zinc-300 rounded hover:bg-zinc-600/30 transition-colors disabled:opacity-40"
+                >
+                  Duplicate
+                </button>
+                {!slot.active && slot.id !== MAIN_SLOT && (
+                  <button
+                    onClick={() => handleDeleteSlot(slot)}
+                    className="flex-1 px-1 py-0.5 text-[10px] bg-red-500/15 border border-red-500/50 text-red-200 rounded hover:bg-red-500/25 transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              value={newSlotName}
+              onChange={(e) => setNewSlotName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") handleCreateSlot() }}
+              maxLength={MAX_SLOT_NAME}
+              placeholder="New slot name"
+              className="flex-1 min-w-0 px-2 py-1 text-[10px] bg-zinc-900/60 border border-zinc-700/50 rounded text-zinc-200"
+            />
+            <button
+              onClick={handleCreateSlot}
+              disabled={slotList.length >= MAX_SLOTS}
+              className="px-2 py-1 text-[10px] bg-green-500/15 border border-green-500/50 text-green-200 rounded hover:bg-green-500/25 transition-colors disabled:opacity-40"
+            >
+              New Slot
+            </button>
+          </div>
         </div>
       )}
 
       <div className="space-y-2">
+        <button
+          onClick={handleCopyCode}
+          className="w-full px-3 py-2 text-[11px] bg-purple-500/15 border border-purple-500/50 text-purple-200 rounded hover:bg-purple-500/25 transition-colors"
+        >
+          Copy Save Code
+        </button>
+
         <button
           onClick={handleExport}
           className="w-full px-3 py-2 text-[11px] bg-blue-500/15 border border-blue-500/50 text-blue-200 rounded hover:bg-blue-500/25 transition-colors"
@@ -172,7 +333,7 @@ export default function SaveManager({ onExport, onImport, onClear }: SaveManager
             value={importText}
             onChange={(e) => setImportText(e.target.value)}
             className="w-full h-20 p-2 text-[10px] bg-zinc-900/60 border border-zinc-700/50 rounded text-zinc-200 resize-none"
-            placeholder="Paste save data here..."
+            placeholder="Paste a save code (GX1.…) or save data here..."
           />
           <div className="flex gap-2">
             <label className="flex-1 px-2 py-1 text-[10px] bg-purple-500/15 border border-purple-500/50 text-purple-200 rounded hover:bg-purple-500/25 transition-colors cursor-pointer text-center">
@@ -3,6 +3,12 @@
 import { useState, useRef, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import SaveManager from "./SaveManager"
+import type { SaveSlotActions } from "./SaveManager"
+import { NOTATIONS } from "../constants/bigNumber"
+import type { Notation } from "../constants/bigNumber"
+import { PACING_PRESETS, PACING_KEYS, PACING_LIMITS, getPreset, defaultPacing } from "../constants/pacing"
+import type { PacingSave, PacingValues } from "../constants/pacing"
+import type { SaveImportResult } from "../constants/saveDocument"
 
 export type SettingsDropdownProps = {
   bgEffectsOn: boolean
@@ -13,6 +19,11 @@ export type SettingsDropdownProps = {
   onGalaxyToggle: () => void
   dragAndDropEnabled?: boolean
   onDragAndDropToggle?: () => void
+  notation?: Notation
+  onNotationChange?: (notation: Notation) => void
+  pacing?: PacingSave
+  onPacingPresetChange?: (preset: PacingSave['preset']) => void
+  onCustomPacingChange?: (patch: Partial<PacingValues>) => void
   targetFps?: number
   onTargetFpsChange?: (fps: number) => void
   qualityMode?: 'low' | 'high' | 'extreme'
@@ -20,8 +31,10 @@ export type SettingsDropdownProps = {
   showFpsCounter?: boolean
   onFpsCounterToggle?: () => void
   onExportSave?: () => string | null
-  onImportSave?: (saveData: string) => boolean
+  onExportSaveCode?: () => string | null
+  onImportSave?: (saveData: string) => SaveImportResult
   onClearSave?: () => boolean
+  saveSlots?: SaveSlotActions
 }
 
 export default function SettingsDropdown({
@@ -33,6 +46,11 @@ export default function SettingsDropdown({
   onGalaxyToggle,
   dragAndDropEnabled = true,
   onDragAndDropToggle,
+  notation = 'suffix',
+  onNotationChange,
+  pacing = defaultPacing(),
+  onPacingPresetChange,
+  onCustomPacingChange,
   targetFps = 30,
   onTargetFpsChange,
   qualityMode = 'high',
@@ -40,8 +58,10 @@ export default function SettingsDropdown({
   showFpsCounter = false,
   onFpsCounterToggle,
   onExportSave,
+  onExportSaveCode,
   onImportSave,
   onClearSave,
+  saveSlots,
 }: SettingsDropdownProps) {
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -218,6 +238,67 @@ export default function SettingsDropdown({
                       {dragAndDropEnabled ? 'On' : 'Off'}
                     </button>
                   </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-xs text-zinc-300">Number Format</span>
+                      <div className="text-[10px] text-zinc-500">{NOTATIONS.find(n => n.id === notation)?.example}</div>
+                    </div>
+                    <select
+                      value={notation}
+                      onChange={(e) => onNotationChange?.(e.target.value as Notation)}
+                      className="px-2 py-1 text-[10px] rounded bg-zinc-800/60 border border-zinc-700/70 text-zinc-200 hover:bg-zinc-700/60 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {NOTATIONS.map(n => (
+                        <option key={n.id} value={n.id}>{n.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-xs text-zinc-300">Pacing</span>
+                      <div className="text-[10px] text-zinc-500">
+                        {pacing.preset === 'custom' ? 'Your own tempo' : getPreset(pacing.preset)?.description}
+                      </div>
+                    </div>
+                    <select
+                      value={pacing.preset}
+                      onChange={(e) => onPacingPresetChange?.(e.target.value as PacingSave['preset'])}
+                      className="px-2 py-1 text-[10px] rounded bg-zinc-800/60 border border-zinc-700/70 text-zinc-200 hover:bg-zinc-700/60 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {PACING_PRESETS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                      ))}
+                      <option value="custom">Custom</option>
+                    </select>
+                  </div>
+
+                  {/* Custom pacing editor */}
+                  {pacing.preset === 'custom' && (
+                    <div className="space-y-1.5 rounded border border-zinc-700/50 bg-zinc-800/30 p-2">
+                      {PACING_KEYS.map(key => {
+                        const lim = PACING_LIMITS[key]
+                        return (
+                          <label key={key} className="block">
+                            <div className="flex items-center justify-between text-[10px]">
+                              <span className="text-zinc-400">{lim.label}</span>
+                              <span className="text-zinc-200 tabular-nums">{lim.unit === 's' ? `${pacing.custom[key]}s` : `×${pacing.custom[key]}`}</span>
+                            </div>
+                            <input
+                              type="range"
+                              min={lim.min}
+                              max={lim.max}
+                              step={lim.step}
+                              value={pacing.custom[key]}
+                              onChange={(e) => onCustomPacingChange?.({ [key]: Number(e.target.value) })}
+                              className="w-full accent-blue-500"
+                            />
+                          </label>
+                        )
+                      })}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -225,8 +306,10 @@ export default function SettingsDropdown({
               <div className="border-t border-zinc-700/50 pt-3">
                 <SaveManager
                   onExport={onExportSave || (() => null)}
-                  onImport={onImportSave || (() => false)}
+                  onExportCode={onExportSaveCode || (() => null)}
+                  onImport={onImportSave || (() => ({ ok: false, errors: [] }))}
                   onClear={onClearSave || (() => false)}
+                  slots={saveSlots}
                 />
               </div>
             </div>
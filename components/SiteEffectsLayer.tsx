@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Site-wide effects unlocked with IQ, driven by `galaxy-effect` events ({ name: 'confetti' | 'palette' }).
+// Confetti draws on its own canvas from a fixed particle pool; the palette shift hue-rotates every
+// element tagged `fx-palette` (starfield, galaxy, HUD) through the --fx-hue variable on <html>.
+
+type Particle = {
+  active: boolean
+  x: number
+  y: number
+  vx: number
+  vy: number
+  rot: number
+  vr: number
+  w: number
+  h: number
+  color: string
+  t: number
+  life: number
+}
+
+const POOL_SIZE = 240
+const BURST = 140
+const GRAVITY = 900 // px/s²
+const CONFETTI_COLORS = ["#3b82f6", "#6366f1", "#a855f7", "#f472b6", "#fbbf24", "#34d399", "#60a5fa"]
+const PALETTE_SECONDS = 8
+
+export type SiteEffectsLayerProps = {
+  getTargetFps?: () => number
+}
+
+export default function SiteEffectsLayer({ getTargetFps }: SiteEffectsLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const poolRef = useRef<Particle[]>([])
+  const rafRef = useRef<number>(0)
+  const paletteRafRef = useRef<number>(0)
+  const paletteTimerRef = useRef<number>(0)
+  const reducedRef = useRef<boolean>(false)
+  const fpsFnRef = useRef<() => number>(() => 30)
+
+  useEffect(() => { fpsFnRef.current = getTargetFps || (() => 30) }, [getTargetFps])
+
+  // Track prefers-reduced-motion live
+  useEffect(() => {
+    if (typeof window === "undefined" || !window.matchMedia) return
+    const mq = window.matchMedia("(prefers-reduced-motion: reduce)")
+    reducedRef.current = mq.matches
+    const onChange = () => { reducedRef.current = mq.matches }
+    try { mq.addEventListener("change", onChange) } catch { try { mq.addListener(onChange) } catch {} }
+    return () => {
+      try { mq.removeEventListener("change", onChange) } catch { try { mq.removeListener(onChange) } catch {} }
+    }
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    poolRef.current = Array.from({ length: POOL_SIZE }, () => ({ active: false, x: 0, y: 0, vx: 0, vy: 0, rot: 0, vr: 0, w: 0, h: 0, color: CONFETTI_COLORS[0], t: 0, life: 0 }))
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = Math.floor(window.innerWidth * dpr)
+      canvas.height = Math.floor(window.innerHeight * dpr)
+      const ctx = canvas.getContext("2d", { alpha: true })
+      if (ctx) ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    }
+    resize()
+    window.addEventListener("resize", resize)
+
+    // Runs only while particles are alive; stops itself once the pool is idle
+    let last = 0
+    const frame = (now: number) => {
+      const ctx = canvas.getContext("2d", { alpha: true })
+      if (!ctx) return
+      const budget = 1000 / Math.max(1, fpsFnRef.current())
+      if (last && now - last < budget) {
+        rafRef.current = requestAnimationFrame(frame)
+        return
+      }
+      const dt = last ? Math.min(0.05, (now - last) / 1000) : 1 / 60
+      last = now
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+      let alive = 0
+      for (const p of poolRef.current) {
+        if (!p.active) continue
+        p.t += dt
+        if (p.t >= p.life || p.y > window.innerHeight + 40) {
+          p.active = false
+          continue
+        }
+        alive++
+        p.vy += GRAVITY * dt
+        p.vx *= 1 - 1.5 * dt
+        p.x += p.vx * dt
+        p.y += p.vy * dt
+        p.rot += p.vr * dt
+        ctx.save()
+        ctx.globalAlpha = Math.max(0, 1 - Math.pow(p.t / p.life, 3))
+        ctx.translate(p.x, p.y)
+        ctx.rotate(p.rot)
+        ctx.fillStyle = p.color
+        // Squash width with rotation for a cheap paper-flip look
+        ctx.fillRect(-p.w / 2, -p.h / 2, p.w * Math.abs(Math.cos(p.rot * 1.7)) + 1, p.h)
+        ctx.restore()
+      }
+      if (alive > 0) {
+        rafRef.current = requestAnimationFrame(frame)
+      } else {
+        ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+        rafRef.current = 0
+        last = 0
+      }
+    }
+
+    const burst = (x: number, y: number) => {
+      let spawned = 0
+      for (const p of poolRef.current) {
+        if (spawned >= BURST) break
+        if (p.active) continue
+        const angle = -Math.PI / 2 + (Math.random() - 0.5) * Math.PI * 0.9
+        const speed = 350 + Math.random() * 550
+        p.active = true
+        p.x = x
+        p.y = y
+        p.vx = Math.cos(angle) * speed
+        p.vy = Math.sin(angle) * speed
+        p.rot = Math.random() * Math.PI * 2
+        p.vr = (Math.random() - 0.5) * 12
+        p.w = 6 + Math.random() * 5
+        p.h = 8 + Math.random() * 6
+        p.color = CONFETTI_COLORS[(Math.random() * CONFETTI_COLORS.length) | 0]
+        p.t = 0
+        p.life = 2.2 + Math.random() * 1.2
+        spawned++
+      }
+      if (spawned > 0 && !rafRef.current) rafRef.current = requestAnimationFrame(frame)
+    }
+
+    // Hue sweeps once around the wheel; with reduced motion it holds a fixed shift instead
+    const palette = () => {
+      const root = document.documentElement
+      cancelAnimationFrame(paletteRafRef.current)
+      window.clearTimeout(paletteTimerRef.current)
+      root.setAttribute("data-palette-shift", "")
+      if (reducedRef.current) {
+        root.style.setProperty("--fx-hue", "140deg")
+        paletteRafRef.current = 0
+        paletteTimerRef.current = window.setTimeout(() => {
+          root.removeAttribute("data-palette-shift")
+          root.style.removeProperty("--fx-hue")
+        }, PALETTE_SECONDS * 1000)
+        return
+      }
+      const start = performance.now()
+      const step = (now: number) => {
+        const k = Math.min(1, (now - start) / (PALETTE_SECONDS * 1000))
+        // Ease in and out so the sweep starts and lands on the normal colors
+        const eased = 0.5 - 0.5 * Math.cos(Math.PI * k)
+        root.style.setProperty("--fx-hue", `${Math.round(eased * 360)}deg`)
+        if (k < 1) {
+          paletteRafRef.current = requestAnimationFrame(step)
+        } else {
+          root.removeAttribute("data-palette-shift")
+          root.style.removeProperty("--fx-hue")
+          paletteRafRef.current = 0
+        }
+      }
+      paletteRafRef.current = requestAnimationFrame(step)
+    }
+
+    const onEffect = (e: any) => {
+      const name = e?.detail?.name
+      if (name === "confetti") {
+        // Reduced motion: no particles at all
+        if (reducedRef.current) return
+        const x = typeof e.detail.x === "number" ? e.detail.x : window.innerWidth / 2
+        const y = typeof e.detail.y === "number" ? e.detail.y : window.innerHeight * 0.6
+        burst(x, y)
+      } else if (name === "palette") {
+        palette()
+      }
+    }
+    window.addEventListener("galaxy-effect" as any, onEffect as any)
+    return () => {
+      window.removeEventListener("galaxy-effect" as any, onEffect as any)
+      window.removeEventListener("resize", resize)
+      cancelAnimationFrame(rafRef.current)
+      cancelAnimationFrame(paletteRafRef.current)
+      window.clearTimeout(paletteTimerRef.current)
+      rafRef.current = 0
+      document.documentElement.removeAttribute("data-palette-shift")
+      document.documentElement.style.removeProperty("--fx-hue")
+    }
+  }, [])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none fixed inset-0 h-full w-full"
+      style={{ zIndex: 60 }}
+      aria-hidden
+    />
+  )
+}
@@ -206,7 +206,7 @@ export default function StarfieldCanvas({ enabled, parallaxY, getTargetFps, lowQ
   return (
     <canvas
       ref={canvasRef}
-      className="pointer-events-none fixed inset-0"
+      className="fx-palette pointer-events-none fixed inset-0"
       style={{ zIndex: 1 }}
     />
   )
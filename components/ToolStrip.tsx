@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { GalaxyState } from "../hooks/useClusteringGalaxy"
+import { TOOLS, cooldownLeft } from "../constants/captureTools"
+import type { ToolId } from "../constants/captureTools"
+
+export type ToolStripProps = {
+  tools?: GalaxyState['tools']
+  onSelect: (id: ToolId | null) => void
+  className?: string
+}
+
+/**
+ * Capture tool buttons over the galaxy canvas. Selecting a tool changes what the next press on the
+ * canvas does; a used tool shows its cooldown until it is ready again.
+ */
+export default function ToolStrip({ tools, onSelect, className }: ToolStripProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const readyAt = tools?.readyAt
+  const waiting = !!readyAt && TOOLS.some(t => cooldownLeft(readyAt[t.id], now) > 0)
+
+  // Tick only while a cooldown is counting down
+  useEffect(() => {
+    if (!waiting) return
+    const id = window.setInterval(() => setNow(Date.now()), 500)
+    return () => window.clearInterval(id)
+  }, [waiting])
+
+  // A new cooldown starts from a fresh clock
+  useEffect(() => { setNow(Date.now()) }, [readyAt])
+
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`} role="toolbar" aria-label="Capture tools">
+      {TOOLS.map(t => {
+        const left = readyAt ? cooldownLeft(readyAt[t.id], now) : 0
+        const active = tools?.active === t.id
+        const running = t.id === 'gravityWell' && tools?.wellEndsAt != null && tools.wellEndsAt > now
+        return (
+          <button
+            key={t.id}
+            onClick={() => onSelect(active ? null : t.id)}
+            disabled={left > 0}
+            title={`${t.label}: ${t.description} (${t.cooldown}s cooldown)`}
+            aria-pressed={active}
+            className={`relative inline-flex items-center gap-1.5 rounded-lg px-3 py-2 text-[12px] font-semibold backdrop-blur transition-all ${
+              active
+                ? 'border border-sky-400/80 bg-sky-500/25 text-sky-100 shadow-[0_0_14px_rgba(56,189,248,0.35)]'
+                : left > 0
+                  ? 'border border-zinc-700/70 bg-zinc-900/70 text-zinc-500 cursor-not-allowed'
+                  : 'border border-zinc-600/70 bg-zinc-900/70 text-zinc-200 hover:border-sky-500/60 hover:text-sky-200'
+            }`}
+          >
+            <span aria-hidden>{t.icon}</span>
+            <span>{t.label}</span>
+            {left > 0 && <span className="text-[11px] font-medium text-zinc-400">{Math.ceil(left)}s</span>}
+            {running && <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-sky-400 animate-pulse" />}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
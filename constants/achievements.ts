@@ -0,0 +1,42 @@
+import achievementsJs from '../hooks/achievements.js'
+import { typedModule } from './plainJs'
+
+export type AchievementCounter =
+  | 'clickCaptures' | 'dragCaptures' | 'rareCatches' | 'epicCatches'
+  | 'merges' | 'lineageSplits' | 'eventsSeen' | 'spritesUnlocked' | 'bestCombo'
+export type AchievementMetric = AchievementCounter | 'totalCollected' | 'highestLevel' | 'totalCores' | 'coresL5' | 'retrains'
+export type AchievementMetrics = Record<AchievementMetric, number>
+
+export type AchievementDef = {
+  id: string
+  group: 'Collection' | 'Cores' | 'Catches' | 'Progression' | 'Cosmetics'
+  label: string
+  description: string
+  metric: AchievementMetric
+  target: number
+  bonus?: { kind: 'click' | 'passive'; pct: number }
+  effect?: string
+}
+
+export type AchievementSave = { unlocked: string[]; counters: Record<AchievementCounter, number> }
+export type AchievementProgress = { value: number; target: number; done: boolean; ratio: number }
+
+const lib = typedModule<{
+  ACHIEVEMENTS: AchievementDef[]
+  COUNTERS: AchievementCounter[]
+  getAchievement: (id: string) => AchievementDef | undefined
+  achievementProgress: (def: AchievementDef, metrics: Partial<AchievementMetrics>) => AchievementProgress
+  newlyUnlocked: (unlocked: string[], metrics: Partial<AchievementMetrics>) => AchievementDef[]
+  achievementBonus: (unlocked: string[], kind: 'click' | 'passive') => number
+  sanitizeAchievements: (raw: unknown) => AchievementSave
+}>(achievementsJs)
+
+export const ACHIEVEMENTS: readonly AchievementDef[] = lib.ACHIEVEMENTS
+export const COUNTERS: readonly AchievementCounter[] = lib.COUNTERS
+export const {
+  getAchievement,
+  achievementProgress,
+  newlyUnlocked,
+  achievementBonus,
+  sanitizeAchievements,
+} = lib
@@ -0,0 +1,37 @@
+import autobuyerJs from '../hooks/autobuyer.js'
+import { typedModule } from './plainJs'
+import type { TokenUpgradeId } from './upgrades'
+import type { PacingValues } from './pacing'
+
+export type AutobuyRule = {
+  id: TokenUpgradeId
+  enabled: boolean
+  maxCostPct: number // buy while the next level costs at most this % of tokens on hand
+  maxLevel: number | null // stop at this level; null for no limit
+}
+
+export type AutobuyerSave = { enabled: boolean; rules: AutobuyRule[] }
+export type AutobuyPurchase = { id: TokenUpgradeId; level: number; cost: number }
+export type AutobuyLogEntry = { id: TokenUpgradeId; level: number; count: number; cost: number; at: number }
+
+const lib = typedModule<{
+  AUTOBUY_TARGETS: TokenUpgradeId[]
+  AUTOBUY_INTERVAL: number
+  MAX_BUYS_PER_TICK: number
+  defaultAutobuyer: () => AutobuyerSave
+  sanitizeAutobuyer: (raw: unknown) => AutobuyerSave
+  ruleAllows: (rule: AutobuyRule, level: number, tokens: number, pace?: PacingValues) => boolean
+  planPurchases: (rules: AutobuyRule[], levels: Partial<Record<TokenUpgradeId, number>>, tokens: number, pace?: PacingValues, maxBuys?: number) => AutobuyPurchase[]
+  pushLog: (log: AutobuyLogEntry[], buys: AutobuyPurchase[], at: number) => AutobuyLogEntry[]
+}>(autobuyerJs)
+
+export const AUTOBUY_TARGETS: readonly TokenUpgradeId[] = lib.AUTOBUY_TARGETS
+export const AUTOBUY_INTERVAL = lib.AUTOBUY_INTERVAL
+export const MAX_BUYS_PER_TICK = lib.MAX_BUYS_PER_TICK
+export const {
+  defaultAutobuyer,
+  sanitizeAutobuyer,
+  ruleAllows,
+  planPurchases,
+  pushLog,
+} = lib
@@ -0,0 +1,57 @@
+import bigNumberJs from '../hooks/bigNumber.js'
+import { typedModule } from './plainJs'
+
+export type Big = { readonly m: number; readonly e: number }
+export type BigLike = Big | number | string
+
+export type Notation = 'suffix' | 'scientific' | 'engineering'
+
+export const NOTATIONS: { id: Notation; label: string; example: string }[] = [
+  { id: 'suffix', label: 'Suffix', example: '1.23M' },
+  { id: 'scientific', label: 'Scientific', example: '1.23e6' },
+  { id: 'engineering', label: 'Engineering', example: '12.3e6' },
+]
+
+export function isNotation(v: unknown): v is Notation {
+  return NOTATIONS.some(n => n.id === v)
+}
+
+const lib = typedModule<{
+  ZERO: Big
+  fromNumber: (n: number) => Big
+  isBig: (v: unknown) => v is Big
+  big: (v: BigLike) => Big
+  toNumber: (v: BigLike) => number
+  toFiniteNumber: (v: BigLike) => number
+  add: (a: BigLike, b: BigLike) => Big
+  sub: (a: BigLike, b: BigLike) => Big
+  mul: (a: BigLike, b: BigLike) => Big
+  div: (a: BigLike, b: BigLike) => Big
+  cmp: (a: BigLike, b: BigLike) => -1 | 0 | 1
+  gte: (a: BigLike, b: BigLike) => boolean
+  max: (a: BigLike, b: BigLike) => Big
+  floor: (v: BigLike) => Big
+  serialize: (v: BigLike) => string
+  parse: (s: string | null | undefined, fallback?: Big) => Big
+  format: (v: BigLike, notation?: Notation, decimals?: number) => string
+}>(bigNumberJs)
+
+export const ZERO = lib.ZERO
+export const {
+  fromNumber,
+  isBig,
+  big,
+  toNumber,
+  toFiniteNumber,
+  add,
+  sub,
+  mul,
+  div,
+  cmp,
+  gte,
+  max,
+  floor,
+  serialize,
+  parse,
+  format,
+} = lib
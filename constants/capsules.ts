@@ -0,0 +1,57 @@
+import capsulesJs from '../hooks/capsules.js'
+import { typedModule } from './plainJs'
+import type { BuffId } from './dropTables'
+
+export type CapsuleRarityId = 'common' | 'rare' | 'epic' | 'legendary'
+export type CapsuleEffect = 'confetti' | 'palette'
+export type CapsuleRewardKind = 'tokens' | 'iq' | 'buff' | 'color' | 'effect' | 'sprite'
+
+export type CapsuleRarity = {
+  id: CapsuleRarityId
+  label: string
+  weight: number // spawn weight
+  clicks: number // clicks to crack it open
+  color: string // body and glow tint
+  scale: number // size relative to a rare capsule
+  tokenSeconds: number
+  tokenMin: number
+  iq: number
+  buff: { mult: number; seconds: number }
+  rewards: Record<CapsuleRewardKind, number> // reward kind weights
+}
+
+export type CapsuleColor = { id: string; label: string; hex: string }
+
+export type CapsuleReward =
+  | { kind: 'tokens'; seconds: number; min: number }
+  | { kind: 'iq'; amount: number }
+  | { kind: 'buff'; buff: BuffId; mult: number; seconds: number }
+  | { kind: 'color'; color: string }
+  | { kind: 'effect'; effect: CapsuleEffect }
+  | { kind: 'sprite'; sprite: string }
+
+export type CapsuleLocked = { sprites: string[]; colors: string[]; effects: CapsuleEffect[] }
+
+const lib = typedModule<{
+  RARITIES: CapsuleRarity[]
+  CAPSULE_COLORS: CapsuleColor[]
+  CAPSULE_EFFECTS: CapsuleEffect[]
+  CAPSULE_SPAWN_SECONDS: number
+  getRarity: (id: CapsuleRarityId) => CapsuleRarity | undefined
+  getCapsuleColor: (id: string) => CapsuleColor | undefined
+  rollRarity: (rng?: () => number) => CapsuleRarity
+  rollReward: (rarity: CapsuleRarityId, locked: CapsuleLocked, rng?: () => number) => CapsuleReward
+  capsuleTokens: (reward: { seconds: number; min: number }, tokensPerSec: number) => number
+}>(capsulesJs)
+
+export const RARITIES: readonly CapsuleRarity[] = lib.RARITIES
+export const CAPSULE_COLORS: readonly CapsuleColor[] = lib.CAPSULE_COLORS
+export const CAPSULE_EFFECTS: readonly CapsuleEffect[] = lib.CAPSULE_EFFECTS
+export const CAPSULE_SPAWN_SECONDS = lib.CAPSULE_SPAWN_SECONDS
+export const {
+  getRarity,
+  getCapsuleColor,
+  rollRarity,
+  rollReward,
+  capsuleTokens,
+} = lib
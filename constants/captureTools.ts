@@ -0,0 +1,44 @@
+import captureToolsJs from '../hooks/captureTools.js'
+import { typedModule } from './plainJs'
+
+export type ToolId = 'lasso' | 'gravityWell'
+
+export type ToolDef = {
+  id: ToolId
+  label: string
+  icon: string
+  cooldown: number // seconds, starts when the tool is used
+  seconds?: number // how long a lasting tool runs
+  description: string
+}
+
+export type ToolCooldowns = Record<ToolId, number> // epoch ms each tool is ready again
+export type PathPoint = { x: number; y: number }
+
+const lib = typedModule<{
+  TOOLS: ToolDef[]
+  LASSO_MIN_POINTS: number
+  LASSO_MAX_POINTS: number
+  WELL_CAPTURE_RADIUS: number
+  getTool: (id: ToolId) => ToolDef | undefined
+  isToolId: (v: unknown) => v is ToolId
+  emptyCooldowns: () => ToolCooldowns
+  cooldownLeft: (readyAt: number, now: number) => number
+  startCooldown: (cooldowns: ToolCooldowns, id: ToolId, now: number) => ToolCooldowns
+  pointInPath: (x: number, y: number, path: PathPoint[]) => boolean
+  wellVelocity: (vx: number, vy: number, dx: number, dy: number, dt: number) => { vx: number; vy: number }
+}>(captureToolsJs)
+
+export const TOOLS: readonly ToolDef[] = lib.TOOLS
+export const LASSO_MIN_POINTS = lib.LASSO_MIN_POINTS
+export const LASSO_MAX_POINTS = lib.LASSO_MAX_POINTS
+export const WELL_CAPTURE_RADIUS = lib.WELL_CAPTURE_RADIUS
+export const {
+  getTool,
+  isToolId,
+  emptyCooldowns,
+  cooldownLeft,
+  startCooldown,
+  pointInPath,
+  wellVelocity,
+} = lib
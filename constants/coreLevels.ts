@@ -0,0 +1,35 @@
+import coreLevelsJs from '../hooks/coreLevels.js'
+import { typedModule } from './plainJs'
+
+export type CoreLevel = {
+  level: number
+  rate: number // passive tokens/s per core
+  colorIndex: number // slot in the renderer's color table
+  color: string // default core color
+  stack: number // visible cores before stacking (low quality)
+  stackHigh: number // visible cores before stacking (high quality)
+  orbit: number // orbit radius of captured data (virtual units)
+  span: number // random spread added to orbit
+}
+
+const lib = typedModule<{
+  CORE_LEVELS: CoreLevel[]
+  BASE_MAX_LEVEL: number
+  LEVEL_CAP: number
+  maxCoreLevel: (extraLevels: number | undefined) => number
+  clampLevel: (level: unknown, max?: number) => number
+  levelRow: (level: number) => CoreLevel
+  levelForColorIndex: (idx: number) => number
+  padLevels: <T>(list: T[] | undefined | null, count: number, fill: (level: number) => T) => T[]
+}>(coreLevelsJs)
+
+export const CORE_LEVELS: readonly CoreLevel[] = lib.CORE_LEVELS
+export const BASE_MAX_LEVEL = lib.BASE_MAX_LEVEL
+export const LEVEL_CAP = lib.LEVEL_CAP
+export const {
+  maxCoreLevel,
+  clampLevel,
+  levelRow,
+  levelForColorIndex,
+  padLevels,
+} = lib
@@ -0,0 +1,49 @@
+import cosmeticShopJs from '../hooks/cosmeticShop.js'
+import { typedModule } from './plainJs'
+import { ALL_SPRITES } from './sprites'
+import type { CapsuleRarityId } from './capsules'
+
+export type ShopEffectId = 'customShift' | 'rgbNeon'
+export type ShopItemKind = 'sprite' | 'effect' | 'ambientSlot'
+export type ShopCurrency = 'tokens' | 'iq'
+
+export type ShopItem = {
+  id: string // `${kind prefix}:${target}`, e.g. 'sprite:rocket'
+  kind: ShopItemKind
+  target: string // sprite id, effect id, or slot number
+  label: string
+  rarity: CapsuleRarityId
+}
+
+export type ShopPrice = { currency: ShopCurrency; amount: number }
+export type ShopOwned = { sprites: string[]; effects: ShopEffectId[]; ambientSlots: number }
+
+const lib = typedModule<{
+  PRICES: Record<CapsuleRarityId, ShopPrice>
+  SHOP_EFFECTS: { id: ShopEffectId; label: string; rarity: CapsuleRarityId }[]
+  BASE_AMBIENT_SLOTS: number
+  MAX_AMBIENT_SLOTS: number
+  buildShop: (sprites: { id: string; name: string }[]) => ShopItem[]
+  itemPrice: (item: ShopItem) => ShopPrice
+  isOwned: (item: ShopItem, owned: ShopOwned) => boolean
+  purchaseBlocker: (item: ShopItem, owned: ShopOwned) => string | null
+  ownedEffects: (cos: unknown) => ShopEffectId[]
+  ambientSlots: (cos: unknown) => number
+}>(cosmeticShopJs)
+
+export const PRICES: Readonly<Record<CapsuleRarityId, ShopPrice>> = lib.PRICES
+export const SHOP_EFFECTS = lib.SHOP_EFFECTS as readonly { id: ShopEffectId; label: string; rarity: CapsuleRarityId }[]
+export const BASE_AMBIENT_SLOTS = lib.BASE_AMBIENT_SLOTS
+export const MAX_AMBIENT_SLOTS = lib.MAX_AMBIENT_SLOTS
+export const SHOP_ITEMS: readonly ShopItem[] = lib.buildShop(ALL_SPRITES)
+export const {
+  itemPrice,
+  isOwned,
+  purchaseBlocker,
+  ownedEffects,
+  ambientSlots,
+} = lib
+
+export function getShopItem(id: string): ShopItem | undefined {
+  return SHOP_ITEMS.find(i => i.id === id)
+}
@@ -0,0 +1,42 @@
+import dropTablesJs from '../hooks/dropTables.js'
+import { typedModule } from './plainJs'
+
+export type OutlierTier = 1 | 2 | 3 | 4 | 5
+export type BuffId = 'overclock' | 'dataSurge'
+
+export type BuffDef = { id: BuffId; label: string; target: 'click' | 'passive'; description: string }
+
+export type DropEntry =
+  | { kind: 'tokens'; chance: number; mult: number }
+  | { kind: 'iq'; chance: number; amount: number }
+  | { kind: 'buff'; chance: number; buff: BuffId; mult: number; seconds: number }
+  | { kind: 'cosmeticToken'; chance: number; amount: number }
+
+export type DropTable = { tier: OutlierTier; name: string; color: string; shards: number; entries: DropEntry[] }
+
+export type DropResult = {
+  tier: OutlierTier
+  shards: number
+  tokenMult: number
+  iq: number
+  buffs: { id: BuffId; mult: number; seconds: number }[]
+  cosmeticTokens: number
+}
+
+export type ActiveBuff = { mult: number; endsAt: number }
+
+const lib = typedModule<{
+  BUFFS: Record<BuffId, BuffDef>
+  DROP_TABLES: Record<OutlierTier, DropTable>
+  dropTable: (tier: number) => DropTable
+  rollDrops: (tier: number, rng?: () => number) => DropResult
+  mergeBuff: (active: ActiveBuff | undefined, mult: number, endsAt: number) => ActiveBuff
+}>(dropTablesJs)
+
+export const BUFFS: Readonly<Record<BuffId, BuffDef>> = lib.BUFFS
+export const DROP_TABLES: Readonly<Record<OutlierTier, DropTable>> = lib.DROP_TABLES
+export const {
+  dropTable,
+  rollDrops,
+  mergeBuff,
+} = lib
@@ -0,0 +1,48 @@
+import galaxyEventsJs from '../hooks/galaxyEvents.js'
+import { typedModule } from './plainJs'
+
+export type GalaxyEventId = 'dataStorm' | 'gradientExplosion' | 'vanishingGradient'
+
+export type EventMods = {
+  bronzeSpawnMult: number // multiplies Bronze spawn quantity
+  outlierCap: number // max outliers on screen before Bronze spawns pause
+  levelRateMult: number // multiplies LEVEL_RATE passive income
+  captureSpeedMult: number // scales how fast captured data travels into cores
+}
+
+export type GalaxyEventDef = {
+  id: GalaxyEventId
+  label: string
+  description: string
+  seconds: number
+  cooldownSeconds: number
+  weight: number
+  mods: Partial<EventMods>
+}
+
+export type ActiveEvent = { id: GalaxyEventId; endsAt: number }
+export type EventSchedule = { nextAt: number; active: ActiveEvent | null; cooldowns: Partial<Record<GalaxyEventId, number>> }
+
+const lib = typedModule<{
+  EVENTS: GalaxyEventDef[]
+  DEFAULT_MODS: EventMods
+  getEvent: (id: GalaxyEventId) => GalaxyEventDef | undefined
+  isEventId: (v: unknown) => v is GalaxyEventId
+  eventMods: (activeId: GalaxyEventId | undefined) => EventMods
+  pickEvent: (cooldowns: EventSchedule['cooldowns'], now: number, rng?: () => number) => GalaxyEventDef | undefined
+  initialSchedule: (now: number) => EventSchedule
+  sanitizeSchedule: (raw: unknown, now: number) => EventSchedule
+  stepSchedule: (schedule: EventSchedule, now: number, rng?: () => number) => { schedule: EventSchedule; started: GalaxyEventId | null; ended: GalaxyEventId | null }
+}>(galaxyEventsJs)
+
+export const EVENTS: readonly GalaxyEventDef[] = lib.EVENTS
+export const DEFAULT_MODS = lib.DEFAULT_MODS
+export const {
+  getEvent,
+  isEventId,
+  eventMods,
+  pickEvent,
+  initialSchedule,
+  sanitizeSchedule,
+  stepSchedule,
+} = lib
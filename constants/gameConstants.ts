@@ -1,5 +1,7 @@
 // Game constants shared between the galaxy hook and the experimental engine
 
+import { CORE_LEVELS, BASE_MAX_LEVEL, LEVEL_CAP } from './coreLevels'
+
 export const GAME_CONFIG = {
   // Economy
   PASSIVE_BASE: 1,
@@ -23,7 +25,9 @@ export const GAME_CONFIG = {
   DRIFT_SPEED: 0.5,
   CLICK_RADIUS: 48,
   CAPTURE_TIME: 0.3,
-  MAX_LEVEL: 5,
+  // Top core level before Deep Layers raises it (per-level rows live in constants/coreLevels.ts)
+  MAX_LEVEL: BASE_MAX_LEVEL,
+  LEVEL_CAP,
   WRAP_MARGIN: 50,
   WRAP_PAD: 8,
   SPAWN_MARGIN: 28,
@@ -34,16 +38,11 @@ export const GAME_CONFIG = {
   // For testing: effectively remove the global core cap
   MAX_CORES: Number.POSITIVE_INFINITY,
   // Per-level visible core thresholds before stacking begins
-  // L1..L5: 30, 32, 34, 36, 40
-  STACK_THRESHOLDS: [30, 32, 34, 36, 40],
+  STACK_THRESHOLDS: CORE_LEVELS.map(r => r.stack),
   // High-quality mode thresholds (more visible cores before stacking)
-  // L1..L5: all 500 to stress test
-  STACK_THRESHOLDS_HIGH: [500, 500, 500, 500, 500],
-  // Legacy fallbacks (kept for compatibility if code paths still read them)
-  STACK_THRESHOLD: 18,
-  L5_STACK_THRESHOLD: 33,
-  LEVEL_RATE: [1, 2, 4, 6, 8],
-  LEVEL_COLOR_INDEX: [5, 6, 7, 8, 9],
+  STACK_THRESHOLDS_HIGH: CORE_LEVELS.map(r => r.stackHigh),
+  LEVEL_RATE: CORE_LEVELS.map(r => r.rate),
+  LEVEL_COLOR_INDEX: CORE_LEVELS.map(r => r.colorIndex),
 
   // Rendering helpers
   DRAW_BUFFER_EXTRA: 64,
@@ -58,19 +57,7 @@ export const GAME_CONFIG = {
   OUTLIER_RESERVE: 120,
 } as const
 
-export const UPGRADE_CONFIG = {
-  // Regular upgrades
-  SPAWN_RATE: { base: 0.15, max: 20 },
-  SPAWN_QTY: { base: 0.1, max: 10 },
-  CLICK_YIELD: { base: 1, max: 5 },
-  BATCH_COLLECT: { base: 0.1, max: 10 },
-
-  // IQ upgrades
-  COMPUTE_MULT: { base: 2, max: 10 },
-  AUTO_COLLECT: { base: 2, max: 10 },
-  CONFETTI_COST: 1,
-  PALETTE_COST: 1,
-} as const
+// Upgrade definitions (costs, caps, effects) live in constants/upgrades.ts
 
 export const VISUAL_CONFIG = {
   AMBIENT_ALPHA: 0.4,
@@ -83,11 +70,3 @@ export const VISUAL_CONFIG = {
   OUTLIER_SIZE: 4,
   CLUSTERED_SIZE: 3,
 } as const
-
-export const PERSISTENCE_KEYS = {
-  TOKENS: 'galaxy.tokens',
-  IQ: 'galaxy.iq',
-  UPGRADES: 'galaxy.upgrades',
-  IQ_UPGRADES: 'galaxy.iqUpgrades',
-  LAST_SEEN: 'galaxy.lastSeen',
-} as const
@@ -0,0 +1,31 @@
+import lineagesJs from '../hooks/lineages.js'
+import { typedModule } from './plainJs'
+
+export type CoreLineage = 'transformer' | 'ensemble'
+
+export type LineageDef = {
+  id: CoreLineage
+  label: string
+  description: string
+  color: string // default halo color; players can override it in Cosmetics
+  passiveMult: number
+  clickBonusPerCore: number
+}
+
+const lib = typedModule<{
+  LINEAGES: LineageDef[]
+  CLICK_BONUS_CAP: number
+  getLineage: (id: CoreLineage) => LineageDef | undefined
+  isLineage: (v: unknown) => v is CoreLineage
+  lineagePassiveMult: (id: CoreLineage | undefined) => number
+  lineageClickMult: (counts: Partial<Record<CoreLineage, number>>) => number
+}>(lineagesJs)
+
+export const LINEAGES: readonly LineageDef[] = lib.LINEAGES
+export const CLICK_BONUS_CAP = lib.CLICK_BONUS_CAP
+export const {
+  getLineage,
+  isLineage,
+  lineagePassiveMult,
+  lineageClickMult,
+} = lib
@@ -0,0 +1,46 @@
+import pacingJs from '../hooks/pacing.js'
+import { typedModule } from './plainJs'
+
+export type PacingKey = 'spawnBase' | 'attraction' | 'passiveMult' | 'tokenCostMult'
+export type PacingValues = Record<PacingKey, number>
+export type PacingPresetId = 'calm' | 'standard' | 'lively' | 'fast'
+
+export type PacingPreset = {
+  id: PacingPresetId
+  label: string
+  description: string
+  values: PacingValues
+}
+
+export type PacingLimit = { label: string; unit: string; min: number; max: number; step: number }
+
+// Saved in galaxy.pacing; `custom` is used when preset is 'custom'
+export type PacingSave = { preset: PacingPresetId | 'custom'; custom: PacingValues }
+
+const lib = typedModule<{
+  PACING_KEYS: PacingKey[]
+  PACING_PRESETS: PacingPreset[]
+  PACING_LIMITS: Record<PacingKey, PacingLimit>
+  DEFAULT_PRESET: PacingPresetId
+  getPreset: (id: string) => PacingPreset | undefined
+  isPacingPresetId: (v: unknown) => v is PacingSave['preset']
+  clampPacingValue: (key: PacingKey, v: unknown) => number
+  defaultPacing: () => PacingSave
+  sanitizePacing: (raw: unknown) => PacingSave
+  pacingValues: (save: unknown) => PacingValues
+  scaleCost: (cost: number, mult: number) => number
+}>(pacingJs)
+
+export const PACING_KEYS: readonly PacingKey[] = lib.PACING_KEYS
+export const PACING_PRESETS: readonly PacingPreset[] = lib.PACING_PRESETS
+export const PACING_LIMITS: Readonly<Record<PacingKey, PacingLimit>> = lib.PACING_LIMITS
+export const DEFAULT_PRESET = lib.DEFAULT_PRESET
+export const {
+  getPreset,
+  isPacingPresetId,
+  clampPacingValue,
+  defaultPacing,
+  sanitizePacing,
+  pacingValues,
+  scaleCost,
+} = lib
@@ -0,0 +1,7 @@
+// The game rules live in CommonJS modules under hooks/*.js so `npm run test:galaxy` can run them in plain
+// node with no build step. TypeScript (allowJs) only infers loose types for those modules, so each typed
+// view in constants/ imports its module normally and states the real signatures through this one cast.
+// Keep the declared shape in step with the module's exports; nothing checks it against the JS.
+export function typedModule<T>(mod: unknown): T {
+  return mod as T
+}
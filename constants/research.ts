@@ -0,0 +1,51 @@
+import researchJs from '../hooks/research.js'
+import { typedModule } from './plainJs'
+import type { UpgradeId } from './upgrades'
+
+export type ResearchId = 'dropout' | 'attention' | 'residual' | 'selfSupervised' | 'rlhf'
+
+export type ResearchDef = {
+  id: ResearchId
+  label: string
+  description: string
+  iq: number // paid when queued, refunded on cancel
+  seconds: number // real time to finish once it reaches the head of the queue
+  requires: ResearchId[]
+  bonus?: { kind: 'click' | 'passive' | 'offline'; pct: number }
+  unlocks?: UpgradeId
+}
+
+export type ResearchEntry = { id: ResearchId; endsAt: number | null } // endsAt is epoch ms; null while waiting
+export type ResearchState = { completed: ResearchId[]; queue: ResearchEntry[] }
+
+const lib = typedModule<{
+  RESEARCH: ResearchDef[]
+  QUEUE_SIZE: number
+  getResearch: (id: ResearchId) => ResearchDef | undefined
+  isResearchId: (v: unknown) => v is ResearchId
+  emptyResearch: () => ResearchState
+  sanitizeResearch: (raw: unknown, now: number) => ResearchState
+  isResearched: (completed: ResearchId[], id: ResearchId) => boolean
+  queueBlocker: (state: ResearchState, id: ResearchId) => string | null
+  enqueue: (state: ResearchState, id: ResearchId, now: number) => ResearchState
+  cancel: (state: ResearchState, id: ResearchId, now: number) => { state: ResearchState; removed: ResearchId[] }
+  stepResearch: (state: ResearchState, now: number) => { state: ResearchState; finished: ResearchId[] }
+  researchProgress: (entry: ResearchEntry | undefined, now: number) => number
+  researchBonus: (completed: ResearchId[], kind: 'click' | 'passive' | 'offline') => number
+}>(researchJs)
+
+export const RESEARCH: readonly ResearchDef[] = lib.RESEARCH
+export const QUEUE_SIZE = lib.QUEUE_SIZE
+export const {
+  getResearch,
+  isResearchId,
+  emptyResearch,
+  sanitizeResearch,
+  isResearched,
+  queueBlocker,
+  enqueue,
+  cancel,
+  stepResearch,
+  researchProgress,
+  researchBonus,
+} = lib
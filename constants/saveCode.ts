@@ -0,0 +1,21 @@
+import saveCodeJs from '../hooks/saveCode.js'
+import { typedModule } from './plainJs'
+import type { SaveDocument, SaveCheck } from './saveDocument'
+
+const lib = typedModule<{
+  CODE_VERSION: number
+  CODE_PREFIX: string
+  encodeSaveCode: (doc: Partial<SaveDocument>) => string
+  decodeSaveCode: (text: string) => SaveCheck
+  isSaveCode: (text: string) => boolean
+  parseSaveText: (text: string) => SaveCheck
+}>(saveCodeJs)
+
+export const CODE_VERSION = lib.CODE_VERSION
+export const CODE_PREFIX = lib.CODE_PREFIX
+export const {
+  encodeSaveCode,
+  decodeSaveCode,
+  isSaveCode,
+  parseSaveText,
+} = lib
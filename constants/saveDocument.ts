@@ -0,0 +1,79 @@
+import saveDocumentJs from '../hooks/saveDocument.js'
+import { typedModule } from './plainJs'
+import type { Notation } from './bigNumber'
+import type { PacingSave } from './pacing'
+
+export type SaveStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+export type SavedCore = { level: number; x: number; y: number; stackCount: number; lineage?: string; awaitingLineage?: boolean }
+
+// Everything but the version is optional: a missing field means "use the default". Loaded values are
+// still sanitized by their owners, since the document may come from an older or newer build.
+export type SaveDocument = {
+  version: number
+  savedAt?: number
+  tokens?: string // serialized big number
+  iq?: string
+  totalEverCollected?: string
+  lastSeen?: number
+  upgrades?: unknown
+  iqUpgrades?: unknown
+  weights?: number
+  weightsEarned?: number
+  weightUpgrades?: unknown
+  retrains?: number
+  cosmeticTokens?: number
+  maxTotalCores?: number
+  dragAndDropEnabled?: boolean
+  notation?: Notation
+  coreData?: SavedCore[]
+  cosmetics?: any
+  achievements?: unknown
+  autobuyer?: unknown
+  research?: unknown
+  events?: unknown
+  pacing?: PacingSave
+}
+
+export type SaveField = Exclude<keyof SaveDocument, 'version' | 'savedAt'>
+
+// Result of checking an import: `doc` is null when anything failed; errors read "field: message"
+export type SaveCheck = { doc: SaveDocument | null; errors: string[] }
+export type SaveImportResult = { ok: boolean; errors: string[] }
+
+const lib = typedModule<{
+  SAVE_KEY: string
+  SAVE_VERSION: number
+  LEGACY_FIELDS: Record<SaveField, { key: string; kind: 'text' | 'number' | 'bool' | 'json' }>
+  LEGACY_KEYS: string[]
+  KEEP_ON_CLEAR: SaveField[]
+  MIGRATIONS: ((doc: any) => any)[]
+  SAVE_SCHEMA: Record<SaveField, (v: unknown) => string | null>
+  emptySave: () => SaveDocument
+  readLegacy: (storage: SaveStorage) => { version: 0; keys: Record<string, string> } | null
+  migrate: (doc: unknown) => SaveDocument
+  writeSave: (storage: SaveStorage, doc: Partial<SaveDocument>) => SaveDocument
+  loadSave: (storage: SaveStorage) => SaveDocument
+  updateSave: (storage: SaveStorage, patch: Partial<SaveDocument>) => SaveDocument
+  clearSave: (storage: SaveStorage, fields?: Partial<SaveDocument>) => SaveDocument
+  validateSave: (raw: unknown) => SaveCheck
+  parseSave: (text: string) => SaveCheck
+  serializeSave: (doc: Partial<SaveDocument>) => string
+}>(saveDocumentJs)
+
+export const SAVE_KEY = lib.SAVE_KEY
+export const SAVE_VERSION = lib.SAVE_VERSION
+export const LEGACY_KEYS: readonly string[] = lib.LEGACY_KEYS
+export const KEEP_ON_CLEAR: readonly SaveField[] = lib.KEEP_ON_CLEAR
+export const {
+  emptySave,
+  readLegacy,
+  migrate,
+  writeSave,
+  loadSave,
+  updateSave,
+  clearSave,
+  validateSave,
+  parseSave,
+  serializeSave,
+} = lib
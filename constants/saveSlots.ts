@@ -0,0 +1,55 @@
+import saveSlotsJs from '../hooks/saveSlots.js'
+import { typedModule } from './plainJs'
+import type { SaveDocument, SaveStorage } from './saveDocument'
+
+export type SaveSlot = { id: string; name: string; createdAt: number }
+export type SlotIndex = { active: string; slots: SaveSlot[] }
+// Result of a slot operation: `index` is unchanged and nothing was written when `error` is set
+export type SlotChange = { index: SlotIndex; error: string | null; id: string | null }
+
+export type SlotSummary = {
+  tokens: string // serialized big number
+  cores: number // counting stacked cores
+  maxLevel: number
+  lastPlayed: number | null
+}
+export type SlotInfo = SaveSlot & SlotSummary & { active: boolean }
+
+// Result of a slot action from the UI
+export type SlotResult = { ok: boolean; error: string | null }
+
+const lib = typedModule<{
+  SLOTS_KEY: string
+  MAIN_SLOT: string
+  MAX_SLOTS: number
+  MAX_SLOT_NAME: number
+  slotKey: (id: string) => string
+  slotStorage: (storage: SaveStorage, id: string) => SaveStorage
+  loadSlots: (storage: SaveStorage) => SlotIndex
+  activeSlotStorage: (storage: SaveStorage) => SaveStorage
+  slotNameError: (index: SlotIndex, name: string, exceptId?: string) => string | null
+  createSlot: (storage: SaveStorage, name: string, copyFrom?: string) => SlotChange
+  renameSlot: (storage: SaveStorage, id: string, name: string) => SlotChange
+  deleteSlot: (storage: SaveStorage, id: string) => SlotChange
+  setActiveSlot: (storage: SaveStorage, id: string) => SlotChange
+  slotSummary: (doc: SaveDocument) => SlotSummary
+  listSlots: (storage: SaveStorage) => SlotInfo[]
+}>(saveSlotsJs)
+
+export const SLOTS_KEY = lib.SLOTS_KEY
+export const MAIN_SLOT = lib.MAIN_SLOT
+export const MAX_SLOTS = lib.MAX_SLOTS
+export const MAX_SLOT_NAME = lib.MAX_SLOT_NAME
+export const {
+  slotKey,
+  slotStorage,
+  loadSlots,
+  activeSlotStorage,
+  slotNameError,
+  createSlot,
+  renameSlot,
+  deleteSlot,
+  setActiveSlot,
+  slotSummary,
+  listSlots,
+} = lib
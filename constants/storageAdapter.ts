@@ -0,0 +1,58 @@
+import storageAdapterJs from '../hooks/storageAdapter.js'
+import { typedModule } from './plainJs'
+
+export type StorageKind = 'indexeddb' | 'localStorage' | 'memory'
+
+// A key/value backend; every call is async so none of them blocks the main thread
+export interface StorageAdapter {
+  kind: StorageKind
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  entries(): Promise<[string, string][]>
+}
+
+// What the game reads and writes through: synchronous over an in-memory copy, written back in order
+export type StorageMirror = {
+  kind: StorageKind
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+  flush(): Promise<void>
+  // Synchronous localStorage copy of writes IndexedDB hasn't confirmed, for when the page goes away
+  backupTo(ls: Storage | undefined): number
+}
+
+export type StorageEnv = { indexedDB?: IDBFactory; localStorage?: Storage }
+
+const lib = typedModule<{
+  STORAGE_PREFIXES: string[]
+  IDB_NAME: string
+  IDB_STORE: string
+  UNLOAD_KEY: string
+  createMemoryAdapter: (initial?: Record<string, string>) => StorageAdapter
+  createLocalStorageAdapter: (ls: Storage | undefined) => StorageAdapter | null
+  createIndexedDbAdapter: (idb: IDBFactory | undefined) => Promise<StorageAdapter | null>
+  adoptLocalStorage: (target: StorageAdapter, ls: Storage | undefined) => Promise<number>
+  restoreUnloadBackup: (target: StorageAdapter, ls: Storage | undefined) => Promise<number>
+  openStorage: (env?: StorageEnv) => Promise<StorageAdapter>
+  createStorageMirror: (adapter: StorageAdapter) => Promise<StorageMirror>
+  galaxyStorage: () => Promise<StorageMirror>
+  getGalaxyStorage: () => StorageMirror | null
+}>(storageAdapterJs)
+
+export const STORAGE_PREFIXES: readonly string[] = lib.STORAGE_PREFIXES
+export const IDB_NAME = lib.IDB_NAME
+export const IDB_STORE = lib.IDB_STORE
+export const UNLOAD_KEY = lib.UNLOAD_KEY
+export const {
+  createMemoryAdapter,
+  createLocalStorageAdapter,
+  createIndexedDbAdapter,
+  adoptLocalStorage,
+  restoreUnloadBackup,
+  openStorage,
+  createStorageMirror,
+  galaxyStorage,
+  getGalaxyStorage,
+} = lib
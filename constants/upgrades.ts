@@ -0,0 +1,69 @@
+import upgradeRegistryJs from '../hooks/upgradeRegistry.js'
+import { typedModule } from './plainJs'
+import type { ResearchId } from './research'
+import type { PacingValues } from './pacing'
+
+export type UpgradeCurrency = 'tokens' | 'iq' | 'weights'
+export type UpgradeStateKey = 'upgrades' | 'iqUpgrades' | 'weightUpgrades'
+
+export type TokenUpgradeId = 'spawnRate' | 'spawnQty' | 'clickYield' | 'batchCollect' | 'comboWindow'
+export type IQUpgradeId =
+  | 'dataQuality'
+  | 'computeMult' | 'autoCollect'
+  | 'offlineCap' | 'offlineEfficiency' | 'autobuyer' | 'attentionHeads' | 'deepLayers'
+  | 'silverUnlock' | 'goldUnlock' | 'rareUnlock' | 'epicUnlock'
+  | 'silverChanceUp' | 'goldChanceUp' | 'rareChanceUp' | 'epicChanceUp'
+  | 'confetti' | 'palette'
+export type WeightUpgradeId = 'passiveBoost' | 'clickBoost' | 'warmStart'
+export type UpgradeId = TokenUpgradeId | IQUpgradeId | WeightUpgradeId
+
+export type UpgradeCostCurve =
+  | { kind: 'geometric'; base: number; growth: number }
+  | { kind: 'linear'; base: number; step: number }
+  | { kind: 'table'; values: number[] }
+
+export type UpgradeDef = {
+  id: UpgradeId
+  currency: UpgradeCurrency
+  state: UpgradeStateKey
+  field: string
+  cost: UpgradeCostCurve
+  maxLevel: number | null
+  paceCap?: (pace: PacingValues) => number
+  requires: UpgradeId[]
+  research?: ResearchId
+  effect: (level: number) => number
+  label: string
+  description: string
+}
+
+const registry = typedModule<{
+  UPGRADES: UpgradeDef[]
+  TIER_CHANCE_BASE: Record<'silver' | 'gold' | 'rare' | 'epic', number>
+  getUpgrade: (id: UpgradeId) => UpgradeDef | undefined
+  upgradesFor: (currency: UpgradeCurrency, state?: UpgradeStateKey) => UpgradeDef[]
+  remainingLevels: (id: UpgradeId, level: number, pace?: PacingValues) => number
+  levelCost: (id: UpgradeId, level: number) => number
+  bulkCost: (id: UpgradeId, level: number, qty: number) => number
+  maxAffordableLevels: (id: UpgradeId, level: number, budget: number, pace?: PacingValues) => number
+  prerequisitesMet: (id: UpgradeId, levelOf: (id: UpgradeId) => number) => boolean
+}>(upgradeRegistryJs)
+
+export const UPGRADES: readonly UpgradeDef[] = registry.UPGRADES
+export const TIER_CHANCE_BASE = registry.TIER_CHANCE_BASE
+export const {
+  getUpgrade,
+  upgradesFor,
+  remainingLevels,
+  levelCost,
+  bulkCost,
+  maxAffordableLevels,
+  prerequisitesMet,
+} = registry
+
+/** Current level of an upgrade inside a state object (boolean unlock fields read as 0/1). */
+export function upgradeLevelIn(def: UpgradeDef, source: Record<string, unknown> | undefined): number {
+  const v = source?.[def.field]
+  if (typeof v === 'boolean') return v ? 1 : 0
+  return typeof v === 'number' && Number.isFinite(v) ? v : 0
+}
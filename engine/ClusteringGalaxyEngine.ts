@@ -1,6 +1,8 @@
 // Game Engine - Core game logic separated from React hooks
 
-import { GAME_CONFIG, UPGRADE_CONFIG, VISUAL_CONFIG } from '../constants/gameConstants'
+import { GAME_CONFIG, VISUAL_CONFIG } from '../constants/gameConstants'
+import { getUpgrade } from '../constants/upgrades'
+import type { UpgradeId } from '../constants/upgrades'
 import type { 
   Point, 
   Cluster, 
@@ -13,6 +15,11 @@ import type {
   GameStats
 } from '../types/gameTypes'
 
+// Upgrade effects come from the shared registry so engine and hook agree
+function upgradeEffect(id: UpgradeId, level: number | undefined): number {
+  return getUpgrade(id)!.effect(level || 0)
+}
+
 export class ClusteringGalaxyEngine {
   private points: Point[] = []
   private clusters: Cluster[] = []
@@ -143,7 +150,7 @@ export class ClusteringGalaxyEngine {
   }
 
   private updateSpawnCooldown(upgrades: Upgrades) {
-    this.spawnCooldown = GAME_CONFIG.BASE_SPAWN / (1 + upgrades.spawnRate * UPGRADE_CONFIG.SPAWN_RATE.base)
+    this.spawnCooldown = GAME_CONFIG.BASE_SPAWN / upgradeEffect('spawnRate', upgrades.spawnRate)
   }
 
   private updatePoints(deltaTime: number) {
@@ -223,7 +230,7 @@ export class ClusteringGalaxyEngine {
     if (iqUpgrades.autoCollect === 0) return
 
     this.autoAcc += 1 / 60 // Assuming 60 FPS
-    if (this.autoAcc >= 1) {
+    if (this.autoAcc >= upgradeEffect('autoCollect', iqUpgrades.autoCollect)) {
       this.autoAcc = 0
       const outliers = this.points.filter(p => p.state === 'outlier')
       if (outliers.length > 0) {
@@ -303,8 +310,11 @@ export class ClusteringGalaxyEngine {
     const index = this.findNearestOutlier(x, y, GAME_CONFIG.CLICK_RADIUS)
     if (index === -1) return 0
 
+    const base = this.points[index]
+    const bx = base.x
+    const by = base.y
     this.convertOutlier(index)
-    let gain = GAME_CONFIG.CLICK_BASE + upgrades.clickYield
+    let gain = GAME_CONFIG.CLICK_BASE + upgradeEffect('clickYield', upgrades.clickYield)
 
     // Data Quality bonus
     const dq = Math.min(3, Math.max(1, upgrades.dataQuality || 1))
@@ -320,14 +330,12 @@ export class ClusteringGalaxyEngine {
       }
     }
 
-    // Batch collect bonus
-    const mbLevel = upgrades.batchCollect
-    const chance = Math.min(0.1 * mbLevel, 1)
-    const totalOutliers = this.points.filter(p => p.state === 'outlier').length
-    if (totalOutliers > 1 && Math.random() < chance) {
+    // Mini-Batch: outliers within reach of the clicked one
+    const reach = upgradeEffect('batchCollect', upgrades.batchCollect)
+    if (reach > 0) {
       for (let i = 0; i < this.points.length; i++) {
         const p = this.points[i]
-        if (p.state === 'outlier') {
+        if (p.state === 'outlier' && Math.hypot(p.x - bx, p.y - by) <= reach) {
           this.convertOutlier(i)
           gain += 1
         }
@@ -456,13 +464,13 @@ export class ClusteringGalaxyEngine {
 
   // Getters
   getStats(iqUpgrades: IQUpgrades): GameStats {
-    const counts = [0, 0, 0, 0, 0]
+    const counts = new Array(GAME_CONFIG.MAX_LEVEL).fill(0)
     for (let i = 0; i < this.clusters.length; i++) {
       const level = Math.min(GAME_CONFIG.MAX_LEVEL, Math.max(1, this.clusters[i].level))
       counts[level - 1]++
     }
 
-    const computeMult = Math.pow(UPGRADE_CONFIG.COMPUTE_MULT.base, iqUpgrades.computeMult)
+    const computeMult = upgradeEffect('computeMult', iqUpgrades.computeMult)
     let tokensPerSec = 0
     for (let i = 0; i < counts.length; i++) {
       tokensPerSec += GAME_CONFIG.LEVEL_RATE[i] * counts[i]
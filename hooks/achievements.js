@@ -0,0 +1,105 @@
+// Achievements for Clustering Galaxy: persisted milestones with progress and optional permanent bonuses.
+// Plain JS so tests can read it; typed view lives in constants/achievements.ts.
+//
+// Each achievement watches one metric and unlocks once `value >= target`.
+// Metrics are either lifetime counters kept in the save (COUNTERS; bestCombo is a high-water mark) or values read from the live game
+// (totalCollected, highestLevel, totalCores, coresL5, retrains).
+// bonus: { kind: 'click' | 'passive', pct } adds pct% to that income once unlocked.
+// effect: legacy `galaxy-effect` name fired the first time it unlocks.
+
+const COUNTERS = ['clickCaptures', 'dragCaptures', 'rareCatches', 'epicCatches', 'merges', 'lineageSplits', 'eventsSeen', 'spritesUnlocked', 'bestCombo']
+
+const ACHIEVEMENTS = [
+  // Collection
+  { id: 'collect100', group: 'Collection', label: 'Warm-up Epoch', description: 'Collect 100 data', metric: 'totalCollected', target: 100 },
+  { id: 'collect1k', group: 'Collection', label: 'Mini-Batch', description: 'Collect 1,000 data', metric: 'totalCollected', target: 1000 },
+  { id: 'collect10k', group: 'Collection', label: 'Full Epoch', description: 'Collect 10,000 data', metric: 'totalCollected', target: 10000, bonus: { kind: 'passive', pct: 2 } },
+  { id: 'collect100k', group: 'Collection', label: 'Pretraining Run', description: 'Collect 100,000 data', metric: 'totalCollected', target: 100000, bonus: { kind: 'passive', pct: 3 } },
+  { id: 'collect1m', group: 'Collection', label: 'Foundation Model', description: 'Collect 1,000,000 data', metric: 'totalCollected', target: 1000000, bonus: { kind: 'passive', pct: 5 } },
+  // Cores
+  { id: 'reachL2', group: 'Cores', label: 'Hidden Layer', description: 'Level a core to L2', metric: 'highestLevel', target: 2, effect: 'l2-reached' },
+  { id: 'reachL3', group: 'Cores', label: 'Going Deeper', description: 'Level a core to L3', metric: 'highestLevel', target: 3 },
+  { id: 'reachL4', group: 'Cores', label: 'Residual Connection', description: 'Level a core to L4', metric: 'highestLevel', target: 4 },
+  { id: 'reachL5', group: 'Cores', label: 'Deep Network', description: 'Level a core to L5', metric: 'highestLevel', target: 5, effect: 'first-max' },
+  { id: 'cores10', group: 'Cores', label: 'Small Swarm', description: 'Own 10 cores', metric: 'totalCores', target: 10 },
+  { id: 'cores50', group: 'Cores', label: 'Cluster', description: 'Own 50 cores', metric: 'totalCores', target: 50, bonus: { kind: 'passive', pct: 2 } },
+  { id: 'cores250', group: 'Cores', label: 'Data Center', description: 'Own 250 cores', metric: 'totalCores', target: 250, bonus: { kind: 'passive', pct: 3 } },
+  { id: 'coresL5x5', group: 'Cores', label: 'Five Deep', description: 'Own 5 L5 cores at once', metric: 'coresL5', target: 5 },
+  { id: 'coresL5x25', group: 'Cores', label: 'Deep Bench', description: 'Own 25 L5 cores at once', metric: 'coresL5', target: 25, bonus: { kind: 'passive', pct: 3 } },
+  // Catches
+  { id: 'clicks50', group: 'Catches', label: 'Hands-on', description: 'Click-collect 50 outliers', metric: 'clickCaptures', target: 50 },
+  { id: 'clicks500', group: 'Catches', label: 'Labeler', description: 'Click-collect 500 outliers', metric: 'clickCaptures', target: 500 },
+  { id: 'clicks5k', group: 'Catches', label: 'Human Feedback', description: 'Click-collect 5,000 outliers', metric: 'clickCaptures', target: 5000, bonus: { kind: 'click', pct: 3 } },
+  { id: 'drags10', group: 'Catches', label: 'Drag and Drop', description: 'Drag 10 outliers into cores', metric: 'dragCaptures', target: 10 },
+  { id: 'drags100', group: 'Catches', label: 'Hand Placement', description: 'Drag 100 outliers into cores', metric: 'dragCaptures', target: 100 },
+  { id: 'drags1k', group: 'Catches', label: 'Curriculum', description: 'Drag 1,000 outliers into cores', metric: 'dragCaptures', target: 1000, bonus: { kind: 'click', pct: 2 } },
+  { id: 'combo10', group: 'Catches', label: 'In the Flow', description: 'Chain a 10-capture combo', metric: 'bestCombo', target: 10 },
+  { id: 'combo25', group: 'Catches', label: 'Hot Streak', description: 'Chain a 25-capture combo', metric: 'bestCombo', target: 25, bonus: { kind: 'click', pct: 2 } },
+  { id: 'rare1', group: 'Catches', label: 'Rare Sample', description: 'Catch a Rare outlier', metric: 'rareCatches', target: 1 },
+  { id: 'rare25', group: 'Catches', label: 'Long Tail', description: 'Catch 25 Rare outliers', metric: 'rareCatches', target: 25 },
+  { id: 'epic1', group: 'Catches', label: 'Epic Catch', description: 'Catch an Epic outlier', metric: 'epicCatches', target: 1 },
+  { id: 'epic10', group: 'Catches', label: 'Anomaly Detector', description: 'Catch 10 Epic outliers', metric: 'epicCatches', target: 10, bonus: { kind: 'click', pct: 2 } },
+  { id: 'epic100', group: 'Catches', label: 'Black Swan Hunter', description: 'Catch 100 Epic outliers', metric: 'epicCatches', target: 100, bonus: { kind: 'click', pct: 5 } },
+  // Progression
+  { id: 'merge1', group: 'Progression', label: 'Model Merge', description: 'Merge two cores', metric: 'merges', target: 1 },
+  { id: 'merge25', group: 'Progression', label: 'Model Soup', description: 'Merge cores 25 times', metric: 'merges', target: 25, bonus: { kind: 'passive', pct: 2 } },
+  { id: 'lineage1', group: 'Progression', label: 'Specialist', description: 'Pick a lineage for an L5 split', metric: 'lineageSplits', target: 1 },
+  { id: 'lineage10', group: 'Progression', label: 'Architecture Search', description: 'Pick lineages for 10 L5 splits', metric: 'lineageSplits', target: 10, bonus: { kind: 'passive', pct: 2 } },
+  { id: 'event1', group: 'Progression', label: 'Storm Chaser', description: 'Witness a timed event', metric: 'eventsSeen', target: 1 },
+  { id: 'event10', group: 'Progression', label: 'Weather Station', description: 'Witness 10 timed events', metric: 'eventsSeen', target: 10 },
+  { id: 'retrain1', group: 'Progression', label: 'Fine-Tuned', description: 'Retrain once', metric: 'retrains', target: 1 },
+  { id: 'retrain5', group: 'Progression', label: 'Continual Learner', description: 'Retrain 5 times', metric: 'retrains', target: 5, bonus: { kind: 'passive', pct: 5 } },
+  // Cosmetics
+  { id: 'sprite1', group: 'Cosmetics', label: 'New Look', description: 'Unlock a core sprite', metric: 'spritesUnlocked', target: 1 },
+  { id: 'sprite5', group: 'Cosmetics', label: 'Wardrobe', description: 'Unlock 5 core sprites', metric: 'spritesUnlocked', target: 5 },
+  { id: 'sprite15', group: 'Cosmetics', label: 'Completionist', description: 'Unlock 15 core sprites', metric: 'spritesUnlocked', target: 15, bonus: { kind: 'click', pct: 2 } },
+]
+
+const BY_ID = Object.fromEntries(ACHIEVEMENTS.map(a => [a.id, a]))
+
+function getAchievement(id) {
+  return BY_ID[id]
+}
+
+function achievementProgress(def, metrics) {
+  const raw = metrics && Number.isFinite(metrics[def.metric]) ? metrics[def.metric] : 0
+  const value = Math.max(0, raw)
+  return { value, target: def.target, done: value >= def.target, ratio: Math.min(1, value / def.target) }
+}
+
+// Definitions that are met by `metrics` but not yet in `unlocked`, in table order
+function newlyUnlocked(unlocked, metrics) {
+  const have = new Set(unlocked || [])
+  return ACHIEVEMENTS.filter(a => !have.has(a.id) && achievementProgress(a, metrics).done)
+}
+
+// 1 + the summed bonus percentages of unlocked achievements of this kind
+function achievementBonus(unlocked, kind) {
+  let pct = 0
+  for (const id of unlocked || []) {
+    const a = BY_ID[id]
+    if (a && a.bonus && a.bonus.kind === kind) pct += a.bonus.pct
+  }
+  return 1 + pct / 100
+}
+
+// Whatever was stored under galaxy.achievements; unknown ids and non-numeric counters are dropped
+function sanitizeAchievements(raw) {
+  const unlocked = Array.isArray(raw && raw.unlocked) ? Array.from(new Set(raw.unlocked.filter(id => BY_ID[id]))) : []
+  const counters = {}
+  for (const k of COUNTERS) {
+    const v = raw && raw.counters ? raw.counters[k] : 0
+    counters[k] = Number.isFinite(v) && v > 0 ? Math.floor(v) : 0
+  }
+  return { unlocked, counters }
+}
+
+module.exports = {
+  ACHIEVEMENTS,
+  COUNTERS,
+  getAchievement,
+  achievementProgress,
+  newlyUnlocked,
+  achievementBonus,
+  sanitizeAchievements,
+}
@@ -0,0 +1,99 @@
+// Rule-based autobuyer for Clustering Galaxy token upgrades, unlocked with IQ.
+// Plain JS so tests can read it; typed view lives in constants/autobuyer.ts.
+//
+// One rule per token upgrade: { id, enabled, maxCostPct, maxLevel }.
+// An enabled rule buys the next level while it costs at most maxCostPct% of the tokens on hand
+// and, when maxLevel is set, the upgrade is still below that level.
+
+const { upgradesFor, levelCost, remainingLevels } = require('./upgradeRegistry.js')
+
+const AUTOBUY_TARGETS = upgradesFor('tokens', 'upgrades').map(u => u.id)
+// Rules are evaluated this often (seconds of game time) ...
+const AUTOBUY_INTERVAL = 1
+// ... and buy at most this many levels per evaluation
+const MAX_BUYS_PER_TICK = 10
+// Recent automated purchases kept for the HUD log
+const LOG_SIZE = 8
+
+function defaultRule(id) {
+  return { id, enabled: false, maxCostPct: 10, maxLevel: null }
+}
+
+function defaultAutobuyer() {
+  return { enabled: true, rules: AUTOBUY_TARGETS.map(defaultRule) }
+}
+
+// Whatever was stored under galaxy.autobuyer; always one rule per token upgrade, in registry order
+function sanitizeAutobuyer(raw) {
+  const saved = raw && Array.isArray(raw.rules) ? raw.rules : []
+  const rules = AUTOBUY_TARGETS.map(id => {
+    const r = saved.find(s => s && s.id === id)
+    const rule = defaultRule(id)
+    if (!r) return rule
+    rule.enabled = r.enabled === true
+    if (Number.isFinite(r.maxCostPct)) rule.maxCostPct = Math.max(1, Math.min(100, Math.round(r.maxCostPct)))
+    if (Number.isFinite(r.maxLevel) && r.maxLevel >= 0) rule.maxLevel = Math.floor(r.maxLevel)
+    return rule
+  })
+  return { enabled: !(raw && raw.enabled === false), rules }
+}
+
+// Whether `rule` may buy the next level of its upgrade at `level` with `tokens` on hand, under pacing `pace`
+function ruleAllows(rule, level, tokens, pace) {
+  if (!rule || !rule.enabled) return false
+  if (remainingLevels(rule.id, level, pace) <= 0) return false
+  if (rule.maxLevel != null && level >= rule.maxLevel) return false
+  return levelCost(rule.id, level) <= tokens * rule.maxCostPct / 100
+}
+
+// Levels to buy this evaluation, one at a time round-robin over the rules so a cheap upgrade
+// can't starve the others. Each check sees the tokens left after the buys before it.
+function planPurchases(rules, levels, tokens, pace, maxBuys) {
+  const cap = maxBuys == null ? MAX_BUYS_PER_TICK : maxBuys
+  const lv = { ...levels }
+  let budget = tokens
+  const buys = []
+  let progressed = true
+  while (progressed && buys.length < cap) {
+    progressed = false
+    for (const rule of rules) {
+      if (buys.length >= cap) break
+      const level = lv[rule.id] || 0
+      if (!ruleAllows(rule, level, budget, pace)) continue
+      const cost = levelCost(rule.id, level)
+      budget -= cost
+      lv[rule.id] = level + 1
+      buys.push({ id: rule.id, level: level + 1, cost })
+      progressed = true
+    }
+  }
+  return buys
+}
+
+// Fold one evaluation's buys into the HUD log: one entry per upgrade (final level, levels bought, total cost),
+// newest first, trimmed to LOG_SIZE
+function pushLog(log, buys, at) {
+  const grouped = []
+  for (const b of buys) {
+    const g = grouped.find(e => e.id === b.id)
+    if (g) {
+      g.level = b.level
+      g.count += 1
+      g.cost += b.cost
+    } else {
+      grouped.push({ id: b.id, level: b.level, count: 1, cost: b.cost, at })
+    }
+  }
+  return [...grouped.reverse(), ...(log || [])].slice(0, LOG_SIZE)
+}
+
+module.exports = {
+  AUTOBUY_TARGETS,
+  AUTOBUY_INTERVAL,
+  MAX_BUYS_PER_TICK,
+  defaultAutobuyer,
+  sanitizeAutobuyer,
+  ruleAllows,
+  planPurchases,
+  pushLog,
+}
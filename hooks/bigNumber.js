@@ -0,0 +1,207 @@
+// Mantissa/exponent numbers for the Clustering Galaxy economy.
+// Plain JS so tests can run without extra tooling; typed view lives in constants/bigNumber.ts.
+//
+// A value is { m, e } meaning m * 10^e, normalized so 1 <= |m| < 10 (zero is { m: 0, e: 0 }).
+// Values are immutable; every operation returns a new object.
+
+const ZERO = Object.freeze({ m: 0, e: 0 })
+
+// Largest exponent gap where the smaller operand still changes the sum at double precision
+const MAX_DIGITS = 17
+// Mantissas are rounded to 15 significant digits (m * SIG_SCALE is a whole number). Every whole number
+// below 10^15 survives exactly, and float error from rescaling can't pile up across repeated adds.
+const SIG_DIGITS = 15
+const SIG_SCALE = Math.pow(10, SIG_DIGITS - 1)
+// Below this exponent both operands are exact doubles, so add() sums them as plain numbers
+const EXACT_EXP = 15
+
+const SUFFIXES = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No', 'Dc']
+
+function normalize(m, e) {
+  if (!Number.isFinite(m) || !Number.isFinite(e) || m === 0) return ZERO
+  const shift = Math.floor(Math.log10(Math.abs(m)))
+  let mm = m / Math.pow(10, shift)
+  let ee = e + shift
+  // Guard against log10 rounding at exact powers of ten
+  if (Math.abs(mm) >= 10) { mm /= 10; ee += 1 }
+  if (Math.abs(mm) < 1) { mm *= 10; ee -= 1 }
+  mm = Math.round(mm * SIG_SCALE) / SIG_SCALE
+  // Rounding can carry 9.99999999999999x up to 10
+  if (Math.abs(mm) >= 10) { mm /= 10; ee += 1 }
+  return { m: mm, e: ee }
+}
+
+function fromNumber(n) {
+  if (typeof n !== 'number' || Number.isNaN(n) || n === 0) return ZERO
+  // Infinity from legacy float overflow: pin to the largest double instead of poisoning the save
+  if (!Number.isFinite(n)) return normalize(n > 0 ? 1.7976931348623157 : -1.7976931348623157, 308)
+  return normalize(n, 0)
+}
+
+function isBig(v) {
+  return !!v && typeof v === 'object' && typeof v.m === 'number' && typeof v.e === 'number'
+}
+
+// Accepts a Big, a number or a serialized string
+function big(v) {
+  if (isBig(v)) return normalize(v.m, v.e)
+  if (typeof v === 'string') return parse(v)
+  return fromNumber(v)
+}
+
+function toNumber(b) {
+  const v = big(b)
+  if (v.m === 0) return 0
+  if (v.e > 308) return v.m > 0 ? Infinity : -Infinity
+  if (v.e < -324) return 0
+  // Scale the mantissa's digits as a whole number, so 4.9e1 comes back as exactly 49
+  const digits = Math.round(v.m * SIG_SCALE)
+  const p = v.e - (SIG_DIGITS - 1)
+  if (p >= 0) return digits * Math.pow(10, p)
+  if (p >= -308) return digits / Math.pow(10, -p)
+  return v.m * Math.pow(10, v.e)
+}
+
+// Clamped to finite doubles; for cost math and other number-only formulas
+function toFiniteNumber(b) {
+  const n = toNumber(b)
+  if (n === Infinity) return Number.MAX_VALUE
+  if (n === -Infinity) return -Number.MAX_VALUE
+  return n
+}
+
+function add(a, b) {
+  const x = big(a)
+  const y = big(b)
+  if (x.m === 0) return y
+  if (y.m === 0) return x
+  if (x.e < EXACT_EXP && y.e < EXACT_EXP) return fromNumber(toNumber(x) + toNumber(y))
+  const hi = x.e >= y.e ? x : y
+  const lo = x.e >= y.e ? y : x
+  const gap = hi.e - lo.e
+  if (gap > MAX_DIGITS) return hi
+  return normalize(hi.m + lo.m / Math.pow(10, gap), hi.e)
+}
+
+function neg(a) {
+  const x = big(a)
+  return x.m === 0 ? ZERO : { m: -x.m, e: x.e }
+}
+
+function sub(a, b) {
+  return add(a, neg(b))
+}
+
+function mul(a, b) {
+  const x = big(a)
+  const y = big(b)
+  return normalize(x.m * y.m, x.e + y.e)
+}
+
+function div(a, b) {
+  const x = big(a)
+  const y = big(b)
+  if (y.m === 0) return ZERO
+  return normalize(x.m / y.m, x.e - y.e)
+}
+
+function cmp(a, b) {
+  const x = big(a)
+  const y = big(b)
+  const sx = Math.sign(x.m)
+  const sy = Math.sign(y.m)
+  if (sx !== sy) return sx < sy ? -1 : 1
+  if (sx === 0) return 0
+  if (x.e !== y.e) return (x.e > y.e ? 1 : -1) * sx
+  if (x.m === y.m) return 0
+  return x.m > y.m ? 1 : -1
+}
+
+function gte(a, b) {
+  return cmp(a, b) >= 0
+}
+
+function max(a, b) {
+  return cmp(a, b) >= 0 ? big(a) : big(b)
+}
+
+function floor(a) {
+  const x = big(a)
+  // Past double precision every representable value is already an integer
+  if (x.e >= MAX_DIGITS - 1) return x
+  return fromNumber(Math.floor(toNumber(x)))
+}
+
+// Plain decimal while it round-trips exactly through Number, "m e" form after that.
+// big() renormalizes, so the mantissa written is the rounded 15-digit one.
+function serialize(a) {
+  const x = big(a)
+  if (x.e < 21) return String(toNumber(x))
+  return `${x.m}e${x.e}`
+}
+
+function parse(s, fallback) {
+  const bad = fallback === undefined ? ZERO : fallback
+  if (typeof s !== 'string') return bad
+  const match = /^\s*(-?\d+(?:\.\d+)?)(?:e([+-]?\d+))?\s*$/i.exec(s)
+  if (!match) return bad
+  const m = parseFloat(match[1])
+  const e = match[2] ? parseInt(match[2], 10) : 0
+  if (!Number.isFinite(m) || !Number.isFinite(e)) return bad
+  return normalize(m, e)
+}
+
+// Round to `digits` significant figures, carrying into the exponent (9.999 -> 1.00e+1)
+function roundSig(x, digits) {
+  const f = Math.pow(10, digits - 1)
+  const m = Math.round(x.m * f) / f
+  return Math.abs(m) >= 10 ? { m: m / 10, e: x.e + 1 } : { m, e: x.e }
+}
+
+function trimZeros(s) {
+  return s.indexOf('.') === -1 ? s : s.replace(/\.?0+$/, '')
+}
+
+// notation: 'suffix' (1.23M), 'scientific' (1.23e6) or 'engineering' (1.23e6, exponent multiple of 3).
+// Values under 1000 print as plain numbers with `decimals` places (floored when decimals is 0).
+function format(value, notation, decimals) {
+  const x = big(value)
+  const places = decimals == null ? 0 : decimals
+  if (x.e < 3) {
+    const n = toNumber(x)
+    return places > 0 ? n.toFixed(places) : String(Math.floor(n))
+  }
+  const r = roundSig(x, 3)
+  const sign = r.m < 0 ? '-' : ''
+  const m = Math.abs(r.m)
+  const mode = notation || 'suffix'
+  if (mode === 'scientific') return `${sign}${trimZeros(m.toFixed(2))}e${r.e}`
+  const group = Math.floor(r.e / 3)
+  const shift = r.e - group * 3
+  const scaled = trimZeros((m * Math.pow(10, shift)).toFixed(2 - shift))
+  if (mode === 'engineering') return `${sign}${scaled}e${group * 3}`
+  if (group < SUFFIXES.length) return `${sign}${scaled}${SUFFIXES[group]}`
+  return `${sign}${trimZeros(m.toFixed(2))}e${r.e}`
+}
+
+module.exports = {
+  ZERO,
+  SUFFIXES,
+  normalize,
+  fromNumber,
+  isBig,
+  big,
+  toNumber,
+  toFiniteNumber,
+  add,
+  sub,
+  mul,
+  div,
+  cmp,
+  gte,
+  max,
+  floor,
+  serialize,
+  parse,
+  format,
+}
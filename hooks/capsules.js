@@ -0,0 +1,114 @@
+// Loot capsules for Clustering Galaxy: large drifting capsules that crack open after enough clicks.
+// Plain JS so tests can read it; typed view lives in constants/capsules.ts.
+//
+// A spawn rolls its rarity (weight), which sets the clicks needed and the look. Opening it rolls one
+// reward kind from the rarity's `rewards` weights; kinds with nothing left to give (every sprite,
+// color or effect already unlocked) drop out of that roll, so tokens are always possible.
+//   tokens  `tokenSeconds` of current passive income, never less than `tokenMin`
+//   iq      grants `iq` IQ
+//   buff    starts or refreshes a drop-table buff (BUFFS in dropTables.js) for `buff.seconds`
+//   color   unlocks a CAPSULE_COLORS swatch for the Cosmetics color picker
+//   effect  unlocks a site effect (confetti or palette) and plays it
+//   sprite  unlocks a locked core sprite
+
+const RARITIES = [
+  {
+    id: 'common', label: 'Common', weight: 64, clicks: 5, color: '#94a3b8', scale: 0.9,
+    tokenSeconds: 30, tokenMin: 20, iq: 1, buff: { mult: 2, seconds: 20 },
+    rewards: { tokens: 55, iq: 0, buff: 25, color: 12, effect: 0, sprite: 8 },
+  },
+  {
+    id: 'rare', label: 'Rare', weight: 26, clicks: 8, color: '#3b82f6', scale: 1,
+    tokenSeconds: 60, tokenMin: 50, iq: 1, buff: { mult: 2, seconds: 30 },
+    rewards: { tokens: 35, iq: 10, buff: 25, color: 15, effect: 5, sprite: 10 },
+  },
+  {
+    id: 'epic', label: 'Epic', weight: 8, clicks: 12, color: '#a855f7', scale: 1.15,
+    tokenSeconds: 120, tokenMin: 150, iq: 2, buff: { mult: 3, seconds: 45 },
+    rewards: { tokens: 25, iq: 20, buff: 20, color: 12, effect: 8, sprite: 15 },
+  },
+  {
+    id: 'legendary', label: 'Legendary', weight: 2, clicks: 18, color: '#fbbf24', scale: 1.3,
+    tokenSeconds: 300, tokenMin: 500, iq: 5, buff: { mult: 3, seconds: 60 },
+    rewards: { tokens: 20, iq: 30, buff: 15, color: 10, effect: 10, sprite: 15 },
+  },
+]
+
+// Swatches only capsules hand out; unlocked ids are saved in galaxy.cosmetics.unlockedColors
+const CAPSULE_COLORS = [
+  { id: 'aurora', label: 'Aurora', hex: '#2dd4bf' },
+  { id: 'ember', label: 'Ember', hex: '#fb7185' },
+  { id: 'solar', label: 'Solar Flare', hex: '#fb923c' },
+  { id: 'nebula', label: 'Nebula', hex: '#e879f9' },
+  { id: 'glacier', label: 'Glacier', hex: '#bae6fd' },
+  { id: 'moss', label: 'Moss', hex: '#84cc16' },
+  { id: 'quasar', label: 'Quasar', hex: '#facc15' },
+  { id: 'void', label: 'Void', hex: '#312e81' },
+]
+
+const CAPSULE_EFFECTS = ['confetti', 'palette']
+const CAPSULE_BUFFS = ['overclock', 'dataSurge']
+
+// Seconds between one capsule leaving the screen (opened or drifted off) and the next one appearing
+const CAPSULE_SPAWN_SECONDS = 60
+
+const BY_ID = Object.fromEntries(RARITIES.map(r => [r.id, r]))
+
+function getRarity(id) {
+  return BY_ID[id]
+}
+
+function getCapsuleColor(id) {
+  return CAPSULE_COLORS.find(c => c.id === id)
+}
+
+// Pick one key of `weights` (non-positive weights never win). rng defaults to Math.random.
+function pickWeighted(weights, rng) {
+  const keys = Object.keys(weights).filter(k => weights[k] > 0)
+  const total = keys.reduce((sum, k) => sum + weights[k], 0)
+  let r = (rng || Math.random)() * total
+  for (const k of keys) {
+    r -= weights[k]
+    if (r < 0) return k
+  }
+  return keys[keys.length - 1]
+}
+
+function rollRarity(rng) {
+  return BY_ID[pickWeighted(Object.fromEntries(RARITIES.map(r => [r.id, r.weight])), rng)]
+}
+
+// One reward for opening a capsule of `rarityId`. locked lists what is still locked:
+// { sprites: string[], colors: string[], effects: string[] }.
+function rollReward(rarityId, locked, rng) {
+  const roll = rng || Math.random
+  const rarity = BY_ID[rarityId] || RARITIES[0]
+  const pools = { sprite: (locked && locked.sprites) || [], color: (locked && locked.colors) || [], effect: (locked && locked.effects) || [] }
+  const weights = { ...rarity.rewards }
+  for (const kind of Object.keys(pools)) if (pools[kind].length === 0) weights[kind] = 0
+  const kind = pickWeighted(weights, roll)
+  const from = list => list[Math.floor(roll() * list.length) % list.length]
+  if (kind === 'iq') return { kind, amount: rarity.iq }
+  if (kind === 'buff') return { kind, buff: from(CAPSULE_BUFFS), mult: rarity.buff.mult, seconds: rarity.buff.seconds }
+  if (kind === 'color') return { kind, color: from(pools.color) }
+  if (kind === 'effect') return { kind, effect: from(pools.effect) }
+  if (kind === 'sprite') return { kind, sprite: from(pools.sprite) }
+  return { kind: 'tokens', seconds: rarity.tokenSeconds, min: rarity.tokenMin }
+}
+
+// Tokens paid by a tokens reward at the given passive income
+function capsuleTokens(reward, tokensPerSec) {
+  return Math.max(reward.min, Math.floor(reward.seconds * Math.max(0, tokensPerSec || 0)))
+}
+
+module.exports = {
+  RARITIES,
+  CAPSULE_COLORS,
+  CAPSULE_EFFECTS,
+  CAPSULE_SPAWN_SECONDS,
+  getRarity,
+  getCapsuleColor,
+  rollRarity,
+  rollReward,
+  capsuleTokens,
+}
@@ -0,0 +1,81 @@
+// Active capture tools for Clustering Galaxy, picked from the tool strip over the canvas.
+// Plain JS so tests can read it; typed view lives in constants/captureTools.ts.
+//
+// A tool goes on cooldown (wall-clock seconds) as soon as it is used:
+//   lasso        draw a loop on the canvas; every outlier inside it is captured
+//   gravityWell  pick a core; for `seconds` it pulls outliers in and captures the ones that reach it
+
+const TOOLS = [
+  { id: 'lasso', label: 'Lasso', icon: '➰', cooldown: 30, description: 'Draw a loop to capture every outlier inside it' },
+  { id: 'gravityWell', label: 'Gravity Well', icon: '🌀', cooldown: 45, seconds: 6, description: 'Pick a core to pull outliers into it for 6s' },
+]
+
+// Fewer path samples than this is a scribble, not a loop (no capture, no cooldown)
+const LASSO_MIN_POINTS = 6
+// Path samples kept while drawing; further points are ignored
+const LASSO_MAX_POINTS = 600
+// Gravity well pull (px/s²), top speed (px/s), and the distance from the core that counts as reaching it
+const WELL_PULL = 420
+const WELL_MAX_SPEED = 360
+const WELL_CAPTURE_RADIUS = 30
+
+const BY_ID = Object.fromEntries(TOOLS.map(t => [t.id, t]))
+
+function getTool(id) {
+  return BY_ID[id]
+}
+
+function isToolId(v) {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(BY_ID, v)
+}
+
+// Epoch ms each tool is ready again; 0 means ready
+function emptyCooldowns() {
+  return Object.fromEntries(TOOLS.map(t => [t.id, 0]))
+}
+
+function cooldownLeft(readyAt, now) {
+  return Math.max(0, ((readyAt || 0) - now) / 1000)
+}
+
+function startCooldown(cooldowns, id, now) {
+  return { ...cooldowns, [id]: now + BY_ID[id].cooldown * 1000 }
+}
+
+// Even-odd test against the path closed back to its first point
+function pointInPath(x, y, path) {
+  let inside = false
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    const a = path[i]
+    const b = path[j]
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+  }
+  return inside
+}
+
+// One step of an outlier's velocity toward a well at (dx, dy) from it, capped at WELL_MAX_SPEED
+function wellVelocity(vx, vy, dx, dy, dt) {
+  const d = Math.hypot(dx, dy) || 1
+  let nvx = vx + (dx / d) * WELL_PULL * dt
+  let nvy = vy + (dy / d) * WELL_PULL * dt
+  const speed = Math.hypot(nvx, nvy)
+  if (speed > WELL_MAX_SPEED) {
+    nvx *= WELL_MAX_SPEED / speed
+    nvy *= WELL_MAX_SPEED / speed
+  }
+  return { vx: nvx, vy: nvy }
+}
+
+module.exports = {
+  TOOLS,
+  LASSO_MIN_POINTS,
+  LASSO_MAX_POINTS,
+  WELL_CAPTURE_RADIUS,
+  getTool,
+  isToolId,
+  emptyCooldowns,
+  cooldownLeft,
+  startCooldown,
+  pointInPath,
+  wellVelocity,
+}
@@ -0,0 +1,68 @@
+// Core levels for Clustering Galaxy: one row per level a core can reach.
+// Plain JS so tests can read it; typed view lives in constants/coreLevels.ts.
+//
+// Cores start at L1 and level up every 10 captures. A core at the top level holds for a lineage
+// split instead. The top level starts at BASE_MAX_LEVEL; each Deep Layers level (upgradeRegistry.js)
+// raises it by one, up to LEVEL_CAP (the last row).
+//   rate       passive tokens/s per core, before multipliers
+//   colorIndex slot in the renderer's color table (5..9 for L1-L5, 16+ after the lineage colors)
+//   color      default core color; Cosmetics can override it per level
+//   stack      visible cores of this level before new ones stack (stackHigh in high quality mode)
+//   orbit      orbit radius of captured data (virtual units), plus up to `span` random spread
+
+const CORE_LEVELS = [
+  { level: 1, rate: 1, colorIndex: 5, color: '#3b82f6', stack: 30, stackHigh: 500, orbit: 22, span: 8 },
+  { level: 2, rate: 2, colorIndex: 6, color: '#6366f1', stack: 32, stackHigh: 500, orbit: 26, span: 8 },
+  { level: 3, rate: 4, colorIndex: 7, color: '#8b5cf6', stack: 34, stackHigh: 500, orbit: 30, span: 8 },
+  { level: 4, rate: 6, colorIndex: 8, color: '#a855f7', stack: 36, stackHigh: 500, orbit: 34, span: 8 },
+  { level: 5, rate: 8, colorIndex: 9, color: '#c084fc', stack: 40, stackHigh: 500, orbit: 38, span: 10 },
+  { level: 6, rate: 12, colorIndex: 16, color: '#e879f9', stack: 40, stackHigh: 500, orbit: 42, span: 10 },
+  { level: 7, rate: 18, colorIndex: 17, color: '#f472b6', stack: 40, stackHigh: 500, orbit: 46, span: 10 },
+  { level: 8, rate: 26, colorIndex: 18, color: '#fb7185', stack: 40, stackHigh: 500, orbit: 50, span: 12 },
+  { level: 9, rate: 38, colorIndex: 19, color: '#fbbf24', stack: 40, stackHigh: 500, orbit: 54, span: 12 },
+  { level: 10, rate: 55, colorIndex: 20, color: '#fde68a', stack: 40, stackHigh: 500, orbit: 58, span: 12 },
+]
+
+const BASE_MAX_LEVEL = 5
+const LEVEL_CAP = CORE_LEVELS.length
+
+// Top core level with `extraLevels` Deep Layers levels bought
+function maxCoreLevel(extraLevels) {
+  const extra = Math.max(0, Math.floor(Number(extraLevels) || 0))
+  return Math.min(LEVEL_CAP, BASE_MAX_LEVEL + extra)
+}
+
+// Any value to a whole level in 1..max (max defaults to LEVEL_CAP)
+function clampLevel(level, max) {
+  const top = Math.max(1, Math.min(LEVEL_CAP, Math.floor(Number(max) || LEVEL_CAP)))
+  const n = Math.floor(Number(level) || 1)
+  return Math.max(1, Math.min(top, n))
+}
+
+function levelRow(level) {
+  return CORE_LEVELS[clampLevel(level) - 1]
+}
+
+// Level whose colorIndex this is (1 when it isn't a core color)
+function levelForColorIndex(idx) {
+  const row = CORE_LEVELS.find(r => r.colorIndex === idx)
+  return row ? row.level : 1
+}
+
+// Per-level list padded with `fill(level)` (or trimmed) to exactly `count` entries
+function padLevels(list, count, fill) {
+  const out = Array.isArray(list) ? list.slice(0, count) : []
+  for (let lvl = out.length + 1; lvl <= count; lvl++) out.push(fill(lvl))
+  return out
+}
+
+module.exports = {
+  CORE_LEVELS,
+  BASE_MAX_LEVEL,
+  LEVEL_CAP,
+  maxCoreLevel,
+  clampLevel,
+  levelRow,
+  levelForColorIndex,
+  padLevels,
+}
@@ -0,0 +1,92 @@
+// Cosmetic shop for Clustering Galaxy: locked core sprites, special effects and extra ambient color slots.
+// Plain JS so tests can read it; typed view lives in constants/cosmeticShop.ts.
+//
+// Every item has a loot capsule rarity (capsules.js), and the rarity sets the price: Common and Rare
+// items cost tokens, Epic and Legendary cost IQ. Purchases are saved in galaxy.cosmetics:
+//   sprite       unlockedSprites (the same list capsules and cosmetic tokens add to)
+//   effect       unlockedEffects; a special effect can only be switched on once owned
+//   ambientSlot  ambientSlots, the number of ambient data colors in use; slots are bought in order
+
+const PRICES = {
+  common: { currency: 'tokens', amount: 2500 },
+  rare: { currency: 'tokens', amount: 25000 },
+  epic: { currency: 'iq', amount: 5 },
+  legendary: { currency: 'iq', amount: 15 },
+}
+
+// Sprite rarities; sprites not listed are common and 'database' is never sold
+const SPRITE_RARITY = {
+  star: 'rare', hexagon: 'rare', pentagon: 'rare', octagon: 'rare', chevron: 'rare',
+  fire: 'rare', sparkles: 'rare', hundred: 'rare', cool: 'rare',
+  angel: 'epic', hearts: 'epic', rocket: 'epic',
+  unicorn: 'legendary',
+}
+
+const SHOP_EFFECTS = [
+  { id: 'customShift', label: 'Custom Shift', rarity: 'rare' },
+  { id: 'rgbNeon', label: 'RGB Neon', rarity: 'epic' },
+]
+
+const BASE_AMBIENT_SLOTS = 1
+const MAX_AMBIENT_SLOTS = 3
+const AMBIENT_SLOT_RARITY = { 2: 'common', 3: 'rare' }
+
+// Every shop item for a sprite catalog ([{ id, name }], constants/sprites.ts in the app)
+function buildShop(sprites) {
+  const items = []
+  for (const s of sprites) {
+    if (s.id === 'database') continue
+    items.push({ id: `sprite:${s.id}`, kind: 'sprite', target: s.id, label: s.name, rarity: SPRITE_RARITY[s.id] || 'common' })
+  }
+  for (const e of SHOP_EFFECTS) {
+    items.push({ id: `effect:${e.id}`, kind: 'effect', target: e.id, label: e.label, rarity: e.rarity })
+  }
+  for (let slot = BASE_AMBIENT_SLOTS + 1; slot <= MAX_AMBIENT_SLOTS; slot++) {
+    items.push({ id: `ambient:${slot}`, kind: 'ambientSlot', target: String(slot), label: `Ambient Color ${slot}`, rarity: AMBIENT_SLOT_RARITY[slot] })
+  }
+  return items
+}
+
+function itemPrice(item) {
+  return PRICES[item.rarity] || PRICES.common
+}
+
+// owned: { sprites: string[], effects: string[], ambientSlots: number }
+function isOwned(item, owned) {
+  if (item.kind === 'sprite') return owned.sprites.includes(item.target)
+  if (item.kind === 'effect') return owned.effects.includes(item.target)
+  return owned.ambientSlots >= Number(item.target)
+}
+
+// Why an item can't be bought right now (ignoring price), or null
+function purchaseBlocker(item, owned) {
+  if (isOwned(item, owned)) return 'Owned'
+  if (item.kind === 'ambientSlot' && owned.ambientSlots < Number(item.target) - 1) return `Needs Ambient Color ${Number(item.target) - 1}`
+  return null
+}
+
+// Effects owned by a saved cosmetics object. Saves from before the shop have no unlockedEffects
+// list; effects they already had switched on stay theirs.
+function ownedEffects(cos) {
+  if (Array.isArray(cos && cos.unlockedEffects)) return cos.unlockedEffects.filter(id => SHOP_EFFECTS.some(e => e.id === id))
+  const on = (cos && cos.specialEffects) || {}
+  return SHOP_EFFECTS.filter(e => on[e.id] === true).map(e => e.id)
+}
+
+function ambientSlots(cos) {
+  const n = Math.floor(Number(cos && cos.ambientSlots) || BASE_AMBIENT_SLOTS)
+  return Math.max(BASE_AMBIENT_SLOTS, Math.min(MAX_AMBIENT_SLOTS, n))
+}
+
+module.exports = {
+  PRICES,
+  SHOP_EFFECTS,
+  BASE_AMBIENT_SLOTS,
+  MAX_AMBIENT_SLOTS,
+  buildShop,
+  itemPrice,
+  isOwned,
+  purchaseBlocker,
+  ownedEffects,
+  ambientSlots,
+}
@@ -0,0 +1,95 @@
+// Outlier drop tables for Clustering Galaxy, one per tier (1=Bronze .. 5=Epic).
+// Plain JS so tests can read it; typed view lives in constants/dropTables.ts.
+//
+// Every entry rolls independently against its `chance` (1 = always):
+//   tokens         multiplies the capture's base token gain (several hits multiply together)
+//   iq             grants IQ directly
+//   buff           starts or refreshes a temporary buff from BUFFS
+//   cosmeticToken  grants cosmetic unlock tokens, each redeemable for one locked core sprite
+
+const BUFFS = {
+  overclock: { id: 'overclock', label: 'Overclock', target: 'click', description: 'Click and collect yield boosted' },
+  dataSurge: { id: 'dataSurge', label: 'Data Surge', target: 'passive', description: 'Core passive income boosted' },
+}
+
+const DROP_TABLES = {
+  1: {
+    tier: 1, name: 'Bronze', color: '#cd7f32', shards: 1,
+    entries: [
+      { kind: 'tokens', chance: 1, mult: 1 },
+      { kind: 'tokens', chance: 0.05, mult: 2 },
+    ],
+  },
+  2: {
+    tier: 2, name: 'Silver', color: '#c0c0c0', shards: 2,
+    entries: [
+      { kind: 'tokens', chance: 1, mult: 1.25 },
+      { kind: 'iq', chance: 0.02, amount: 1 },
+      { kind: 'buff', chance: 0.03, buff: 'overclock', mult: 2, seconds: 15 },
+    ],
+  },
+  3: {
+    tier: 3, name: 'Gold', color: '#ffd700', shards: 3,
+    entries: [
+      { kind: 'tokens', chance: 1, mult: 1.5 },
+      { kind: 'iq', chance: 0.05, amount: 1 },
+      { kind: 'buff', chance: 0.06, buff: 'overclock', mult: 2, seconds: 20 },
+      { kind: 'buff', chance: 0.04, buff: 'dataSurge', mult: 2, seconds: 20 },
+    ],
+  },
+  4: {
+    tier: 4, name: 'Rare', color: '#3b82f6', shards: 5,
+    entries: [
+      { kind: 'tokens', chance: 1, mult: 2 },
+      { kind: 'iq', chance: 0.12, amount: 1 },
+      { kind: 'buff', chance: 0.1, buff: 'overclock', mult: 2, seconds: 30 },
+      { kind: 'buff', chance: 0.08, buff: 'dataSurge', mult: 2, seconds: 30 },
+      { kind: 'cosmeticToken', chance: 0.02, amount: 1 },
+    ],
+  },
+  5: {
+    tier: 5, name: 'Epic', color: '#7c3aed', shards: 8,
+    entries: [
+      { kind: 'tokens', chance: 1, mult: 3 },
+      { kind: 'tokens', chance: 0.1, mult: 3 },
+      { kind: 'iq', chance: 0.25, amount: 2 },
+      { kind: 'buff', chance: 0.15, buff: 'overclock', mult: 3, seconds: 45 },
+      { kind: 'buff', chance: 0.15, buff: 'dataSurge', mult: 3, seconds: 45 },
+      { kind: 'cosmeticToken', chance: 0.08, amount: 1 },
+    ],
+  },
+}
+
+function dropTable(tier) {
+  const t = Math.max(1, Math.min(5, Math.floor(tier) || 1))
+  return DROP_TABLES[t]
+}
+
+// Roll one captured outlier. rng defaults to Math.random; tests pass a fixed sequence.
+function rollDrops(tier, rng) {
+  const roll = rng || Math.random
+  const table = dropTable(tier)
+  const out = { tier: table.tier, shards: table.shards, tokenMult: 1, iq: 0, buffs: [], cosmeticTokens: 0 }
+  for (const e of table.entries) {
+    if (e.chance < 1 && roll() >= e.chance) continue
+    if (e.kind === 'tokens') out.tokenMult *= e.mult
+    else if (e.kind === 'iq') out.iq += e.amount
+    else if (e.kind === 'buff') out.buffs.push({ id: e.buff, mult: e.mult, seconds: e.seconds })
+    else if (e.kind === 'cosmeticToken') out.cosmeticTokens += e.amount
+  }
+  return out
+}
+
+// Refresh rule for a buff that is already running: keep the stronger multiplier and the later expiry
+function mergeBuff(active, mult, endsAt) {
+  if (!active) return { mult, endsAt }
+  return { mult: Math.max(active.mult, mult), endsAt: Math.max(active.endsAt, endsAt) }
+}
+
+module.exports = {
+  BUFFS,
+  DROP_TABLES,
+  dropTable,
+  rollDrops,
+  mergeBuff,
+}
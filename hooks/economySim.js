@@ -0,0 +1,436 @@
+// Headless economy simulation for Clustering Galaxy: plays a fresh save for N hours without a canvas.
+// Plain JS so node scripts and tests can run it; scripts/simulate-economy.mjs is the CLI.
+//
+// Mirrors the hook's economy from the same tables it reads: bronze spawn timer and 5s tier rolls,
+// outlier cap and screen crossing time, drop tables and buffs, combos, Mini-Batch, auto collect,
+// core leveling, lineage splits, stacking thresholds and passive income. Left out on purpose:
+// timed events, loot capsules, capture tools, achievements, research and Retrain. A pacing preset
+// (hooks/pacing.js) can be applied; its attraction value has no effect here because captures land at once.
+//
+// A strategy plays the save:
+//   id / label        report keys
+//   clickDelay(rng)   seconds until the player clicks a new outlier, or null to let it fly by
+//   buy(sim)          called once per step; spends through sim.buy(id) / sim.canBuy(id)
+//   lineage(sim)      lineage for a core waiting to split, or null to leave it waiting
+
+const { spawnIntervalBase, MIN_SPAWN_INTERVAL, comboMultiplier } = require('./galaxyMath.js')
+const { UPGRADES, getUpgrade, levelCost, remainingLevels, prerequisitesMet } = require('./upgradeRegistry.js')
+const { rollDrops, mergeBuff } = require('./dropTables.js')
+const { levelRow } = require('./coreLevels.js')
+const { CLICK_BONUS_CAP, lineagePassiveMult, lineageClickMult } = require('./lineages.js')
+const { DEFAULT_MODS } = require('./galaxyEvents.js')
+const { pacingValues, scaleCost } = require('./pacing.js')
+
+const CLICK_BASE = 3
+const TIER_ROLL_SECONDS = 5
+const TIER_UNLOCKS = [[2, 'silver'], [3, 'gold'], [4, 'rare'], [5, 'epic']]
+// Outliers cross the screen at 75-100 px/s from just outside one edge
+const OUTLIER_SPEED_MIN = 75
+const OUTLIER_SPEED_MAX = 100
+const EDGE_PAD = 28
+
+// Upgrades a strategy may buy: cosmetic unlocks and research-gated ones are skipped
+const NON_ECONOMY = ['autobuyer', 'confetti', 'palette', 'dataQuality']
+const ECONOMY_UPGRADES = UPGRADES.filter(d => d.currency !== 'weights' && !d.research && !NON_ECONOMY.includes(d.id)).map(d => d.id)
+
+const SAMPLE_FIELDS = ['t', 'tokens', 'iq', 'earned', 'tokensPerSec', 'passivePerSec', 'captures', 'cores', 'topLevel', 'splits']
+
+// Seeded generator (mulberry32) so runs are repeatable
+function createRng(seed) {
+  let a = (Number(seed) >>> 0) || 1
+  return function rng() {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function between(rng, lo, hi) {
+  return lo + rng() * (hi - lo)
+}
+
+// Whether one more level changes anything (tier chances stop at 100%, Data Ingest at the spawn floor)
+function improves(sim, id) {
+  const def = getUpgrade(id)
+  if (remainingLevels(id, sim.level(id), sim.pace) <= 0) return false
+  return def.effect(sim.level(id) + 1) !== def.effect(sim.level(id))
+}
+
+// Cheapest upgrade in `ids` that still does something (and is affordable unless `anyPrice`), or null
+function cheapestAffordable(sim, ids, anyPrice = false) {
+  let best = null
+  let bestCost = Infinity
+  for (const id of ids) {
+    if (!(anyPrice ? sim.canBuy(id, true) : sim.canBuy(id)) || !improves(sim, id)) continue
+    const cost = sim.costOf(id)
+    if (cost < bestCost) { best = id; bestCost = cost }
+  }
+  return best
+}
+
+const TOKEN_BUYS = ECONOMY_UPGRADES.filter(id => getUpgrade(id).currency === 'tokens')
+const IQ_BUYS = ECONOMY_UPGRADES.filter(id => getUpgrade(id).currency === 'iq')
+
+const STRATEGIES = {
+  // Never clicks; checks in to buy and to pick lineages, so income is passive plus auto collect
+  idle: {
+    id: 'idle',
+    label: 'Idle',
+    clickDelay: () => null,
+    buy(sim) {
+      const id = cheapestAffordable(sim, ['computeMult', 'autoCollect'])
+      if (id) sim.buy(id)
+    },
+    lineage: () => 'ensemble',
+  },
+  // Catches most outliers after a few seconds and buys one upgrade at a time, cheapest first
+  casual: {
+    id: 'casual',
+    label: 'Casual clicker',
+    clickDelay: (rng) => (rng() < 0.7 ? between(rng, 1.5, 5) : null),
+    buy(sim) {
+      const id = cheapestAffordable(sim, TOKEN_BUYS) || cheapestAffordable(sim, IQ_BUYS)
+      if (id) sim.buy(id)
+    },
+    lineage: (sim) => (sim.rng() < 0.5 ? 'transformer' : 'ensemble'),
+  },
+  // Clicks every outlier quickly and spends tokens as soon as it can, cheapest first. IQ is saved
+  // for Compute Multiplier and Deep Layers until both are maxed, then goes to the cheapest upgrade.
+  optimal: {
+    id: 'optimal',
+    label: 'Optimal buyer',
+    clickDelay: (rng) => between(rng, 0.3, 0.8),
+    buy(sim) {
+      for (let guard = 0; guard < 50; guard++) {
+        const saveFor = cheapestAffordable(sim, ['computeMult', 'deepLayers'], true)
+        const id = cheapestAffordable(sim, TOKEN_BUYS) || (saveFor ? (sim.canBuy(saveFor) ? saveFor : null) : cheapestAffordable(sim, IQ_BUYS))
+        if (!id || !sim.buy(id)) break
+      }
+    },
+    // Transformer cores until the click bonus is capped, then Ensemble for passive income
+    lineage: (sim) => (lineageClickMult(sim.lineageCounts()) < 1 + CLICK_BONUS_CAP ? 'transformer' : 'ensemble'),
+  },
+}
+
+function getStrategy(id) {
+  return STRATEGIES[id]
+}
+
+// Play one fresh save. opts: { strategy (id or object), hours, seed, step, sampleEvery, width, height, quality,
+// pacing (preset id, or values over Standard) }
+function simulateEconomy(opts = {}) {
+  const strategy = typeof opts.strategy === 'object' && opts.strategy ? opts.strategy : STRATEGIES[opts.strategy || 'casual']
+  if (!strategy) throw new Error(`Unknown strategy: ${opts.strategy}`)
+  const hours = Math.max(0, Number(opts.hours) || 1)
+  const seed = opts.seed == null ? 1 : opts.seed
+  const step = Math.max(0.01, Number(opts.step) || 0.1)
+  const sampleEvery = Math.max(step, Number(opts.sampleEvery) || 60)
+  const width = Number(opts.width) || 1280
+  const height = Number(opts.height) || 720
+  const stackKey = opts.quality === 'low' ? 'stack' : 'stackHigh'
+  const pace = typeof opts.pacing === 'string' ? pacingValues({ preset: opts.pacing }) : { ...pacingValues(null), ...(opts.pacing || {}) }
+  const rng = createRng(seed)
+  const duration = hours * 3600
+
+  const levels = {}
+  const lvl = (id) => levels[id] || 0
+  const effect = (id) => getUpgrade(id).effect(lvl(id))
+  const wallet = { tokens: 0, iq: 0 }
+
+  let t = 0
+  let cores = [{ level: 1, progress: 0, stackCount: 1, lineage: undefined, awaitingLineage: false }]
+  let outliers = [] // { tier, leavesAt, clickAt }
+  let spawnCooldown = 0
+  const tierTimers = { 2: 0, 3: 0, 4: 0, 5: 0 }
+  let autoAcc = 0
+  const combo = { streak: 0, lastAt: -Infinity }
+  const buffs = {}
+  let lastSpawnAt = null
+  const spawnGaps = []
+
+  const totals = { earned: 0, clickTokens: 0, passiveTokens: 0, captures: 0, splits: 0, purchases: 0 }
+  const milestones = {}
+  const firstPurchase = {}
+  const mark = (id) => { if (milestones[id] == null) milestones[id] = round(t) }
+
+  const samples = []
+  let nextSample = 0
+  let windowStartEarned = 0
+
+  function buffMult(target) {
+    let m = 1
+    for (const id in buffs) {
+      const b = buffs[id]
+      if (b.endsAt > t && b.target === target) m *= b.mult
+    }
+    return m
+  }
+
+  function lineageCounts() {
+    const counts = { transformer: 0, ensemble: 0 }
+    for (const c of cores) if (c.lineage) counts[c.lineage] += c.stackCount
+    return counts
+  }
+
+  function coreCount() {
+    return cores.reduce((n, c) => n + c.stackCount, 0)
+  }
+
+  function topLevel() {
+    return cores.reduce((m, c) => Math.max(m, c.level), 1)
+  }
+
+  function passivePerSec() {
+    const mult = effect('computeMult') * effect('passiveBoost') * buffMult('passive') * pace.passiveMult
+    let sum = 0
+    for (const c of cores) sum += levelRow(c.level).rate * lineagePassiveMult(c.lineage) * c.stackCount
+    return sum * mult
+  }
+
+  function earn(amount, kind) {
+    wallet.tokens += amount
+    totals.earned += amount
+    if (kind === 'click') totals.clickTokens += amount
+    else totals.passiveTokens += amount
+    if (wallet.tokens >= 1e3) mark('tokens1k')
+    if (wallet.tokens >= 1e6) mark('tokens1m')
+  }
+
+  function gainIq(amount) {
+    wallet.iq += amount
+    if (amount > 0) mark('firstIq')
+  }
+
+  function levelUp(c) {
+    c.level += 1
+    mark(`coreL${c.level}`)
+  }
+
+  // One captured data point lands on a core: the hook sends it to the nearest core, here a random one
+  function addProgress(points) {
+    for (let k = 0; k < points; k++) {
+      const c = cores[(rng() * cores.length) | 0]
+      c.progress += 1
+      if (c.progress < 10) continue
+      c.progress -= 10
+      if (c.level < effect('deepLayers')) levelUp(c)
+      else if (!c.awaitingLineage) {
+        gainIq(1)
+        c.awaitingLineage = true
+        c.progress = 10
+      } else c.progress = 10
+    }
+  }
+
+  function splitCore(c, lineage) {
+    c.awaitingLineage = false
+    c.lineage = lineage
+    c.level = 1
+    c.progress = 0
+    c.stackCount = 1
+    totals.splits += 1
+    mark('firstSplit')
+    const child = { level: 1, progress: 0, stackCount: 1, lineage, awaitingLineage: false }
+    // Past the level's visible threshold new cores join the least-stacked core instead
+    const same = cores.filter(o => o.level === 1)
+    if (same.length >= levelRow(1)[stackKey]) {
+      const least = same.reduce((m, o) => (o.stackCount < m.stackCount ? o : m), same[0])
+      least.stackCount += 1
+    } else cores.push(child)
+  }
+
+  function capture(o, source) {
+    const comboMult = source === 'click' ? advanceCombo() : source === 'batch' ? comboMultiplier(combo.streak) : 1
+    const drops = rollDrops(o.tier, rng)
+    const pieces = source === 'click' ? drops.shards : 1
+    const baseGain = source === 'click' ? (CLICK_BASE + effect('clickYield')) * pieces : source === 'auto' ? CLICK_BASE + effect('clickYield') : 1
+    const gain = baseGain * drops.tokenMult * comboMult * effect('clickBoost') * lineageClickMult(lineageCounts()) * buffMult('click')
+    earn(gain, 'click')
+    gainIq(drops.iq)
+    for (const b of drops.buffs) {
+      const target = b.id === 'dataSurge' ? 'passive' : 'click'
+      buffs[b.id] = { ...mergeBuff(buffs[b.id], b.mult, t + b.seconds), target }
+    }
+    totals.captures += 1
+    mark('firstCapture')
+    addProgress(pieces)
+  }
+
+  function advanceCombo() {
+    combo.streak = t - combo.lastAt <= effect('comboWindow') ? combo.streak + 1 : 1
+    combo.lastAt = t
+    return comboMultiplier(combo.streak)
+  }
+
+  function spawn(tier) {
+    const crossing = (width + EDGE_PAD * 2) / between(rng, OUTLIER_SPEED_MIN, OUTLIER_SPEED_MAX)
+    const delay = strategy.clickDelay(rng)
+    outliers.push({ tier, leavesAt: t + crossing, clickAt: delay == null ? Infinity : t + delay })
+  }
+
+  const sim = {
+    rng,
+    pace,
+    get t() { return t },
+    get tokens() { return wallet.tokens },
+    get iq() { return wallet.iq },
+    level: lvl,
+    effect,
+    lineageCounts,
+    coreCount,
+    costOf(id) {
+      const cost = levelCost(id, lvl(id))
+      return getUpgrade(id).currency === 'tokens' ? scaleCost(cost, pace.tokenCostMult) : cost
+    },
+    // Open for purchase and affordable (`anyPrice` skips the balance check)
+    canBuy(id, anyPrice = false) {
+      const def = getUpgrade(id)
+      if (!def || remainingLevels(id, lvl(id), pace) <= 0 || !prerequisitesMet(id, lvl)) return false
+      return anyPrice || (def.currency === 'iq' ? wallet.iq : wallet.tokens) >= sim.costOf(id)
+    },
+    buy(id) {
+      if (!sim.canBuy(id)) return false
+      const def = getUpgrade(id)
+      const cost = sim.costOf(id)
+      if (def.currency === 'iq') wallet.iq -= cost
+      else wallet.tokens -= cost
+      levels[id] = lvl(id) + 1
+      totals.purchases += 1
+      if (firstPurchase[id] == null) firstPurchase[id] = round(t)
+      if (def.currency === 'tokens') mark('firstUpgrade')
+      // A higher max level releases cores held for a split at the old one
+      if (id === 'deepLayers') {
+        for (const c of cores) {
+          if (c.awaitingLineage && c.level < effect('deepLayers')) {
+            c.awaitingLineage = false
+            c.progress = 0
+            levelUp(c)
+          }
+        }
+      }
+      return true
+    },
+  }
+
+  function sample() {
+    const windowSeconds = samples.length ? t - samples[samples.length - 1].t : 0
+    samples.push({
+      t: round(t),
+      tokens: round(wallet.tokens),
+      iq: wallet.iq,
+      earned: round(totals.earned),
+      tokensPerSec: windowSeconds > 0 ? round((totals.earned - windowStartEarned) / windowSeconds) : 0,
+      passivePerSec: round(passivePerSec()),
+      captures: totals.captures,
+      cores: coreCount(),
+      topLevel: topLevel(),
+      splits: totals.splits,
+    })
+    windowStartEarned = totals.earned
+  }
+
+  // Time is counted in whole steps so samples land on their marks
+  for (let n = 1; t < duration - 1e-9; n++) {
+    if (t >= nextSample - 1e-9) { sample(); nextSample += sampleEvery }
+
+    // Bronze waves on the spawn timer, capped by outliers already on screen
+    spawnCooldown -= step
+    if (spawnCooldown <= 0) {
+      const interval = Math.max(MIN_SPAWN_INTERVAL, spawnIntervalBase(pace.spawnBase, lvl('spawnRate')))
+      const toSpawn = Math.min(effect('spawnQty') * DEFAULT_MODS.bronzeSpawnMult, Math.max(0, DEFAULT_MODS.outlierCap - outliers.length))
+      for (let s = 0; s < toSpawn; s++) spawn(1)
+      if (toSpawn > 0) {
+        if (lastSpawnAt != null) spawnGaps.push(t - lastSpawnAt)
+        lastSpawnAt = t
+      }
+      spawnCooldown = between(rng, interval * 0.6, interval * 1.4)
+    }
+    for (const [tier, name] of TIER_UNLOCKS) {
+      tierTimers[tier] -= step
+      if (tierTimers[tier] > 0) continue
+      if (lvl(`${name}Unlock`) > 0) {
+        if (rng() < effect(`${name}ChanceUp`)) spawn(tier)
+        tierTimers[tier] += TIER_ROLL_SECONDS
+      }
+    }
+
+    // Player clicks, with Mini-Batch sweeping up neighbors by screen-area odds
+    const reach = effect('batchCollect')
+    const batchOdds = reach > 0 ? Math.min(1, (Math.PI * reach * reach) / (width * height)) : 0
+    outliers = outliers.filter(o => o.leavesAt > t)
+    let clicked = outliers.find(o => o.clickAt <= t)
+    while (clicked) {
+      outliers.splice(outliers.indexOf(clicked), 1)
+      capture(clicked, 'click')
+      const swept = outliers.filter(() => rng() < batchOdds)
+      outliers = outliers.filter(o => !swept.includes(o))
+      for (const o of swept) capture(o, 'batch')
+      clicked = outliers.find(o => o.clickAt <= t)
+    }
+
+    if (lvl('autoCollect') > 0) {
+      autoAcc += step
+      const interval = effect('autoCollect')
+      while (autoAcc >= interval) {
+        autoAcc -= interval
+        if (outliers.length) capture(outliers.shift(), 'auto')
+      }
+    }
+
+    earn(passivePerSec() * step, 'passive')
+
+    for (const c of cores) {
+      if (!c.awaitingLineage) continue
+      const lineage = strategy.lineage(sim)
+      if (lineage) splitCore(c, lineage)
+    }
+    strategy.buy(sim)
+    t = n * step
+  }
+  if (t >= nextSample - 1e-9) sample()
+
+  return {
+    strategy: strategy.id,
+    label: strategy.label,
+    seed,
+    hours,
+    pacing: pace,
+    milestones,
+    firstPurchase,
+    spawnGaps: summarize(spawnGaps),
+    totals: { ...totals, earned: round(totals.earned), clickTokens: round(totals.clickTokens), passiveTokens: round(totals.passiveTokens) },
+    final: { tokens: round(wallet.tokens), iq: wallet.iq, cores: coreCount(), topLevel: topLevel(), levels: { ...levels } },
+    samples,
+  }
+}
+
+function summarize(list) {
+  if (!list.length) return { count: 0, mean: 0, min: 0, max: 0 }
+  const sum = list.reduce((s, v) => s + v, 0)
+  return { count: list.length, mean: round(sum / list.length), min: round(Math.min(...list)), max: round(Math.max(...list)) }
+}
+
+function round(v) {
+  return Math.round(v * 100) / 100
+}
+
+// Income curves as CSV: one row per sample, `strategy` first so several runs can share a file
+function samplesToCsv(reports) {
+  const rows = [['strategy', ...SAMPLE_FIELDS].join(',')]
+  for (const r of reports) {
+    for (const s of r.samples) rows.push([r.strategy, ...SAMPLE_FIELDS.map(f => s[f])].join(','))
+  }
+  return rows.join('\n') + '\n'
+}
+
+module.exports = {
+  STRATEGIES,
+  ECONOMY_UPGRADES,
+  SAMPLE_FIELDS,
+  createRng,
+  getStrategy,
+  simulateEconomy,
+  samplesToCsv,
+}
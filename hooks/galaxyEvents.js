@@ -0,0 +1,131 @@
+// Timed galaxy events for Clustering Galaxy: world modifiers the scheduler in `simulate` starts now and then.
+// Plain JS so tests can read it; typed view lives in constants/galaxyEvents.ts.
+//
+// Times are wall-clock epoch ms so the persisted schedule (galaxy.events) survives reloads:
+// reloading never brings the next event or an event's own cooldown any closer.
+
+const EVENTS = [
+  {
+    id: 'dataStorm',
+    label: 'Data Storm',
+    description: 'Bronze spawns ×3 and up to 25 outliers on screen',
+    seconds: 45,
+    cooldownSeconds: 600,
+    weight: 3,
+    mods: { bronzeSpawnMult: 3, outlierCap: 25 },
+  },
+  {
+    id: 'gradientExplosion',
+    label: 'Gradient Explosion',
+    description: 'Core passive rate ×2',
+    seconds: 30,
+    cooldownSeconds: 600,
+    weight: 2,
+    mods: { levelRateMult: 2 },
+  },
+  {
+    id: 'vanishingGradient',
+    label: 'Vanishing Gradient',
+    description: 'Captured data drifts into cores at 40% speed',
+    seconds: 40,
+    cooldownSeconds: 900,
+    weight: 2,
+    mods: { captureSpeedMult: 0.4 },
+  },
+]
+
+const DEFAULT_MODS = { bronzeSpawnMult: 1, outlierCap: 10, levelRateMult: 1, captureSpeedMult: 1 }
+
+// Quiet time between one event ending and the next starting (seconds)
+const GAP_MIN = 180
+const GAP_MAX = 420
+// A fresh save waits a little before its first event
+const FIRST_DELAY = 120
+
+const BY_ID = Object.fromEntries(EVENTS.map(e => [e.id, e]))
+
+function getEvent(id) {
+  return BY_ID[id]
+}
+
+function isEventId(v) {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(BY_ID, v)
+}
+
+// Modifiers in force while `activeId` runs (defaults when nothing is active)
+function eventMods(activeId) {
+  const e = BY_ID[activeId]
+  return e ? { ...DEFAULT_MODS, ...e.mods } : { ...DEFAULT_MODS }
+}
+
+function nextGapMs(rng) {
+  const roll = rng || Math.random
+  return Math.round((GAP_MIN + roll() * (GAP_MAX - GAP_MIN)) * 1000)
+}
+
+// Weighted pick among events whose cooldown has passed; undefined when all are cooling down
+function pickEvent(cooldowns, now, rng) {
+  const roll = rng || Math.random
+  const ready = EVENTS.filter(e => !(cooldowns && cooldowns[e.id] > now))
+  const total = ready.reduce((n, e) => n + e.weight, 0)
+  if (total <= 0) return undefined
+  let r = roll() * total
+  for (const e of ready) {
+    r -= e.weight
+    if (r < 0) return e
+  }
+  return ready[ready.length - 1]
+}
+
+function initialSchedule(now) {
+  return { nextAt: now + FIRST_DELAY * 1000, active: null, cooldowns: {} }
+}
+
+// Accepts whatever was stored under galaxy.events; anything malformed falls back to a fresh schedule
+function sanitizeSchedule(raw, now) {
+  if (!raw || typeof raw !== 'object' || !Number.isFinite(raw.nextAt)) return initialSchedule(now)
+  const cooldowns = {}
+  if (raw.cooldowns && typeof raw.cooldowns === 'object') {
+    for (const e of EVENTS) {
+      const v = raw.cooldowns[e.id]
+      if (Number.isFinite(v)) cooldowns[e.id] = v
+    }
+  }
+  const a = raw.active
+  const active = a && isEventId(a.id) && Number.isFinite(a.endsAt) ? { id: a.id, endsAt: a.endsAt } : null
+  return { nextAt: raw.nextAt, active, cooldowns }
+}
+
+// Advance the schedule to `now`. Returns the (possibly new) schedule plus what changed, if anything.
+function stepSchedule(schedule, now, rng) {
+  if (schedule.active) {
+    if (now < schedule.active.endsAt) return { schedule, started: null, ended: null }
+    const ended = schedule.active.id
+    return { schedule: { ...schedule, active: null, nextAt: now + nextGapMs(rng) }, started: null, ended }
+  }
+  if (now < schedule.nextAt) return { schedule, started: null, ended: null }
+  const e = pickEvent(schedule.cooldowns, now, rng)
+  if (!e) return { schedule: { ...schedule, nextAt: now + nextGapMs(rng) }, started: null, ended: null }
+  const endsAt = now + e.seconds * 1000
+  return {
+    schedule: {
+      nextAt: endsAt,
+      active: { id: e.id, endsAt },
+      cooldowns: { ...schedule.cooldowns, [e.id]: endsAt + e.cooldownSeconds * 1000 },
+    },
+    started: e.id,
+    ended: null,
+  }
+}
+
+module.exports = {
+  EVENTS,
+  DEFAULT_MODS,
+  getEvent,
+  isEventId,
+  eventMods,
+  pickEvent,
+  initialSchedule,
+  sanitizeSchedule,
+  stepSchedule,
+}
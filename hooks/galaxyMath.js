@@ -1,13 +1,6 @@
 // Lightweight shared math utilities for Clustering Galaxy
 // Plain JS so tests can run without extra tooling.
 
-const UPGRADE_BASES = {
-  spawnRate: 25,
-  spawnQty: 180,
-  clickYield: 50,
-  batchCollect: 120,
-}
-
 function clamp(v, lo, hi) {
   return Math.max(lo, Math.min(hi, v))
 }
@@ -17,36 +10,114 @@ function cost(base, level) {
   return Math.round(base * Math.pow(1.6, level))
 }
 
-function upgradeCost(key, level) {
-  const base = UPGRADE_BASES[key]
-  return cost(base, level)
+function geometricBulkCost(base, growth, level, qty) {
+  // Closed-form sum of base * growth^i for i in [level, level + qty)
+  if (qty <= 0) return 0
+  if (growth === 1) return base * qty
+  return Math.round(base * Math.pow(growth, level) * (Math.pow(growth, qty) - 1) / (growth - 1))
+}
+
+function maxAffordable(base, growth, level, budget, maxQty) {
+  // Invert the closed-form sum, then correct for float error at the boundary
+  const cap = maxQty == null ? Infinity : Math.max(0, maxQty)
+  if (budget <= 0 || cap <= 0) return 0
+  const first = base * Math.pow(growth, level)
+  let n = growth === 1
+    ? Math.floor(budget / base)
+    : Math.floor(Math.log(budget * (growth - 1) / first + 1) / Math.log(growth))
+  n = Math.max(0, Math.min(cap, n))
+  while (n > 0 && geometricBulkCost(base, growth, level, n) > budget) n--
+  while (n < cap && geometricBulkCost(base, growth, level, n + 1) <= budget) n++
+  return n
 }
 
 function spawnIntervalBase(baseSpawnSeconds, spawnRateLevel) {
-  // BASE_SPAWN / (1 + spawnRate*0.15)
-  const factor = 1 + spawnRateLevel * 0.15
+  // BASE_SPAWN / (1 + spawnRate*0.2), matching the spawnRate registry effect
+  const factor = 1 + spawnRateLevel * 0.2
   return baseSpawnSeconds / factor
 }
 
-function offlineTrickle(clustersCount, computeMult, minutes) {
-  // small fraction of expected passive earnings, capped at 30 minutes
-  const m = clamp(minutes, 0, 30)
-  const perSec = 1 * Math.max(1, computeMult) * Math.max(1, clustersCount)
-  const raw = perSec * 60 * m * 0.12
-  return Math.floor(raw)
+// Bronze waves never come faster than this, whatever Data Ingest says
+const MIN_SPAWN_INTERVAL = 2.5
+
+function spawnRateCap(baseSpawnSeconds) {
+  // Data Ingest levels that still shorten the interval: the first level at the floor is the last useful one
+  let level = 0
+  while (spawnIntervalBase(baseSpawnSeconds, level) > MIN_SPAWN_INTERVAL) level++
+  return level
+}
+
+function autoCollectRate(intervalSeconds, spawnPerSecond) {
+  // Auto-collect grabs one data per interval, but only when something has spawned to grab
+  if (!(intervalSeconds > 0)) return 0
+  return Math.min(1 / intervalSeconds, Math.max(0, spawnPerSecond || 0))
+}
+
+// Loads less than this long after the last save earn nothing offline; the live session already paid for it
+const OFFLINE_MIN_SECONDS = 60
+
+function offlineAwaySeconds(savedAt, now) {
+  // Seconds since the save was written; 0 for short reloads, a missing stamp or a clock that went backwards
+  if (!Number.isFinite(savedAt) || savedAt <= 0) return 0
+  const away = (now - savedAt) / 1000
+  return away >= OFFLINE_MIN_SECONDS ? away : 0
+}
+
+function offlineEarnings(passivePerSec, autoPerSec, awaySeconds, capSeconds, efficiency) {
+  // Credit time away up to the cap, paid at a fraction of the live passive + auto-collect rates
+  const away = Math.max(0, awaySeconds || 0)
+  const credited = Math.min(away, Math.max(0, capSeconds || 0))
+  const eff = clamp(efficiency || 0, 0, 1)
+  const passive = Math.floor(Math.max(0, passivePerSec || 0) * credited * eff)
+  const auto = Math.floor(Math.max(0, autoPerSec || 0) * credited * eff)
+  return { awaySeconds: away, creditedSeconds: credited, capped: away > credited, efficiency: eff, passive, auto, total: passive + auto }
+}
+
+function batchCollectRadius(level) {
+  // Neighborhood reach in px around a clicked outlier: none at level 0, then 60px +20px per level
+  const lvl = Math.max(0, Math.floor(level || 0))
+  return lvl > 0 ? 60 + 20 * lvl : 0
+}
+
+function comboWindowSeconds(level) {
+  // 1.5s to chain the next manual capture, +0.25s per Momentum level
+  return 1.5 + 0.25 * Math.max(0, level || 0)
+}
+
+function comboMultiplier(streak) {
+  // +10% per chained capture after the first, cap at x3 (a 21-capture streak)
+  const chained = Math.max(0, Math.floor(streak || 0) - 1)
+  return Math.min(3, 1 + 0.1 * chained)
+}
+
+function mergeStacks(targetStack, draggedStack) {
+  // Same-level cores fuse pairwise: a + b cores -> floor((a + b) / 2) next-level cores, odd one left over
+  const total = Math.max(1, targetStack || 1) + Math.max(1, draggedStack || 1)
+  return { fused: Math.floor(total / 2), leftover: total % 2 }
 }
 
-function batchCollectChance(level) {
-  // 10% per level, cap at 100%
-  return clamp(0.1 * level, 0, 1)
+function retrainWeights(totalEverCollected, peakCores) {
+  // Lifetime Weights potential: sqrt of data collected (per 1k), scaled by log10 of peak core count
+  const collected = Math.max(0, totalEverCollected || 0)
+  const peak = Math.max(1, peakCores || 0)
+  return Math.floor(Math.sqrt(collected / 1000) * (1 + Math.log10(peak)))
 }
 
 module.exports = {
   clamp,
   cost,
-  upgradeCost,
+  geometricBulkCost,
+  maxAffordable,
   spawnIntervalBase,
-  offlineTrickle,
-  batchCollectChance,
-  UPGRADE_BASES,
+  MIN_SPAWN_INTERVAL,
+  spawnRateCap,
+  autoCollectRate,
+  OFFLINE_MIN_SECONDS,
+  offlineAwaySeconds,
+  offlineEarnings,
+  batchCollectRadius,
+  comboWindowSeconds,
+  comboMultiplier,
+  mergeStacks,
+  retrainWeights,
 }
@@ -0,0 +1,57 @@
+// Core lineages for Clustering Galaxy: picked when an L5 core splits, inherited by both children.
+// Plain JS so tests can read it; typed view lives in constants/lineages.ts.
+//
+// passiveMult scales the core's own passive income (per stacked core).
+// clickBonusPerCore adds to a global click multiplier for every core of the lineage, up to CLICK_BONUS_CAP.
+
+const CLICK_BONUS_CAP = 2.5
+
+const LINEAGES = [
+  {
+    id: 'transformer',
+    label: 'Transformer',
+    description: 'Attention-heavy cores. Each one adds +10% click yield (up to +250%), but runs at 80% passive rate.',
+    color: '#f472b6',
+    passiveMult: 0.8,
+    clickBonusPerCore: 0.1,
+  },
+  {
+    id: 'ensemble',
+    label: 'Ensemble',
+    description: 'Many weak learners voting together. Each one produces +50% passive tokens; no click bonus.',
+    color: '#2dd4bf',
+    passiveMult: 1.5,
+    clickBonusPerCore: 0,
+  },
+]
+
+const BY_ID = Object.fromEntries(LINEAGES.map(l => [l.id, l]))
+
+function getLineage(id) {
+  return BY_ID[id]
+}
+
+function isLineage(v) {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(BY_ID, v)
+}
+
+function lineagePassiveMult(id) {
+  const l = BY_ID[id]
+  return l ? l.passiveMult : 1
+}
+
+// counts: { [lineageId]: cores of that lineage, stacks included }
+function lineageClickMult(counts) {
+  let bonus = 0
+  for (const l of LINEAGES) bonus += Math.max(0, (counts && counts[l.id]) || 0) * l.clickBonusPerCore
+  return 1 + Math.min(CLICK_BONUS_CAP, bonus)
+}
+
+module.exports = {
+  LINEAGES,
+  CLICK_BONUS_CAP,
+  getLineage,
+  isLineage,
+  lineagePassiveMult,
+  lineageClickMult,
+}
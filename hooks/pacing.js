@@ -0,0 +1,90 @@
+// Pacing presets for Clustering Galaxy: runtime overrides for the game's tempo, picked in Settings.
+// Plain JS so tests can read it; typed view lives in constants/pacing.ts.
+//
+// Every preset sets the same four values (Standard is the tuning in GAME_CONFIG):
+//   spawnBase      seconds between bronze waves before Data Ingest (GAME_CONFIG.BASE_SPAWN)
+//   attraction     multiplier on how fast captured data is pulled into its core
+//   passiveMult    multiplier on core passive income, live and offline
+//   tokenCostMult  multiplier on token upgrade prices (the first upgrade tier)
+// The choice is saved in galaxy.pacing as { preset, custom }; `custom` holds the values used by the
+// Custom preset and is kept when another preset is picked.
+
+const PACING_KEYS = ['spawnBase', 'attraction', 'passiveMult', 'tokenCostMult']
+
+const PACING_PRESETS = [
+  { id: 'calm', label: 'Calm', description: 'Slower spawns and gentler pull, for leaving it open in the background', values: { spawnBase: 8, attraction: 0.8, passiveMult: 1, tokenCostMult: 1.15 } },
+  { id: 'standard', label: 'Standard', description: 'The default tuning', values: { spawnBase: 6, attraction: 1, passiveMult: 1, tokenCostMult: 1 } },
+  { id: 'lively', label: 'Lively', description: 'More data on screen and cheaper early upgrades', values: { spawnBase: 4.5, attraction: 1.25, passiveMult: 1.25, tokenCostMult: 0.85 } },
+  { id: 'fast', label: 'Fast', description: 'A quick tour of the whole game in one visit', values: { spawnBase: 3, attraction: 1.5, passiveMult: 2, tokenCostMult: 0.6 } },
+]
+
+const DEFAULT_PRESET = 'standard'
+
+// Custom editor sliders: range, step and label per value
+const PACING_LIMITS = {
+  spawnBase: { label: 'Spawn interval', unit: 's', min: 2.5, max: 15, step: 0.5 },
+  attraction: { label: 'Attraction', unit: '×', min: 0.5, max: 3, step: 0.05 },
+  passiveMult: { label: 'Passive income', unit: '×', min: 0.5, max: 5, step: 0.05 },
+  tokenCostMult: { label: 'Token upgrade cost', unit: '×', min: 0.25, max: 2, step: 0.05 },
+}
+
+const BY_ID = Object.fromEntries(PACING_PRESETS.map(p => [p.id, p]))
+
+function getPreset(id) {
+  return BY_ID[id]
+}
+
+function isPacingPresetId(v) {
+  return v === 'custom' || (typeof v === 'string' && Object.prototype.hasOwnProperty.call(BY_ID, v))
+}
+
+// A value for `key` inside its editor range, snapped to the step; anything unreadable falls back to Standard
+function clampPacingValue(key, v) {
+  const lim = PACING_LIMITS[key]
+  const n = Number(v)
+  if (!lim || !Number.isFinite(n)) return BY_ID[DEFAULT_PRESET].values[key]
+  const snapped = Math.round(n / lim.step) * lim.step
+  return Math.max(lim.min, Math.min(lim.max, Math.round(snapped * 100) / 100))
+}
+
+function defaultPacing() {
+  return { preset: DEFAULT_PRESET, custom: { ...BY_ID[DEFAULT_PRESET].values } }
+}
+
+// Whatever was stored under galaxy.pacing
+function sanitizePacing(raw) {
+  const out = defaultPacing()
+  if (!raw || typeof raw !== 'object') return out
+  if (isPacingPresetId(raw.preset)) out.preset = raw.preset
+  const custom = raw.custom && typeof raw.custom === 'object' ? raw.custom : {}
+  for (const key of PACING_KEYS) {
+    if (custom[key] != null) out.custom[key] = clampPacingValue(key, custom[key])
+  }
+  return out
+}
+
+// Values in effect for a saved pacing choice
+function pacingValues(save) {
+  const s = sanitizePacing(save)
+  return s.preset === 'custom' ? { ...s.custom } : { ...BY_ID[s.preset].values }
+}
+
+// Token price of an upgrade costing `cost` at Standard pacing
+function scaleCost(cost, mult) {
+  if (!(cost > 0)) return cost
+  return Math.max(1, Math.round(cost * (mult > 0 ? mult : 1)))
+}
+
+module.exports = {
+  PACING_KEYS,
+  PACING_PRESETS,
+  PACING_LIMITS,
+  DEFAULT_PRESET,
+  getPreset,
+  isPacingPresetId,
+  clampPacingValue,
+  defaultPacing,
+  sanitizePacing,
+  pacingValues,
+  scaleCost,
+}
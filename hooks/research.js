@@ -0,0 +1,133 @@
+// Research projects for Clustering Galaxy: IQ is paid up front, then a project takes real time to finish.
+// Plain JS so tests can read it; typed view lives in constants/research.ts.
+//
+// The queue runs one project at a time. Times are wall-clock epoch ms, so projects keep running
+// while the game is closed: on load, every project whose time has passed completes, each one
+// starting where the previous one ended.
+// bonus: { kind: 'click' | 'passive' | 'offline', pct } applies once the project completes
+// (offline adds pct points of offline efficiency). unlocks: registry upgrade gated on this project.
+
+const RESEARCH = [
+  { id: 'dropout', label: 'Dropout', description: 'Passive tokens +10%', iq: 3, seconds: 180, requires: [], bonus: { kind: 'passive', pct: 10 } },
+  { id: 'attention', label: 'Attention Mechanism', description: 'Unlocks the Multi-Head Attention upgrade', iq: 5, seconds: 300, requires: [], unlocks: 'attentionHeads' },
+  { id: 'residual', label: 'Residual Connections', description: 'Offline efficiency +10%', iq: 10, seconds: 600, requires: ['dropout'], bonus: { kind: 'offline', pct: 10 } },
+  { id: 'selfSupervised', label: 'Self-Supervised Learning', description: 'Click tokens +20%', iq: 15, seconds: 900, requires: ['attention'], bonus: { kind: 'click', pct: 20 } },
+  { id: 'rlhf', label: 'RLHF', description: 'Passive tokens +25%', iq: 25, seconds: 1800, requires: ['attention', 'residual'], bonus: { kind: 'passive', pct: 25 } },
+]
+
+// Projects that can wait in the queue at once (the running one included)
+const QUEUE_SIZE = 3
+
+const BY_ID = Object.fromEntries(RESEARCH.map(r => [r.id, r]))
+
+function getResearch(id) {
+  return BY_ID[id]
+}
+
+function isResearchId(v) {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(BY_ID, v)
+}
+
+function emptyResearch() {
+  return { completed: [], queue: [] }
+}
+
+// Whatever was stored under galaxy.research. Unknown, finished and duplicate projects are dropped;
+// a head without a valid end time starts now.
+function sanitizeResearch(raw, now) {
+  const completed = Array.isArray(raw && raw.completed) ? Array.from(new Set(raw.completed.filter(isResearchId))) : []
+  const queue = []
+  const saved = Array.isArray(raw && raw.queue) ? raw.queue : []
+  for (const e of saved) {
+    if (queue.length >= QUEUE_SIZE) break
+    if (!e || !isResearchId(e.id) || completed.includes(e.id) || queue.some(q => q.id === e.id)) continue
+    queue.push({ id: e.id, endsAt: null })
+  }
+  if (queue.length > 0) {
+    const head = saved.find(e => e && e.id === queue[0].id)
+    queue[0].endsAt = Number.isFinite(head.endsAt) ? head.endsAt : now + BY_ID[queue[0].id].seconds * 1000
+  }
+  return { completed, queue }
+}
+
+function isResearched(completed, id) {
+  return Array.isArray(completed) && completed.includes(id)
+}
+
+// Why `id` can't be queued right now, or null when it can. Prerequisites may still be in the queue ahead of it.
+function queueBlocker(state, id) {
+  const def = BY_ID[id]
+  if (!def) return 'Unknown project'
+  if (state.completed.includes(id)) return 'Already researched'
+  if (state.queue.some(q => q.id === id)) return 'Already queued'
+  if (state.queue.length >= QUEUE_SIZE) return 'Queue full'
+  const missing = def.requires.find(req => !state.completed.includes(req) && !state.queue.some(q => q.id === req))
+  if (missing) return `Requires ${BY_ID[missing].label}`
+  return null
+}
+
+// Append `id`; a project added to an empty queue starts immediately
+function enqueue(state, id, now) {
+  const endsAt = state.queue.length === 0 ? now + BY_ID[id].seconds * 1000 : null
+  return { ...state, queue: [...state.queue, { id, endsAt }] }
+}
+
+// Remove `id` and any later project that needed it. Returns the new state and every removed id (for refunds).
+function cancel(state, id, now) {
+  const removed = []
+  const queue = []
+  for (const q of state.queue) {
+    const def = BY_ID[q.id]
+    if (q.id === id || def.requires.some(req => removed.includes(req))) removed.push(q.id)
+    else queue.push({ ...q })
+  }
+  if (removed.length === 0) return { state, removed }
+  if (queue.length > 0 && queue[0].endsAt == null) queue[0].endsAt = now + BY_ID[queue[0].id].seconds * 1000
+  return { state: { ...state, queue }, removed }
+}
+
+// Complete every project whose time has passed; the next one starts where the previous one ended
+function stepResearch(state, now) {
+  if (state.queue.length === 0 || now < state.queue[0].endsAt) return { state, finished: [] }
+  const finished = []
+  const queue = state.queue.map(q => ({ ...q }))
+  while (queue.length > 0 && now >= queue[0].endsAt) {
+    const done = queue.shift()
+    finished.push(done.id)
+    if (queue.length > 0) queue[0].endsAt = done.endsAt + BY_ID[queue[0].id].seconds * 1000
+  }
+  return { state: { completed: [...state.completed, ...finished], queue }, finished }
+}
+
+// 0..1 for the running project, 0 for anything still waiting
+function researchProgress(entry, now) {
+  if (!entry || entry.endsAt == null) return 0
+  const total = BY_ID[entry.id].seconds * 1000
+  return Math.max(0, Math.min(1, 1 - (entry.endsAt - now) / total))
+}
+
+// 1 + the summed bonus percentages of completed projects of this kind
+function researchBonus(completed, kind) {
+  let pct = 0
+  for (const id of completed || []) {
+    const r = BY_ID[id]
+    if (r && r.bonus && r.bonus.kind === kind) pct += r.bonus.pct
+  }
+  return 1 + pct / 100
+}
+
+module.exports = {
+  RESEARCH,
+  QUEUE_SIZE,
+  getResearch,
+  isResearchId,
+  emptyResearch,
+  sanitizeResearch,
+  isResearched,
+  queueBlocker,
+  enqueue,
+  cancel,
+  stepResearch,
+  researchProgress,
+  researchBonus,
+}
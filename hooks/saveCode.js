@@ -0,0 +1,240 @@
+// Save codes for Clustering Galaxy: a whole save as one short line of text for chat or notes.
+// Plain JS so tests can read it; typed view lives in constants/saveCode.ts.
+//
+// A code is CODE_PREFIX followed by base64url bytes:
+//   varint  length of the compressed payload in bytes
+//   varint  length of the minified JSON in bytes
+//   bytes   the minified save document (UTF-8), LZW-compressed
+//   4 bytes CRC-32 of the minified JSON, big-endian
+// The lengths let a cut-off code be told apart from a mistyped one before anything is decompressed.
+// Cores are stored without x/y (they are re-placed on load anyway) and savedAt is dropped.
+// Decoded documents go through validateSave() like any other import.
+
+const { validateSave, parseSave } = require('./saveDocument.js')
+
+const CODE_VERSION = 1
+const CODE_PREFIX = `GX${CODE_VERSION}.`
+
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+const B64_INDEX = Object.fromEntries([...B64].map((c, i) => [c, i]))
+
+// LZW dictionary tops out at 16-bit codes; later input reuses the full dictionary
+const LZW_MAX_CODES = 1 << 16
+// Far above any real save; a damaged length field can't make the decoder allocate more than this
+const MAX_JSON_BYTES = 8 * 1024 * 1024
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    t[n] = c >>> 0
+  }
+  return t
+})()
+
+function crc32(bytes) {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// Bits needed for the i-th code: both sides know the dictionary holds 256 + i entries at that point
+function codeWidth(i) {
+  const size = Math.min(256 + i, LZW_MAX_CODES)
+  return Math.max(8, Math.ceil(Math.log2(size)))
+}
+
+function lzwCompress(bytes) {
+  const out = []
+  let acc = 0
+  let bits = 0
+  let emitted = 0
+  const emit = code => {
+    const width = codeWidth(emitted++)
+    acc += code * Math.pow(2, bits)
+    bits += width
+    while (bits >= 8) {
+      out.push(acc & 0xff)
+      acc = Math.floor(acc / 256)
+      bits -= 8
+    }
+  }
+  const dict = new Map()
+  let next = 256
+  let w = -1
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i]
+    if (w < 0) { w = b; continue }
+    const key = w * 256 + b
+    const hit = dict.get(key)
+    if (hit !== undefined) { w = hit; continue }
+    emit(w)
+    if (next < LZW_MAX_CODES) dict.set(key, next++)
+    w = b
+  }
+  if (w >= 0) emit(w)
+  if (bits > 0) out.push(acc & 0xff)
+  return Uint8Array.from(out)
+}
+
+// Inverse of lzwCompress; throws on a code that cannot occur in a valid stream
+function lzwDecompress(data, expectedLength) {
+  const out = new Uint8Array(expectedLength)
+  let len = 0
+  const entries = [] // entries[code - 256] = byte sequence
+  const seq = code => (code < 256 ? [code] : entries[code - 256])
+  let acc = 0
+  let bits = 0
+  let pos = 0
+  let read = 0
+  let prev = null
+  while (len < expectedLength) {
+    const width = codeWidth(read++)
+    while (bits < width) {
+      if (pos >= data.length) throw new Error('ran out of data')
+      acc += data[pos++] * Math.pow(2, bits)
+      bits += 8
+    }
+    const code = acc % Math.pow(2, width)
+    acc = Math.floor(acc / Math.pow(2, width))
+    bits -= width
+    let cur
+    if (code < 256 + entries.length) cur = seq(code)
+    else if (prev && code === 256 + entries.length) cur = [...prev, prev[0]]
+    else throw new Error('bad code')
+    if (prev && 256 + entries.length < LZW_MAX_CODES) entries.push([...prev, cur[0]])
+    if (len + cur.length > expectedLength) throw new Error('longer than expected')
+    out.set(cur, len)
+    len += cur.length
+    prev = cur
+  }
+  return out
+}
+
+function pushVarint(out, n) {
+  while (n >= 0x80) {
+    out.push((n & 0x7f) | 0x80)
+    n = Math.floor(n / 0x80)
+  }
+  out.push(n)
+}
+
+function readVarint(bytes, pos) {
+  let n = 0
+  let scale = 1
+  for (let i = pos; i < bytes.length && i < pos + 5; i++) {
+    n += (bytes[i] & 0x7f) * scale
+    if (!(bytes[i] & 0x80)) return { value: n, next: i + 1 }
+    scale *= 0x80
+  }
+  return null
+}
+
+function toBase64Url(bytes) {
+  let s = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6))
+    for (let k = 0; k < chars; k++) s += B64[(n >> (18 - 6 * k)) & 63]
+  }
+  return s
+}
+
+function fromBase64Url(text) {
+  const out = []
+  let acc = 0
+  let bits = 0
+  for (const c of text) {
+    acc = ((acc << 6) | B64_INDEX[c]) & 0xffffff
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      out.push((acc >> bits) & 0xff)
+    }
+  }
+  return Uint8Array.from(out)
+}
+
+// The document as it goes into a code: no write stamp, cores without positions
+function compactDoc(doc) {
+  const { savedAt, ...rest } = doc
+  if (Array.isArray(rest.coreData)) rest.coreData = rest.coreData.map(({ x, y, ...core }) => core)
+  return rest
+}
+
+function encodeSaveCode(doc) {
+  const json = new TextEncoder().encode(JSON.stringify(compactDoc(doc)))
+  const packed = lzwCompress(json)
+  const out = []
+  pushVarint(out, packed.length)
+  pushVarint(out, json.length)
+  for (const b of packed) out.push(b)
+  const crc = crc32(json)
+  out.push(crc >>> 24, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff)
+  return CODE_PREFIX + toBase64Url(out)
+}
+
+function isSaveCode(text) {
+  return /^GX\d+\./.test(String(text).trim())
+}
+
+const fail = message => ({ doc: null, errors: [`code: ${message}`] })
+
+// Code text -> { doc, errors }, with one specific message for whatever is wrong with the code itself
+function decodeSaveCode(text) {
+  // Chat apps wrap long lines, so whitespace anywhere is ignored
+  const code = String(text).replace(/\s+/g, '')
+  const head = /^GX(\d+)\./.exec(code)
+  if (!head) return fail(`not a save code; codes start with "${CODE_PREFIX}"`)
+  const version = parseInt(head[1], 10)
+  if (version !== CODE_VERSION) {
+    return fail(version > CODE_VERSION ? `made by a newer version of the game (code v${version}, this build reads v${CODE_VERSION})` : `unknown code version v${version}`)
+  }
+  const body = code.slice(head[0].length)
+  const badAt = [...body].findIndex(c => B64_INDEX[c] === undefined)
+  if (badAt >= 0) return fail(`"${body[badAt]}" at character ${head[0].length + badAt + 1} is not part of a save code; check for typos`)
+  const bytes = fromBase64Url(body)
+  const packedLen = readVarint(bytes, 0)
+  const jsonLen = packedLen && readVarint(bytes, packedLen.next)
+  if (!packedLen || !jsonLen) return fail('the code is too short; copy it again')
+  const total = jsonLen.next + packedLen.value + 4
+  if (bytes.length < total) {
+    const missing = Math.ceil(((total - bytes.length) * 8) / 6)
+    return fail(`the code is cut off: about ${missing} character${missing === 1 ? '' : 's'} missing at the end`)
+  }
+  if (bytes.length > total) return fail('there is extra text after the code')
+  if (jsonLen.value > MAX_JSON_BYTES) return fail('the code is damaged; check for typos')
+  const crc = ((bytes[total - 4] << 24) | (bytes[total - 3] << 16) | (bytes[total - 2] << 8) | bytes[total - 1]) >>> 0
+  let json
+  try {
+    json = lzwDecompress(bytes.subarray(jsonLen.next, total - 4), jsonLen.value)
+  } catch {
+    return fail('the code is damaged (it does not decompress); check for typos')
+  }
+  if (crc32(json) !== crc) return fail('checksum mismatch; a character was changed or mistyped')
+  let raw
+  try {
+    raw = JSON.parse(new TextDecoder().decode(json))
+  } catch {
+    return fail('the code decodes to something that is not a save')
+  }
+  return validateSave(raw)
+}
+
+// What the import box accepts: a save code, or an exported JSON save
+function parseSaveText(text) {
+  return isSaveCode(text) ? decodeSaveCode(text) : parseSave(text)
+}
+
+module.exports = {
+  CODE_VERSION,
+  CODE_PREFIX,
+  crc32,
+  lzwCompress,
+  lzwDecompress,
+  encodeSaveCode,
+  decodeSaveCode,
+  isSaveCode,
+  parseSaveText,
+}
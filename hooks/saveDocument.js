@@ -0,0 +1,294 @@
+// Versioned save document for Clustering Galaxy: the whole save lives under one key and is written in one go.
+// Plain JS so tests can read it; typed view lives in constants/saveDocument.ts.
+//
+// Stored under galaxy.save as JSON:
+//   version   schema version of the document (SAVE_VERSION when written by this build)
+//   savedAt   ms timestamp of the write
+//   ...       the saved fields, same names as the old loose keys (tokens, iq, upgrades, coreData, cosmetics...)
+// Big numbers (tokens, iq, totalEverCollected) keep their serialized string form. Anything missing falls
+// back to the hook's defaults, and the hook still sanitizes every field it reads.
+//
+// MIGRATIONS[v] turns a version v document into version v + 1. Version 0 is the legacy layout: one
+// localStorage key per field, read by readLegacy() into { version: 0, keys }.
+// Every function takes a Storage-like object (getItem / setItem / removeItem) so node tests can pass a stub.
+//
+// Exported saves are the same document as pretty JSON. Imports go through validateSave(), which checks
+// every field against SAVE_SCHEMA and reports each problem as "field: message".
+
+const { parse } = require('./bigNumber.js')
+const { LEVEL_CAP } = require('./coreLevels.js')
+const { isLineage } = require('./lineages.js')
+const { isPacingPresetId } = require('./pacing.js')
+
+const SAVE_KEY = 'galaxy.save'
+const SAVE_VERSION = 1
+
+// Legacy key per field and how its string was written
+const LEGACY_FIELDS = {
+  tokens: { key: 'galaxy.tokens', kind: 'text' },
+  iq: { key: 'galaxy.iq', kind: 'text' },
+  totalEverCollected: { key: 'galaxy.totalEverCollected', kind: 'text' },
+  notation: { key: 'galaxy.notation', kind: 'text' },
+  lastSeen: { key: 'galaxy.lastSeen', kind: 'number' },
+  weights: { key: 'galaxy.weights', kind: 'number' },
+  weightsEarned: { key: 'galaxy.weightsEarned', kind: 'number' },
+  retrains: { key: 'galaxy.retrains', kind: 'number' },
+  cosmeticTokens: { key: 'galaxy.cosmeticTokens', kind: 'number' },
+  maxTotalCores: { key: 'galaxy.maxTotalCores', kind: 'number' },
+  dragAndDropEnabled: { key: 'galaxy.dragAndDropEnabled', kind: 'bool' },
+  upgrades: { key: 'galaxy.upgrades', kind: 'json' },
+  iqUpgrades: { key: 'galaxy.iqUpgrades', kind: 'json' },
+  weightUpgrades: { key: 'galaxy.weightUpgrades', kind: 'json' },
+  coreData: { key: 'galaxy.coreData', kind: 'json' },
+  cosmetics: { key: 'galaxy.cosmetics', kind: 'json' },
+  achievements: { key: 'galaxy.achievements', kind: 'json' },
+  autobuyer: { key: 'galaxy.autobuyer', kind: 'json' },
+  research: { key: 'galaxy.research', kind: 'json' },
+  events: { key: 'galaxy.events', kind: 'json' },
+  pacing: { key: 'galaxy.pacing', kind: 'json' },
+}
+
+const LEGACY_KEYS = Object.values(LEGACY_FIELDS).map(f => f.key)
+
+// Settings that survive "Clear save"
+const KEEP_ON_CLEAR = ['notation', 'pacing']
+
+function legacyValue(kind, raw) {
+  if (kind === 'text') return raw
+  if (kind === 'bool') return raw === 'true'
+  if (kind === 'number') {
+    const n = Number(raw)
+    return Number.isFinite(n) ? n : undefined
+  }
+  try { return JSON.parse(raw) } catch { return undefined }
+}
+
+const MIGRATIONS = [
+  // 0 -> 1: loose galaxy.* keys into one document; unreadable values are dropped so defaults apply
+  (doc) => {
+    const keys = doc.keys && typeof doc.keys === 'object' ? doc.keys : {}
+    const out = { version: 1 }
+    for (const [field, { key, kind }] of Object.entries(LEGACY_FIELDS)) {
+      if (typeof keys[key] !== 'string') continue
+      const value = legacyValue(kind, keys[key])
+      if (value !== undefined) out[field] = value
+    }
+    return out
+  },
+]
+
+// Same ids as NOTATIONS in constants/bigNumber.ts
+const NOTATION_IDS = ['suffix', 'scientific', 'engineering']
+
+const isObject = v => v != null && typeof v === 'object' && !Array.isArray(v)
+const isCount = v => Number.isInteger(v) && v >= 0
+
+// Field checks for imports: each returns null when the value is usable, else what was expected.
+// A problem inside the value starts with its path (".spawnRate: ...", "[3].level: ...").
+const atPath = (path, err) => (err[0] === '.' || err[0] === '[' ? path + err : `${path}: ${err}`)
+
+const checkBig = v => (typeof v === 'string' && parse(v, null) !== null && !v.trim().startsWith('-') ? null : 'expected a non-negative number string like "1234" or "1.5e30"')
+const checkCount = v => (isCount(v) ? null : 'expected a whole number of 0 or more')
+const checkObject = v => (isObject(v) ? null : 'expected an object')
+const checkStrings = v => (Array.isArray(v) && v.every(x => typeof x === 'string') ? null : 'expected a list of strings')
+
+function checkLevels(v, allowFlags) {
+  if (!isObject(v)) return 'expected an object of upgrade levels'
+  for (const [id, lvl] of Object.entries(v)) {
+    if (!isCount(lvl) && !(allowFlags && typeof lvl === 'boolean')) return `.${id}: expected a whole number of 0 or more${allowFlags ? ' or true/false' : ''}`
+  }
+  return null
+}
+
+function checkCore(c) {
+  if (!isObject(c)) return 'expected an object'
+  if (!Number.isInteger(c.level) || c.level < 1 || c.level > LEVEL_CAP) return `.level: expected a whole number from 1 to ${LEVEL_CAP}`
+  if (c.stackCount != null && !(Number.isInteger(c.stackCount) && c.stackCount >= 1)) return '.stackCount: expected a whole number of 1 or more'
+  if (c.lineage != null && !isLineage(c.lineage)) return `.lineage: unknown lineage "${c.lineage}"`
+  if (c.awaitingLineage != null && typeof c.awaitingLineage !== 'boolean') return '.awaitingLineage: expected true or false'
+  return null
+}
+
+function checkCores(v) {
+  if (!Array.isArray(v) || v.length === 0) return 'expected a list of at least one core'
+  for (let i = 0; i < v.length; i++) {
+    const err = checkCore(v[i])
+    if (err) return atPath(`[${i}]`, err)
+  }
+  return null
+}
+
+function checkCosmetics(v) {
+  if (!isObject(v)) return 'expected an object'
+  for (const key of ['coreColors', 'ambientColors', 'coreSprites', 'unlockedSprites', 'unlockedColors', 'unlockedEffects']) {
+    if (v[key] != null && checkStrings(v[key])) return `.${key}: expected a list of strings`
+  }
+  if (v.ambientSlots != null && !isCount(v.ambientSlots)) return '.ambientSlots: expected a whole number of 0 or more'
+  if (v.specialEffects != null && !isObject(v.specialEffects)) return '.specialEffects: expected an object'
+  return null
+}
+
+// How every saved field is checked on import; owners still sanitize the contents when the save is applied
+const SAVE_SCHEMA = {
+  tokens: checkBig,
+  iq: checkBig,
+  totalEverCollected: checkBig,
+  lastSeen: v => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? null : 'expected a timestamp in ms'),
+  upgrades: v => checkLevels(v, false),
+  iqUpgrades: v => checkLevels(v, true),
+  weightUpgrades: v => checkLevels(v, false),
+  weights: checkCount,
+  weightsEarned: checkCount,
+  retrains: checkCount,
+  cosmeticTokens: checkCount,
+  maxTotalCores: checkCount,
+  dragAndDropEnabled: v => (typeof v === 'boolean' ? null : 'expected true or false'),
+  notation: v => (NOTATION_IDS.includes(v) ? null : `expected one of ${NOTATION_IDS.join(', ')}`),
+  coreData: checkCores,
+  cosmetics: checkCosmetics,
+  achievements: checkObject,
+  autobuyer: checkObject,
+  research: checkObject,
+  events: checkObject,
+  pacing: v => (isObject(v) && isPacingPresetId(v.preset) ? null : 'expected { preset, custom } with a known preset'),
+}
+
+function emptySave() {
+  return { version: SAVE_VERSION }
+}
+
+// The legacy keys present in `storage` as a version 0 document, or null when there are none
+function readLegacy(storage) {
+  const keys = {}
+  let found = false
+  for (const key of LEGACY_KEYS) {
+    const raw = storage.getItem(key)
+    if (raw == null) continue
+    keys[key] = raw
+    found = true
+  }
+  return found ? { version: 0, keys } : null
+}
+
+function docVersion(doc) {
+  return Number.isInteger(doc.version) && doc.version >= 0 ? doc.version : 0
+}
+
+// Run a document through every migration from its version up to SAVE_VERSION. Documents from a newer
+// build are returned unchanged and read best-effort.
+function migrate(doc) {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) return emptySave()
+  let out = doc
+  for (let v = docVersion(doc); v < SAVE_VERSION; v++) {
+    out = MIGRATIONS[v](out)
+    out.version = v + 1
+  }
+  return out
+}
+
+function removeLegacy(storage) {
+  for (const key of LEGACY_KEYS) {
+    try { storage.removeItem(key) } catch {}
+  }
+}
+
+// Write the whole document with one setItem; throws whatever storage throws (e.g. quota)
+function writeSave(storage, doc) {
+  const out = { ...doc, version: SAVE_VERSION, savedAt: Date.now() }
+  storage.setItem(SAVE_KEY, JSON.stringify(out))
+  return out
+}
+
+// The current save at SAVE_VERSION. An older document (or legacy keys) is migrated and written back
+// once; the legacy keys are only removed after that write succeeded.
+function loadSave(storage) {
+  let doc = null
+  const raw = storage.getItem(SAVE_KEY)
+  if (raw != null) {
+    try { doc = JSON.parse(raw) } catch {}
+  }
+  if (!doc || typeof doc !== 'object') doc = readLegacy(storage)
+  if (!doc) return emptySave()
+  const from = docVersion(doc)
+  const out = migrate(doc)
+  if (from < SAVE_VERSION) {
+    try {
+      writeSave(storage, out)
+      if (from === 0) removeLegacy(storage)
+    } catch {}
+  }
+  return out
+}
+
+// Check an imported document (already JSON-parsed) and bring it up to SAVE_VERSION.
+// Returns { doc, errors }; doc is null when anything failed, errors lists every problem as "field: message".
+function validateSave(raw) {
+  if (!isObject(raw)) return { doc: null, errors: ['save: expected a JSON object'] }
+  const errors = []
+  if (!isCount(raw.version)) errors.push('version: expected a whole number (is this a Clustering Galaxy save?)')
+  else if (raw.version > SAVE_VERSION) errors.push(`version: save is from a newer version (${raw.version}); this build reads up to ${SAVE_VERSION}`)
+  else if (raw.version === 0) errors.push('version: 0 is the legacy in-browser layout and cannot be imported')
+  if (errors.length) return { doc: null, errors }
+  const migrated = migrate(raw)
+  const doc = { version: SAVE_VERSION }
+  for (const [field, check] of Object.entries(SAVE_SCHEMA)) {
+    if (migrated[field] === undefined) continue
+    const err = check(migrated[field])
+    if (!err) doc[field] = migrated[field]
+    else errors.push(atPath(field, err))
+  }
+  if (migrated.coreData === undefined) errors.push('coreData: missing; a save needs at least one core')
+  return errors.length ? { doc: null, errors } : { doc, errors }
+}
+
+// Import text (an exported save) -> { doc, errors }
+function parseSave(text) {
+  let raw
+  try {
+    raw = JSON.parse(String(text))
+  } catch (e) {
+    return { doc: null, errors: [`save: not valid JSON (${e && e.message ? e.message : e})`] }
+  }
+  return validateSave(raw)
+}
+
+// Export text for a document: pretty JSON at SAVE_VERSION
+function serializeSave(doc) {
+  return JSON.stringify({ ...doc, version: SAVE_VERSION }, null, 2)
+}
+
+// Merge `patch` into the stored document and write it back
+function updateSave(storage, patch) {
+  return writeSave(storage, { ...loadSave(storage), ...patch })
+}
+
+// Start a fresh document that keeps only the settings in KEEP_ON_CLEAR, plus `fields`
+function clearSave(storage, fields) {
+  const doc = loadSave(storage)
+  const next = {}
+  for (const f of KEEP_ON_CLEAR) {
+    if (doc[f] !== undefined) next[f] = doc[f]
+  }
+  removeLegacy(storage)
+  return writeSave(storage, { ...next, ...(fields || {}) })
+}
+
+module.exports = {
+  SAVE_KEY,
+  SAVE_VERSION,
+  LEGACY_FIELDS,
+  LEGACY_KEYS,
+  KEEP_ON_CLEAR,
+  MIGRATIONS,
+  SAVE_SCHEMA,
+  emptySave,
+  readLegacy,
+  migrate,
+  writeSave,
+  loadSave,
+  updateSave,
+  clearSave,
+  validateSave,
+  parseSave,
+  serializeSave,
+}
@@ -0,0 +1,175 @@
+// Named save slots for Clustering Galaxy: several independent galaxies side by side, one of them active.
+// Plain JS so tests can read it; typed view lives in constants/saveSlots.ts.
+//
+// The slot list is stored under galaxy.slots as JSON:
+//   active   id of the slot being played
+//   slots    [{ id, name, createdAt }] in display order
+// Each slot has its own save document (hooks/saveDocument.js). The 'main' slot uses galaxy.save itself,
+// so a save from before slots existed is simply the Main slot; any other slot uses galaxy.save.<id>.
+// slotStorage() hands saveDocument a view in which galaxy.save means the chosen slot's key, so every
+// save function works per slot unchanged. Main always exists: it can't be deleted, and loadSlots() puts it
+// back first if the stored list lost it (or there is no list yet).
+//
+// Operations return { index, error, id }: on error nothing was written and `index` is the list as it was.
+
+const { SAVE_KEY, LEGACY_KEYS, KEEP_ON_CLEAR, loadSave, writeSave } = require('./saveDocument.js')
+
+const SLOTS_KEY = 'galaxy.slots'
+const MAIN_SLOT = 'main'
+const MAX_SLOTS = 8
+const MAX_SLOT_NAME = 24
+
+const SLOT_ID = /^[a-z0-9-]{1,32}$/
+const LEGACY = new Set(LEGACY_KEYS)
+
+function slotKey(id) {
+  return id === MAIN_SLOT ? SAVE_KEY : `${SAVE_KEY}.${id}`
+}
+
+// Storage as seen by one slot's save functions. Legacy loose keys only ever belonged to Main, so other
+// slots neither read them nor remove them.
+function slotStorage(storage, id) {
+  if (id === MAIN_SLOT) return storage
+  const key = k => (k === SAVE_KEY ? slotKey(id) : k)
+  return {
+    getItem: k => (LEGACY.has(k) ? null : storage.getItem(key(k))),
+    setItem: (k, v) => { if (!LEGACY.has(k)) storage.setItem(key(k), v) },
+    removeItem: k => { if (!LEGACY.has(k)) storage.removeItem(key(k)) },
+  }
+}
+
+const mainSlot = () => ({ id: MAIN_SLOT, name: 'Main', createdAt: 0 })
+
+// The stored slot list, cleaned up: bad entries dropped, duplicate ids removed, Main and active always listed
+function loadSlots(storage) {
+  let raw = null
+  try { raw = JSON.parse(storage.getItem(SLOTS_KEY) || 'null') } catch {}
+  const slots = []
+  for (const s of raw && Array.isArray(raw.slots) ? raw.slots : []) {
+    if (!s || typeof s.id !== 'string' || !SLOT_ID.test(s.id) || slots.some(x => x.id === s.id)) continue
+    const name = typeof s.name === 'string' && s.name.trim() ? s.name.trim().slice(0, MAX_SLOT_NAME) : s.id
+    const createdAt = Number.isSafeInteger(s.createdAt) && s.createdAt > 0 ? s.createdAt : 0
+    slots.push({ id: s.id, name, createdAt })
+  }
+  if (!slots.some(s => s.id === MAIN_SLOT)) slots.unshift(mainSlot())
+  const active = raw && slots.some(s => s.id === raw.active) ? raw.active : MAIN_SLOT
+  return { active, slots }
+}
+
+function writeSlots(storage, index) {
+  storage.setItem(SLOTS_KEY, JSON.stringify(index))
+  return index
+}
+
+// Storage for whichever slot is active
+function activeSlotStorage(storage) {
+  return slotStorage(storage, loadSlots(storage).active)
+}
+
+// Why `name` can't be used for a slot (ignoring slot `exceptId` when renaming), or null
+function slotNameError(index, name, exceptId) {
+  const n = typeof name === 'string' ? name.trim() : ''
+  if (!n) return 'Give the slot a name'
+  if (n.length > MAX_SLOT_NAME) return `Slot names are at most ${MAX_SLOT_NAME} characters`
+  if (index.slots.some(s => s.id !== exceptId && s.name.toLowerCase() === n.toLowerCase())) return `There is already a slot named "${n}"`
+  return null
+}
+
+function nextSlotId(index) {
+  let n = index.slots.length + 1
+  while (index.slots.some(s => s.id === `slot-${n}`)) n++
+  return `slot-${n}`
+}
+
+const unchanged = (index, error) => ({ index, error, id: null })
+
+// A new slot named `name`. With `copyFrom` it starts as a copy of that slot's save; otherwise it is a fresh
+// galaxy that keeps the active slot's settings (KEEP_ON_CLEAR). The active slot doesn't change.
+function createSlot(storage, name, copyFrom) {
+  const index = loadSlots(storage)
+  if (index.slots.length >= MAX_SLOTS) return unchanged(index, `You can have at most ${MAX_SLOTS} slots; delete one first`)
+  const nameError = slotNameError(index, name)
+  if (nameError) return unchanged(index, nameError)
+  if (copyFrom !== undefined && !index.slots.some(s => s.id === copyFrom)) return unchanged(index, 'That slot no longer exists')
+  const id = nextSlotId(index)
+  const view = slotStorage(storage, id)
+  if (copyFrom !== undefined) {
+    writeSave(view, loadSave(slotStorage(storage, copyFrom)))
+  } else {
+    const current = loadSave(slotStorage(storage, index.active))
+    const doc = {}
+    for (const f of KEEP_ON_CLEAR) {
+      if (current[f] !== undefined) doc[f] = current[f]
+    }
+    writeSave(view, doc)
+  }
+  const next = { ...index, slots: [...index.slots, { id, name: name.trim(), createdAt: Date.now() }] }
+  return { index: writeSlots(storage, next), error: null, id }
+}
+
+function renameSlot(storage, id, name) {
+  const index = loadSlots(storage)
+  if (!index.slots.some(s => s.id === id)) return unchanged(index, 'That slot no longer exists')
+  const nameError = slotNameError(index, name, id)
+  if (nameError) return unchanged(index, nameError)
+  const next = { ...index, slots: index.slots.map(s => (s.id === id ? { ...s, name: name.trim() } : s)) }
+  return { index: writeSlots(storage, next), error: null, id }
+}
+
+// Deletes the slot and its save. Main and the active slot can't be deleted.
+function deleteSlot(storage, id) {
+  const index = loadSlots(storage)
+  if (!index.slots.some(s => s.id === id)) return unchanged(index, 'That slot no longer exists')
+  if (id === MAIN_SLOT) return unchanged(index, 'The Main slot can\'t be deleted')
+  if (id === index.active) return unchanged(index, 'Switch to another slot before deleting this one')
+  storage.removeItem(slotKey(id))
+  const next = { ...index, slots: index.slots.filter(s => s.id !== id) }
+  return { index: writeSlots(storage, next), error: null, id }
+}
+
+function setActiveSlot(storage, id) {
+  const index = loadSlots(storage)
+  if (!index.slots.some(s => s.id === id)) return unchanged(index, 'That slot no longer exists')
+  return { index: writeSlots(storage, { ...index, active: id }), error: null, id }
+}
+
+// What the slot picker shows for a save document
+function slotSummary(doc) {
+  const cores = Array.isArray(doc.coreData)
+    ? doc.coreData.reduce((n, c) => n + Math.max(1, (c && parseInt(c.stackCount, 10)) || 1), 0)
+    : 0
+  return {
+    tokens: typeof doc.tokens === 'string' ? doc.tokens : '0',
+    cores,
+    maxLevel: Array.isArray(doc.coreData) ? doc.coreData.reduce((m, c) => Math.max(m, (c && parseInt(c.level, 10)) || 1), 0) : 0,
+    lastPlayed: Number.isSafeInteger(doc.lastSeen) && doc.lastSeen > 0 ? doc.lastSeen : null,
+  }
+}
+
+// Every slot with its summary, in display order
+function listSlots(storage) {
+  const index = loadSlots(storage)
+  return index.slots.map(s => ({
+    ...s,
+    active: s.id === index.active,
+    ...slotSummary(loadSave(slotStorage(storage, s.id))),
+  }))
+}
+
+module.exports = {
+  SLOTS_KEY,
+  MAIN_SLOT,
+  MAX_SLOTS,
+  MAX_SLOT_NAME,
+  slotKey,
+  slotStorage,
+  loadSlots,
+  activeSlotStorage,
+  slotNameError,
+  createSlot,
+  renameSlot,
+  deleteSlot,
+  setActiveSlot,
+  slotSummary,
+  listSlots,
+}
@@ -0,0 +1,252 @@
+// Storage backends for Clustering Galaxy: IndexedDB, localStorage or memory behind one StorageAdapter shape.
+// Plain JS so tests can read it; typed view lives in constants/storageAdapter.ts.
+//
+// An adapter is { kind, getItem, setItem, removeItem, entries }, all returning promises, so a backend
+// never has to block the main thread. openStorage() picks the first one that works:
+//   indexeddb     the 'clustering-galaxy' database, one key/value store; no 5MB cap
+//   localStorage  when IndexedDB is missing or refuses to open (some privacy modes)
+//   memory        when neither works; nothing survives a reload
+// The game reads through a mirror (createStorageMirror): every entry is loaded once at start-up, reads
+// are synchronous from memory and writes go to the backend in order in the background. The mirror has
+// the getItem / setItem / removeItem shape that hooks/saveDocument.js expects.
+// Moving to IndexedDB adopts any galaxy.* / cosmetics.* keys still in localStorage, so older saves carry over.
+//
+// IndexedDB writes are async and may never commit once the page unloads. On the way out the mirror copies
+// whatever the backend hasn't confirmed into localStorage in one synchronous setItem (UNLOAD_KEY, outside
+// our prefixes so it is never adopted as a save key); the next openStorage() replays it over the backend.
+
+const STORAGE_PREFIXES = ['galaxy.', 'cosmetics.']
+const IDB_NAME = 'clustering-galaxy'
+const IDB_STORE = 'kv'
+// Some privacy modes leave indexedDB.open pending forever; give up and fall back after this long
+const IDB_OPEN_TIMEOUT_MS = 2000
+const UNLOAD_KEY = 'galaxy-unload'
+
+const isOurKey = key => STORAGE_PREFIXES.some(p => key.startsWith(p))
+
+function createMemoryAdapter(initial) {
+  const map = new Map(Object.entries(initial || {}))
+  return {
+    kind: 'memory',
+    getItem: async key => (map.has(key) ? map.get(key) : null),
+    setItem: async (key, value) => { map.set(key, String(value)) },
+    removeItem: async key => { map.delete(key) },
+    entries: async () => [...map.entries()],
+  }
+}
+
+// null when localStorage is missing or throws on write (blocked, or a zero quota)
+function createLocalStorageAdapter(ls) {
+  if (!ls) return null
+  try {
+    ls.setItem('galaxy.__probe', '1')
+    ls.removeItem('galaxy.__probe')
+  } catch {
+    return null
+  }
+  return {
+    kind: 'localStorage',
+    getItem: async key => ls.getItem(key),
+    setItem: async (key, value) => { ls.setItem(key, String(value)) },
+    removeItem: async key => { ls.removeItem(key) },
+    entries: async () => {
+      const out = []
+      for (let i = 0; i < ls.length; i++) {
+        const key = ls.key(i)
+        if (key != null && isOurKey(key)) out.push([key, ls.getItem(key)])
+      }
+      return out
+    },
+  }
+}
+
+function idbRequest(req) {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Resolves to null when IndexedDB is missing, blocked or too slow to open
+function createIndexedDbAdapter(idb) {
+  if (!idb) return Promise.resolve(null)
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(null), IDB_OPEN_TIMEOUT_MS)
+    const done = db => { clearTimeout(timer); resolve(db) }
+    let req
+    try {
+      req = idb.open(IDB_NAME, 1)
+    } catch {
+      done(null)
+      return
+    }
+    req.onupgradeneeded = () => { req.result.createObjectStore(IDB_STORE) }
+    req.onerror = () => done(null)
+    req.onblocked = () => done(null)
+    req.onsuccess = () => done(req.result)
+  }).then(db => {
+    if (!db) return null
+    const store = mode => db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)
+    return {
+      kind: 'indexeddb',
+      getItem: async key => {
+        const v = await idbRequest(store('readonly').get(key))
+        return v == null ? null : String(v)
+      },
+      setItem: async (key, value) => { await idbRequest(store('readwrite').put(String(value), key)) },
+      removeItem: async key => { await idbRequest(store('readwrite').delete(key)) },
+      entries: async () => {
+        const s = store('readonly')
+        const [keys, values] = await Promise.all([idbRequest(s.getAllKeys()), idbRequest(s.getAll())])
+        return keys.map((k, i) => [String(k), String(values[i])])
+      },
+    }
+  })
+}
+
+// Copy galaxy.* / cosmetics.* keys the target doesn't have yet out of localStorage, then drop them there.
+// Keys the target already has are left alone in localStorage and never read again.
+async function adoptLocalStorage(target, ls) {
+  const source = createLocalStorageAdapter(ls)
+  if (!source) return 0
+  const have = new Set((await target.entries()).map(([k]) => k))
+  let moved = 0
+  for (const [key, value] of await source.entries()) {
+    if (have.has(key)) continue
+    await target.setItem(key, value)
+    await source.removeItem(key)
+    moved++
+  }
+  return moved
+}
+
+// Replay the writes a closing page left in UNLOAD_KEY (key -> value, null for a removal), then drop it.
+// They are the newest data there is, so they win over whatever the backend holds.
+async function restoreUnloadBackup(target, ls) {
+  let raw = null
+  try { raw = ls ? ls.getItem(UNLOAD_KEY) : null } catch {}
+  if (raw == null) return 0
+  let writes = {}
+  try { writes = JSON.parse(raw) || {} } catch {}
+  let restored = 0
+  for (const [key, value] of Object.entries(writes)) {
+    if (!isOurKey(key)) continue
+    if (value == null) await target.removeItem(key)
+    else await target.setItem(key, String(value))
+    restored++
+  }
+  ls.removeItem(UNLOAD_KEY)
+  return restored
+}
+
+// The first backend that works: IndexedDB, then localStorage, then memory
+async function openStorage(env) {
+  const { indexedDB: idb, localStorage: ls } = env || {}
+  const indexed = await createIndexedDbAdapter(idb).catch(() => null)
+  const adapter = indexed || createLocalStorageAdapter(ls)
+  if (!adapter) return createMemoryAdapter()
+  if (indexed) {
+    try {
+      await adoptLocalStorage(indexed, ls)
+    } catch (error) {
+      console.warn('Failed to move saves out of localStorage:', error)
+    }
+  }
+  try {
+    await restoreUnloadBackup(adapter, ls)
+  } catch (error) {
+    console.warn('Failed to restore the last unsaved writes:', error)
+  }
+  return adapter
+}
+
+// Synchronous view over an adapter: reads from memory, writes queued to the backend in call order
+async function createStorageMirror(adapter) {
+  const cache = new Map(await adapter.entries())
+  // Writes the backend hasn't confirmed yet: key -> value, null for a removal
+  const unconfirmed = new Map()
+  let queue = Promise.resolve()
+  let backups = 0
+  const enqueue = (key, value, write) => {
+    unconfirmed.set(key, value)
+    queue = queue
+      .then(write)
+      .then(() => { if (unconfirmed.get(key) === value) unconfirmed.delete(key) })
+      .catch(error => console.warn(`Failed to write to ${adapter.kind} storage:`, error))
+  }
+  return {
+    kind: adapter.kind,
+    getItem: key => (cache.has(key) ? cache.get(key) : null),
+    setItem: (key, value) => {
+      const v = String(value)
+      cache.set(key, v)
+      enqueue(key, v, () => adapter.setItem(key, v))
+    },
+    removeItem: key => {
+      cache.delete(key)
+      enqueue(key, null, () => adapter.removeItem(key))
+    },
+    // Resolves once every write so far has reached the backend
+    flush: () => queue,
+    // For page hide / unload: copy unconfirmed IndexedDB writes into localStorage synchronously. The copy is
+    // dropped again once the queue drains, unless a newer backup replaced it meanwhile. Returns the key count.
+    backupTo: ls => {
+      if (adapter.kind !== 'indexeddb' || !ls || !unconfirmed.size) return 0
+      const id = ++backups
+      try {
+        ls.setItem(UNLOAD_KEY, JSON.stringify(Object.fromEntries(unconfirmed)))
+      } catch (error) {
+        console.warn('Failed to back up unsaved writes:', error)
+        return 0
+      }
+      queue.then(() => {
+        if (id !== backups) return
+        try { ls.removeItem(UNLOAD_KEY) } catch {}
+      })
+      return unconfirmed.size
+    },
+  }
+}
+
+let shared = null
+let ready = null
+
+// The game's storage, opened on first call from the browser's own globals
+function galaxyStorage() {
+  if (!shared) {
+    const env = typeof window === 'undefined' ? {} : {
+      indexedDB: (() => { try { return window.indexedDB } catch { return undefined } })(),
+      localStorage: (() => { try { return window.localStorage } catch { return undefined } })(),
+    }
+    // If the backend can't even be read, play on in memory rather than risk overwriting the real save
+    shared = openStorage(env)
+      .then(createStorageMirror)
+      .catch(error => {
+        console.warn('Failed to read saved data; this session will not be saved:', error)
+        return createStorageMirror(createMemoryAdapter())
+      })
+      .then(mirror => (ready = mirror))
+  }
+  return shared
+}
+
+// The mirror once galaxyStorage() has resolved, else null
+function getGalaxyStorage() {
+  return ready
+}
+
+module.exports = {
+  STORAGE_PREFIXES,
+  IDB_NAME,
+  IDB_STORE,
+  UNLOAD_KEY,
+  createMemoryAdapter,
+  createLocalStorageAdapter,
+  createIndexedDbAdapter,
+  adoptLocalStorage,
+  restoreUnloadBackup,
+  openStorage,
+  createStorageMirror,
+  galaxyStorage,
+  getGalaxyStorage,
+}
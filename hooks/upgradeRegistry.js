@@ -0,0 +1,373 @@
+// Declarative upgrade registry for Clustering Galaxy.
+// Single source of truth for every purchasable upgrade: the hook, engine, HUD and
+// tests all read these entries. Plain JS so tests can run without extra tooling;
+// typed view lives in constants/upgrades.ts.
+//
+// Entry fields:
+// - id: purchase key (also used by api.purchase / purchaseIQ / purchaseWeight)
+// - currency: 'tokens' | 'iq' | 'weights'
+// - state / field: where the level lives in persisted state (boolean fields are unlocks)
+// - cost: { kind: 'geometric', base, growth } | { kind: 'linear', base, step } | { kind: 'table', values }
+// - maxLevel: null for uncapped
+// - paceCap(pace): optional further cap that depends on the pacing values (hooks/pacing.js)
+// - requires: ids that must be at least level 1 before buying
+// - research: research project (hooks/research.js) that must be finished before buying (optional)
+// - effect(level): numeric effect used by the simulation
+// - label / description: HUD copy
+
+const { batchCollectRadius, comboWindowSeconds, geometricBulkCost, maxAffordable, spawnRateCap } = require('./galaxyMath.js')
+const { BASE_MAX_LEVEL, LEVEL_CAP, maxCoreLevel } = require('./coreLevels.js')
+const { pacingValues } = require('./pacing.js')
+
+const TIER_CHANCE_BASE = { silver: 0.5, gold: 0.1, rare: 0.02, epic: 0.005 }
+
+function tierUnlock(tier, label) {
+  return {
+    id: `${tier}Unlock`,
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: `${tier}Unlocked`,
+    cost: { kind: 'linear', base: 1, step: 0 },
+    maxLevel: 1,
+    requires: [],
+    effect: (level) => (level > 0 ? 1 : 0),
+    label: `${label} Data`,
+    description: `Unlock ${label.toLowerCase()} data spawns`,
+  }
+}
+
+function tierChance(tier, label) {
+  const base = TIER_CHANCE_BASE[tier]
+  return {
+    id: `${tier}ChanceUp`,
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: `${tier}ChanceLvl`,
+    cost: { kind: 'linear', base: 1, step: 0 },
+    maxLevel: null,
+    requires: [`${tier}Unlock`],
+    // Chance per 5s roll: base * (1 + 25% per level), capped at 100%
+    effect: (level) => Math.min(1, base * (1 + 0.25 * level)),
+    label: `${label} Chance`,
+    description: `Per 5s roll. Base ${Math.round(base * 100)}%, +25% per level`,
+  }
+}
+
+const UPGRADES = [
+  // Token upgrades
+  {
+    id: 'spawnRate',
+    currency: 'tokens',
+    state: 'upgrades',
+    field: 'spawnRate',
+    cost: { kind: 'geometric', base: 25, growth: 1.6 },
+    maxLevel: null,
+    paceCap: (pace) => spawnRateCap(pace.spawnBase), // levels past the 2.5s spawn floor do nothing
+    requires: [],
+    effect: (level) => 1 + 0.2 * level, // spawn rate multiplier
+    label: 'Data Ingest',
+    description: '- spawn chance frequency',
+  },
+  {
+    id: 'spawnQty',
+    currency: 'tokens',
+    state: 'upgrades',
+    field: 'spawnQty',
+    cost: { kind: 'geometric', base: 180, growth: 1.6 },
+    maxLevel: 4, // 1 + level per wave, max 5
+    requires: [],
+    effect: (level) => Math.min(5, 1 + level), // data per spawn wave
+    label: 'Spawn Qty',
+    description: 'spawn multiple per wave (max 5)',
+  },
+  {
+    id: 'clickYield',
+    currency: 'tokens',
+    state: 'upgrades',
+    field: 'clickYield',
+    cost: { kind: 'geometric', base: 50, growth: 1.6 },
+    maxLevel: null,
+    requires: [],
+    effect: (level) => level, // bonus tokens per click
+    label: 'Label Quality',
+    description: '+1 click tokens / level',
+  },
+  {
+    id: 'batchCollect',
+    currency: 'tokens',
+    state: 'upgrades',
+    field: 'batchCollect',
+    cost: { kind: 'geometric', base: 120, growth: 1.6 },
+    maxLevel: 10, // 260px reach
+    requires: [],
+    effect: batchCollectRadius, // px around a clicked outlier
+    label: 'Mini-Batch',
+    description: 'Clicks also capture outliers within 60px (+20px/level)',
+  },
+  {
+    id: 'comboWindow',
+    currency: 'tokens',
+    state: 'upgrades',
+    field: 'comboWindow',
+    cost: { kind: 'geometric', base: 150, growth: 1.7 },
+    maxLevel: 10, // 4s window
+    requires: [],
+    effect: comboWindowSeconds, // seconds to chain the next capture
+    label: 'Momentum',
+    description: '+0.25s combo window / level',
+  },
+  {
+    id: 'dataQuality',
+    currency: 'iq',
+    state: 'upgrades',
+    field: 'dataQuality',
+    cost: { kind: 'table', values: [10, 100] }, // bronze -> silver -> gold
+    maxLevel: 2,
+    requires: [],
+    effect: (level) => 1 + level, // data per click
+    label: 'Data Quality',
+    description: 'Silver (2 data/click), then Gold (3 data/click)',
+  },
+
+  // IQ upgrades
+  {
+    id: 'computeMult',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'computeMult',
+    cost: { kind: 'geometric', base: 1, growth: 2 }, // 1,2,4,8...
+    maxLevel: 10,
+    requires: [],
+    effect: (level) => Math.pow(2, level), // passive token multiplier
+    label: 'Compute Multiplier',
+    description: 'Scales passive tokens by 2x per level',
+  },
+  {
+    id: 'autoCollect',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'autoCollect',
+    cost: { kind: 'geometric', base: 1, growth: 2 },
+    maxLevel: null,
+    requires: [],
+    effect: (level) => 5 / Math.pow(2, level), // seconds between auto-captures
+    label: 'Auto Collect',
+    description: 'Auto-capture 1 data every interval',
+  },
+  {
+    id: 'offlineCap',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'offlineCap',
+    cost: { kind: 'geometric', base: 2, growth: 2 },
+    maxLevel: 15, // 8 hours
+    requires: [],
+    effect: (level) => 1800 * (1 + level), // seconds of time away credited
+    label: 'Checkpointing',
+    description: '+30 min offline cap / level (base 30 min)',
+  },
+  {
+    id: 'offlineEfficiency',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'offlineEfficiency',
+    cost: { kind: 'geometric', base: 3, growth: 2 },
+    maxLevel: 5,
+    requires: [],
+    effect: (level) => Math.min(1, 0.25 + 0.15 * level), // share of live income earned offline
+    label: 'Background Workers',
+    description: '+15% offline earnings / level (base 25%)',
+  },
+  {
+    id: 'attentionHeads',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'attentionHeads',
+    cost: { kind: 'geometric', base: 3, growth: 2 },
+    maxLevel: 5,
+    requires: [],
+    research: 'attention',
+    effect: (level) => 1 + 0.1 * level, // click token multiplier
+    label: 'Multi-Head Attention',
+    description: '+10% click tokens / level',
+  },
+  {
+    id: 'deepLayers',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'deepLayers',
+    cost: { kind: 'geometric', base: 8, growth: 2 },
+    maxLevel: LEVEL_CAP - BASE_MAX_LEVEL,
+    requires: [],
+    effect: (level) => maxCoreLevel(level), // top core level; lineage splits wait for it
+    label: 'Deep Layers',
+    description: `+1 max core level / level (base L${BASE_MAX_LEVEL}, up to L${LEVEL_CAP})`,
+  },
+  {
+    id: 'autobuyer',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'autobuyerUnlocked',
+    cost: { kind: 'linear', base: 25, step: 0 },
+    maxLevel: 1,
+    requires: [],
+    effect: (level) => (level > 0 ? 1 : 0),
+    label: 'Autobuyer',
+    description: 'Buys token upgrades by your rules',
+  },
+  tierUnlock('silver', 'Silver'),
+  tierChance('silver', 'Silver'),
+  tierUnlock('gold', 'Gold'),
+  tierChance('gold', 'Gold'),
+  tierUnlock('rare', 'Rare'),
+  tierChance('rare', 'Rare'),
+  tierUnlock('epic', 'Epic'),
+  tierChance('epic', 'Epic'),
+  {
+    id: 'confetti',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'confettiUnlocked',
+    cost: { kind: 'linear', base: 1, step: 0 },
+    maxLevel: 1,
+    requires: [],
+    effect: (level) => (level > 0 ? 1 : 0),
+    label: 'Confetti',
+    description: 'Unlock the confetti effect',
+  },
+  {
+    id: 'palette',
+    currency: 'iq',
+    state: 'iqUpgrades',
+    field: 'paletteUnlocked',
+    cost: { kind: 'linear', base: 1, step: 0 },
+    maxLevel: 1,
+    requires: [],
+    effect: (level) => (level > 0 ? 1 : 0),
+    label: 'Palette',
+    description: 'Unlock the palette effect',
+  },
+
+  // Weights upgrades (permanent, survive Retrain)
+  {
+    id: 'passiveBoost',
+    currency: 'weights',
+    state: 'weightUpgrades',
+    field: 'passiveBoost',
+    cost: { kind: 'linear', base: 1, step: 1 },
+    maxLevel: 20,
+    requires: [],
+    effect: (level) => 1 + 0.25 * level, // passive token multiplier
+    label: 'Pretrained Priors',
+    description: '+25% passive tokens / level',
+  },
+  {
+    id: 'clickBoost',
+    currency: 'weights',
+    state: 'weightUpgrades',
+    field: 'clickBoost',
+    cost: { kind: 'linear', base: 1, step: 1 },
+    maxLevel: 20,
+    requires: [],
+    effect: (level) => 1 + 0.25 * level, // click token multiplier
+    label: 'Fine-Tuned Labels',
+    description: '+25% click tokens / level',
+  },
+  {
+    id: 'warmStart',
+    currency: 'weights',
+    state: 'weightUpgrades',
+    field: 'warmStart',
+    cost: { kind: 'linear', base: 2, step: 2 },
+    maxLevel: 10,
+    requires: [],
+    effect: (level) => 250 * level, // starting tokens after Retrain
+    label: 'Warm Start',
+    description: '+250 starting tokens after Retrain / level',
+  },
+]
+
+const UPGRADES_BY_ID = UPGRADES.reduce((acc, def) => {
+  acc[def.id] = def
+  return acc
+}, {})
+
+function getUpgrade(id) {
+  return UPGRADES_BY_ID[id]
+}
+
+function upgradesFor(currency, state) {
+  return UPGRADES.filter((def) => def.currency === currency && (!state || def.state === state))
+}
+
+// Levels left to buy; `pace` is the active pacing values (Standard when omitted)
+function remainingLevels(id, level, pace) {
+  const def = UPGRADES_BY_ID[id]
+  if (!def) return Infinity
+  let max = def.maxLevel == null ? Infinity : def.maxLevel
+  if (def.paceCap) max = Math.min(max, def.paceCap(pace || pacingValues(null)))
+  return Math.max(0, max - level)
+}
+
+function levelCost(id, level) {
+  const c = UPGRADES_BY_ID[id].cost
+  if (c.kind === 'geometric') return Math.round(c.base * Math.pow(c.growth, level))
+  if (c.kind === 'linear') return c.base + c.step * level
+  return level < c.values.length ? c.values[level] : Infinity
+}
+
+function bulkCost(id, level, qty) {
+  const c = UPGRADES_BY_ID[id].cost
+  if (qty <= 0) return 0
+  if (c.kind === 'geometric') return geometricBulkCost(c.base, c.growth, level, qty)
+  if (c.kind === 'linear') return c.base * qty + c.step * (qty * level + (qty * (qty - 1)) / 2)
+  let total = 0
+  for (let i = 0; i < qty; i++) total += levelCost(id, level + i)
+  return total
+}
+
+function maxAffordableLevels(id, level, budget, pace) {
+  const c = UPGRADES_BY_ID[id].cost
+  const cap = remainingLevels(id, level, pace)
+  if (c.kind === 'geometric') return maxAffordable(c.base, c.growth, level, budget, cap)
+  if (budget <= 0 || cap <= 0) return 0
+  // Costs are non-decreasing: grow an upper bound, then binary search it
+  let lo = 0
+  let hi = 1
+  while (hi < cap && bulkCost(id, level, hi) <= budget) { lo = hi; hi *= 2 }
+  hi = Math.min(hi, cap)
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (bulkCost(id, level, mid) <= budget) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+function prerequisitesMet(id, levelOf) {
+  return UPGRADES_BY_ID[id].requires.every((req) => levelOf(req) > 0)
+}
+
+// Back-compat helpers for the token upgrade curve
+const UPGRADE_BASES = upgradesFor('tokens', 'upgrades').reduce((acc, def) => {
+  acc[def.id] = def.cost.base
+  return acc
+}, {})
+
+function upgradeCost(key, level) {
+  return levelCost(key, level)
+}
+
+module.exports = {
+  UPGRADES,
+  TIER_CHANCE_BASE,
+  UPGRADE_BASES,
+  getUpgrade,
+  upgradesFor,
+  remainingLevels,
+  levelCost,
+  bulkCost,
+  maxAffordableLevels,
+  prerequisitesMet,
+  upgradeCost,
+}
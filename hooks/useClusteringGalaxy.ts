@@ -2,7 +2,52 @@
 
 import { useEffect, useMemo, useRef, useState } from "react"
 import { GAME_CONFIG } from "../constants/gameConstants"
+import { getUpgrade, upgradesFor, upgradeLevelIn, remainingLevels, bulkCost, maxAffordableLevels, prerequisitesMet } from "../constants/upgrades"
+import type { UpgradeId, IQUpgradeId, TokenUpgradeId, WeightUpgradeId, UpgradeCurrency } from "../constants/upgrades"
+import { ZERO, fromNumber, add, sub, max, gte, toFiniteNumber, serialize, parse, format, isNotation } from "../constants/bigNumber"
+import type { Big, Notation } from "../constants/bigNumber"
+import { LINEAGES, isLineage, getLineage, lineagePassiveMult, lineageClickMult } from "../constants/lineages"
+import type { CoreLineage } from "../constants/lineages"
+import { BUFFS, dropTable, rollDrops, mergeBuff } from "../constants/dropTables"
+import type { BuffId, ActiveBuff } from "../constants/dropTables"
+import { getEvent, eventMods, initialSchedule, sanitizeSchedule, stepSchedule } from "../constants/galaxyEvents"
+import type { ActiveEvent, EventSchedule } from "../constants/galaxyEvents"
+import { ACHIEVEMENTS, achievementProgress, newlyUnlocked, achievementBonus, sanitizeAchievements } from "../constants/achievements"
+import type { AchievementDef, AchievementProgress, AchievementSave, AchievementCounter, AchievementMetrics } from "../constants/achievements"
+import { AUTOBUY_TARGETS, AUTOBUY_INTERVAL, defaultAutobuyer, sanitizeAutobuyer, planPurchases, pushLog } from "../constants/autobuyer"
+import type { AutobuyRule, AutobuyerSave, AutobuyLogEntry, AutobuyPurchase } from "../constants/autobuyer"
+import { getResearch, emptyResearch, sanitizeResearch, isResearched, queueBlocker, enqueue, cancel, stepResearch, researchBonus } from "../constants/research"
+import type { ResearchId, ResearchState } from "../constants/research"
+import { RARITIES, CAPSULE_COLORS, CAPSULE_EFFECTS, CAPSULE_SPAWN_SECONDS, getRarity, rollRarity, rollReward, capsuleTokens } from "../constants/capsules"
+import type { CapsuleRarityId, CapsuleReward } from "../constants/capsules"
+import { getTool, isToolId, emptyCooldowns, cooldownLeft, startCooldown, pointInPath, wellVelocity, LASSO_MIN_POINTS, LASSO_MAX_POINTS, WELL_CAPTURE_RADIUS } from "../constants/captureTools"
+import type { ToolId, ToolCooldowns, PathPoint } from "../constants/captureTools"
+import { CORE_LEVELS, LEVEL_CAP, BASE_MAX_LEVEL, clampLevel, levelRow, levelForColorIndex, padLevels } from "../constants/coreLevels"
+import { getShopItem, itemPrice, purchaseBlocker, ownedEffects, ambientSlots, SHOP_EFFECTS, BASE_AMBIENT_SLOTS } from "../constants/cosmeticShop"
+import type { ShopOwned } from "../constants/cosmeticShop"
+import { defaultPacing, sanitizePacing, pacingValues, clampPacingValue, isPacingPresetId, scaleCost, PACING_KEYS } from "../constants/pacing"
+import type { PacingSave, PacingValues } from "../constants/pacing"
+import { loadSave, writeSave, clearSave, serializeSave, SAVE_VERSION } from "../constants/saveDocument"
+import type { SaveDocument, SaveImportResult } from "../constants/saveDocument"
+import { encodeSaveCode, parseSaveText } from "../constants/saveCode"
+import { galaxyStorage, getGalaxyStorage } from "../constants/storageAdapter"
+import type { StorageMirror } from "../constants/storageAdapter"
+import { MAIN_SLOT, loadSlots, slotStorage, listSlots, createSlot, renameSlot, deleteSlot, setActiveSlot } from "../constants/saveSlots"
+import type { SlotInfo, SlotChange, SlotResult } from "../constants/saveSlots"
 import { SPRITE_EMOJI, ALL_SPRITE_IDS, DEFAULT_LOCKED_SPRITES, ALL_SPRITES } from "../constants/sprites"
+import { typedModule } from "../constants/plainJs"
+import galaxyMathJs from "./galaxyMath.js"
+
+// Shared game math (plain JS so the node tests cover the same formulas)
+const { MIN_SPAWN_INTERVAL, retrainWeights, autoCollectRate, offlineAwaySeconds, offlineEarnings, mergeStacks, comboMultiplier } = typedModule<{
+  MIN_SPAWN_INTERVAL: number
+  comboMultiplier: (streak: number) => number
+  mergeStacks: (targetStack: number, draggedStack: number) => { fused: number; leftover: number }
+  retrainWeights: (totalEverCollected: number, peakCores: number) => number
+  autoCollectRate: (intervalSeconds: number, spawnPerSecond: number) => number
+  offlineAwaySeconds: (savedAt: number | undefined, now: number) => number
+  offlineEarnings: (passivePerSec: number, autoPerSec: number, awaySeconds: number, capSeconds: number, efficiency: number) => Omit<OfflineReport, 'passivePerSec' | 'autoPerSec'>
+}>(galaxyMathJs)
 
 // Public types and API
 /**
@@ -20,9 +65,30 @@ export type Upgrades = {
   spawnQty: number
   clickYield: number
   batchCollect: number
+  comboWindow: number
   dataQuality?: number
 }
 
+// Permanent upgrades bought with Weights; these survive a Retrain
+export type WeightUpgrades = {
+  passiveBoost: number
+  clickBoost: number
+  warmStart: number
+}
+
+// Earnings credited on load for time spent away (shown once, then dismissed)
+export type OfflineReport = {
+  awaySeconds: number
+  creditedSeconds: number // away time after the Checkpointing cap
+  capped: boolean
+  efficiency: number
+  passivePerSec: number // live rates at load time, before efficiency
+  autoPerSec: number
+  passive: number
+  auto: number
+  total: number
+}
+
 type PointState = "ambient" | "outlier" | "capturing" | "clustered"
 export type Point = {
   id: number
@@ -78,6 +144,11 @@ export type Cluster = {
   colorIndex: number
   stackCount?: number // How many identical cores are stacked here
   isVisible?: boolean // Whether this core should be rendered (for stacking)
+  isDragging?: boolean // Picked up for merging
+  dragOffsetX?: number // Offset from mouse position when drag started
+  dragOffsetY?: number
+  lineage?: CoreLineage // Specialization picked at the last split; inherited by both children
+  awaitingLineage?: boolean // Max-level core held at full progress until the player picks a lineage
   // Animation states
   levelUpAnimT?: number // Level up animation timer
   collectAnimT?: number // Data collection animation timer
@@ -85,24 +156,83 @@ export type Cluster = {
 }
 
 export type GalaxyState = {
-  tokens: number
-  iq: number
+  tokens: Big
+  iq: Big
   upgrades: Upgrades
-  iqUpgrades: { computeMult: number; autoCollect: number; confettiUnlocked: boolean; paletteUnlocked: boolean; silverUnlocked: boolean; goldUnlocked: boolean; rareUnlocked: boolean; epicUnlocked: boolean; silverChanceLvl?: number; goldChanceLvl?: number; rareChanceLvl?: number; epicChanceLvl?: number }
+  iqUpgrades: { computeMult: number; autoCollect: number; confettiUnlocked: boolean; paletteUnlocked: boolean; silverUnlocked: boolean; goldUnlocked: boolean; rareUnlocked: boolean; epicUnlocked: boolean; autobuyerUnlocked: boolean; silverChanceLvl?: number; goldChanceLvl?: number; rareChanceLvl?: number; epicChanceLvl?: number; offlineCap?: number; offlineEfficiency?: number; attentionHeads?: number; deepLayers?: number }
   dragAndDropEnabled: boolean
+  weights: number
+  weightUpgrades: WeightUpgrades
+  retrains: number
+  offlineReport: OfflineReport | null
+  notation: Notation // HUD number format
+  pendingLineages: number // Max-level cores waiting on a lineage choice
+  buffs: { id: BuffId; mult: number; endsAt: number }[] // Temporary drop-table buffs (endsAt is epoch ms)
+  cosmeticTokens: number // Rare drops; each redeems one locked core sprite
+  activeEvent: ActiveEvent | null // Running timed event (Data Storm etc.), endsAt is epoch ms
+  achievements: string[] // Unlocked achievement ids
+  autobuyer: AutobuyerSave & { log: AutobuyLogEntry[] } // Rules (persisted) plus recent automated purchases (session only)
+  research: ResearchState // Finished projects and the queue (head endsAt is epoch ms)
+  tools: { active: ToolId | null; readyAt: ToolCooldowns; wellEndsAt: number | null } // Tool strip selection and cooldowns (epoch ms)
+  pacing: PacingSave // Tempo preset picked in Settings, plus the Custom preset's values
 }
 
+export type BuyQuantity = number | 'max'
+
 export type GalaxyAPI = {
   getDrawSnapshot(): DrawSnapshot
   registerCanvas: (canvas: HTMLCanvasElement | null) => () => void
   clickAt: (x: number, y: number) => void
-  purchase: (key: keyof Upgrades) => void
-  purchaseIQ: (key: 'computeMult' | 'autoCollect' | 'silverUnlock' | 'goldUnlock' | 'rareUnlock' | 'epicUnlock' | 'silverChanceUp' | 'goldChanceUp' | 'rareChanceUp' | 'epicChanceUp' | 'confetti' | 'palette') => void
+  // qty: number of levels to buy atomically (clamped to caps), or 'max' for as many as affordable
+  purchase: (key: keyof Upgrades, qty?: BuyQuantity) => void
+  purchaseIQ: (key: Exclude<IQUpgradeId, 'dataQuality'>, qty?: BuyQuantity) => void
+  // Generic registry purchase (constants/upgrades.ts); the methods above are currency-scoped wrappers
+  purchaseUpgrade: (id: UpgradeId, qty?: BuyQuantity) => boolean
+  // Play an unlocked site effect (confetti burst or palette shift) via galaxy-effect
   triggerEffect: (name: "confetti" | "palette") => void
-  getStats: () => { tokensPerSec: number; coresByLevel: number[]; totalEverCollected: number; currentFloatingData: number }
-  getCosmeticsSettings?: () => { coreColors: string[]; ambientColors: string[]; coreSprites: string[]; unlockedSprites: string[]; specialEffects?: { rgbNeon?: boolean; customShift?: boolean; shiftSpeed?: number } }
-  setCosmeticsSettings?: (settings: { coreColors: string[]; ambientColors: string[]; coreSprites: string[]; unlockedSprites: string[]; specialEffects?: { rgbNeon?: boolean; customShift?: boolean; shiftSpeed?: number } }) => void
+  getStats: () => { tokensPerSec: number; coresByLevel: number[]; coresByLineage: Record<CoreLineage, number>; clickMult: number; bestCombo: number; totalEverCollected: Big; currentFloatingData: number }
+  // Prestige: trade the current run for permanent Weights
+  getRetrainPreview: () => { weights: number; totalEverCollected: Big; peakCores: number }
+  retrain: () => boolean
+  purchaseWeight: (key: WeightUpgradeId) => void
+  dismissOfflineReport: () => void
+  // Split the oldest max-level core waiting on a choice; both children inherit the lineage
+  chooseLineage: (lineage: CoreLineage) => boolean
+  // Spend one cosmetic token to unlock a random locked core sprite
+  redeemCosmeticToken: () => boolean
+  // Cosmetic shop: pay a shop item's token or IQ price and unlock it (see constants/cosmeticShop.ts)
+  buyCosmetic: (id: string) => boolean
+  // Autobuyer rule editing (rules only run once the Autobuyer IQ unlock is bought); edits save immediately
+  setAutobuyRule: (id: TokenUpgradeId, patch: Partial<Omit<AutobuyRule, 'id'>>) => void
+  setAutobuyerEnabled: (v: boolean) => void
+  // Research: pay a project's IQ and add it to the queue; cancelling refunds it (and anything queued that needed it)
+  queueResearch: (id: ResearchId) => boolean
+  cancelResearch: (id: ResearchId) => boolean
+  // Capture tools: pick one from the tool strip (null goes back to plain clicks). With the gravity well
+  // selected, clickAt places it on the nearest core; the lasso is drawn with begin/extend/finish.
+  selectTool: (id: ToolId | null) => boolean
+  getActiveTool: () => ToolId | null
+  beginLasso: (x: number, y: number) => void
+  extendLasso: (x: number, y: number) => void
+  finishLasso: () => number
+  // Every achievement with live progress toward its target
+  getAchievements: () => (AchievementDef & AchievementProgress & { unlocked: boolean })[]
+  getCosmeticsSettings?: () => { coreColors: string[]; ambientColors: string[]; coreSprites: string[]; unlockedSprites: string[]; unlockedEffects?: string[]; ambientSlots?: number; specialEffects?: { rgbNeon?: boolean; customShift?: boolean; shiftSpeed?: number } }
+  setCosmeticsSettings?: (settings: { coreColors: string[]; ambientColors: string[]; coreSprites: string[]; unlockedSprites: string[]; unlockedEffects?: string[]; ambientSlots?: number; specialEffects?: { rgbNeon?: boolean; customShift?: boolean; shiftSpeed?: number } }) => void
   clearSaveData?: () => boolean
+  // Whole-game export as JSON or as a compact save code; import takes either, checks it field by field
+  // and applies it without a reload
+  exportSave: () => string | null
+  exportSaveCode: () => string | null
+  importSave: (text: string) => SaveImportResult
+  // Named save slots. Switching saves the current slot and swaps the galaxy in place; Main and the
+  // active slot can't be deleted. Create starts a fresh galaxy, duplicate copies an existing slot's save.
+  listSaveSlots: () => SlotInfo[]
+  createSaveSlot: (name: string) => SlotResult
+  duplicateSaveSlot: (id: string, name: string) => SlotResult
+  renameSaveSlot: (id: string, name: string) => SlotResult
+  deleteSaveSlot: (id: string) => SlotResult
+  switchSaveSlot: (id: string) => SlotResult
   setTargetFps: (fps: number) => void
   getTargetFps: () => number
   setPerformanceMode: (lowQuality: boolean) => void
@@ -117,6 +247,11 @@ export type GalaxyAPI = {
   endDrag: (velocityX: number, velocityY: number) => void
   setDragAndDropEnabled: (enabled: boolean) => void
   getDragAndDropEnabled: () => boolean
+  setNotation: (notation: Notation) => void
+  getNotation: () => Notation
+  // Pacing presets (constants/pacing.ts): pick one, or edit the Custom values (which also selects Custom)
+  setPacingPreset: (preset: PacingSave['preset']) => void
+  setCustomPacing: (patch: Partial<PacingValues>) => void
   debug: {
     addTokens: (amount: number) => void
     addIQ: (amount: number) => void
@@ -142,7 +277,7 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
   const isMobileRef = useRef<boolean>(false)
 
   // Drag state for outlier drag and drop
-  const dragStateRef = useRef<{worldX: number, worldY: number, isActive: boolean, draggedPoint?: number} | null>(null)
+  const dragStateRef = useRef<{worldX: number, worldY: number, isActive: boolean, draggedPoint?: number, draggedCore?: number} | null>(null)
   function updateDeviceProfile() {
     try {
       const w = typeof window !== 'undefined' ? window.innerWidth : 1200
@@ -284,7 +419,6 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
   const {
     PASSIVE_BASE,
     CLICK_BASE,
-    BASE_SPAWN,
     OUTLIER_MAX_BASE,
     OUTLIER_MAX_PER_LEVEL,
     PULSE_MIN,
@@ -298,8 +432,6 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
     TOP_EXCLUDE,
     EDGE_SPAWN_PAD,
     MAX_CORES,
-    STACK_THRESHOLD,
-    L5_STACK_THRESHOLD,
     STACK_THRESHOLDS,
     STACK_THRESHOLDS_HIGH,
     DRAW_BUFFER_EXTRA,
@@ -315,17 +447,35 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
       "#60a5fa",
       "#e5e7eb",
     ]
-    // Pull palette from cosmetics if available
+    // Pull palette from cosmetics if available; levels without a saved color use the level default
     const cos = (snapshot as any)?.currentCosmetics
-    const palette: string[] = Array.isArray(cos?.coreColors) && cos.coreColors.length >= 5
-      ? cos.coreColors
-      : ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"]
+    const palette = corePalette(cos)
     
     // Use custom data glow color if available, otherwise use default
     const dataGlowColor = cos?.dataGlowColor || "#00ff88"
     
-    // Return base colors + core colors + data glow color at index 10
-    return [...base, ...palette.slice(0,5), dataGlowColor]
+    // Lineage halo colors (indices 14+, see LINEAGE_COLOR_INDEX) follow the same cosmetics override
+    const lineageColors = LINEAGES.map(l => cos?.lineageColors?.[l.id] || l.color)
+
+    // Return base colors + L1-L5 colors + data glow color at index 10 + lineage colors + L6+ colors.
+    // Outlier tiers 1-3 point at 11..13, which have always rendered with the base[0] fallback.
+    const colors = [...base, ...palette.slice(0,5), dataGlowColor, base[0], base[0], base[0], ...lineageColors]
+    for (const row of CORE_LEVELS) colors[row.colorIndex] = palette[row.level - 1]
+    // Ambient data colors (one per owned slot) follow at AMBIENT_COLOR_INDEX
+    ambientPalette(cos).forEach((c, i) => { colors[AMBIENT_COLOR_INDEX + i] = c })
+    return colors
+  }
+
+  // Ambient data colors in use: the saved ones up to the owned slot count
+  function ambientPalette(cos: any): string[] {
+    const saved: string[] = Array.isArray(cos?.ambientColors) ? cos.ambientColors.filter(Boolean) : []
+    const list = saved.slice(0, ambientSlots(cos))
+    return list.length > 0 ? list : ["#e5e7eb"]
+  }
+
+  // Saved per-level core colors padded to every level with the table defaults
+  function corePalette(cos: any): string[] {
+    return padLevels(Array.isArray(cos?.coreColors) ? cos.coreColors : null, LEVEL_CAP, lvl => levelRow(lvl).color)
   }
 
   // --- Special Effects Color Helpers ---
@@ -367,19 +517,14 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
     return ['#ff0000', '#ffa500', '#ffff00', '#00ff00', '#00a4ff', '#8b00ff']
   }
   function computeLevelFromColorIndex(idx: number): number {
-    for (let i = 0; i < GAME_CONFIG.LEVEL_COLOR_INDEX.length; i++) {
-      if (GAME_CONFIG.LEVEL_COLOR_INDEX[i] === idx) return i + 1
-    }
-    return 1
+    return levelForColorIndex(idx)
   }
   function applySpecialColor(level: number, baseHex: string, nowSec: number): string {
     const cos = (snapshot as any).currentCosmetics || null
     const special = cos?.specialEffects || {}
     const userSpeed = typeof special?.shiftSpeed === 'number' && isFinite(special.shiftSpeed) ? Math.max(0.25, Math.min(3, special.shiftSpeed)) : 1.0
     if (special?.customShift) {
-      const pal: string[] = Array.isArray(cos?.coreColors) && cos.coreColors.length > 0
-        ? cos.coreColors.slice(0, Math.max(1, Math.min(5, level)))
-        : ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"].slice(0, Math.max(1, Math.min(5, level)))
+      const pal: string[] = corePalette(cos).slice(0, clampLevel(level))
       const speed = 0.15 * userSpeed
       const phase = (nowSec * speed + level * 0.07) % 1
       if (pal.length === 1) {
@@ -398,17 +543,36 @@ export function useClusteringGalaxy(opts: UseClusteringGalaxyOptions = {}) {
     return baseHex
   }
   const LEVEL_COLOR_INDEX = GAME_CONFIG.LEVEL_COLOR_INDEX
-  const LEVEL_RATE = GAME_CONFIG.LEVEL_RATE
+  const AMBIENT_COLOR_INDEX = Math.max(...CORE_LEVELS.map(r => r.colorIndex)) + 1
+  const LINEAGE_COLOR_INDEX = Object.fromEntries(LINEAGES.map((l, i) => [l.id, 14 + i])) as Record<CoreLineage, number>
 
   // Persisted bits
-type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: GalaxyState['iqUpgrades']; lastSeen: number; totalEverCollected: number; dragAndDropEnabled: boolean }
+type Persisted = { tokens: Big; iq: Big; upgrades: Upgrades; iqUpgrades: GalaxyState['iqUpgrades']; lastSeen: number; totalEverCollected: Big; dragAndDropEnabled: boolean; weights: number; weightsEarned: number; weightUpgrades: WeightUpgrades; retrains: number; cosmeticTokens: number }
   const persisted = useRef<Persisted | null>(null)
+  // galaxy.cosmetics from the save document; owned here, written with the rest of the save
+  const savedCosmetics = useRef<any>(null)
+  // Save slot being played; every save and load goes through its view of storage
+  const activeSlot = useRef<string>(MAIN_SLOT)
   const [uiState, setUiState] = useState<GalaxyState>(() => ({
-    tokens: 0,
-    iq: 0,
-    upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 },
-    iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 },
+    tokens: ZERO,
+    iq: ZERO,
+    upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0 },
+    iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, autobuyerUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, offlineCap: 0, offlineEfficiency: 0, attentionHeads: 0, deepLayers: 0 },
     dragAndDropEnabled: true, // Default enabled
+    weights: 0,
+    weightUpgrades: { passiveBoost: 0, clickBoost: 0, warmStart: 0 },
+    retrains: 0,
+    offlineReport: null,
+    notation: 'suffix',
+    pendingLineages: 0,
+    buffs: [],
+    cosmeticTokens: 0,
+    activeEvent: null,
+    achievements: [],
+    autobuyer: { ...defaultAutobuyer(), log: [] },
+    research: emptyResearch(),
+    tools: { active: null, readyAt: emptyCooldowns(), wellEndsAt: null },
+    pacing: defaultPacing(),
   }))
   const [targetFpsState, setTargetFpsState] = useState(30)
   const [performanceModeState, setPerformanceModeState] = useState(false)
@@ -420,12 +584,35 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
   const lastTick = useRef<number>(0)
   const reducedMotion = useRef<boolean>(false)
   const autoAcc = useRef<number>(0)
-  // Unlockable large drifting sprites (click 10x to unlock)
-  type Unlockable = { id: string; x: number; y: number; vx: number; vy: number; size: number; clicks: number; clicksRequired: number; angle: number; av: number; shakeT: number; spinBoostT: number; seed: number; crackP: number; breaking: boolean; breakT: number; breakTotal: number }
-  const unlockables = useRef<Unlockable[]>([])
-  const nextUnlockSpawnAt = useRef<number>(0)
-  const firstL2Notified = useRef<boolean>(false)
-  const firstMaxNotified = useRef<boolean>(false)
+  // Drop-table buffs and reward popups (not persisted)
+  const activeBuffs = useRef<Partial<Record<BuffId, ActiveBuff>>>({})
+  type FloatingText = { x: number; y: number; text: string; color: string; t: number; life: number }
+  const floatingTexts = useRef<FloatingText[]>([])
+  // Click combo: manual captures inside the window chain a multiplier; x/y anchor the meter (best streak is persisted)
+  const combo = useRef<{ streak: number; remaining: number; window: number; x: number; y: number }>({ streak: 0, remaining: 0, window: 0, x: 0, y: 0 })
+  // Timed event schedule, persisted as galaxy.events; null until the save has loaded
+  const eventSchedule = useRef<EventSchedule | null>(null)
+  // Loot capsules: large drifting capsules that crack open after clicksRequired clicks (rarity sets clicks and look)
+  type Capsule = { rarity: CapsuleRarityId; x: number; y: number; vx: number; vy: number; size: number; clicks: number; clicksRequired: number; angle: number; av: number; shakeT: number; spinBoostT: number; seed: number; crackP: number; breaking: boolean; breakT: number; breakTotal: number }
+  const capsules = useRef<Capsule[]>([])
+  const nextCapsuleSpawnAt = useRef<number>(0)
+  // Capture tools (session only): the selected tool, cooldowns, the lasso being drawn and a running gravity well
+  const activeTool = useRef<ToolId | null>(null)
+  const toolCooldowns = useRef<ToolCooldowns>(emptyCooldowns())
+  const lassoPath = useRef<PathPoint[] | null>(null)
+  const gravityWell = useRef<{ core: Cluster; endsAt: number } | null>(null)
+  // Lifetime achievements and their counters, persisted as galaxy.achievements
+  const achievements = useRef<AchievementSave>(sanitizeAchievements(null))
+  const achievementAcc = useRef<number>(0)
+  // Autobuyer rules (persisted as galaxy.autobuyer, saved on every edit) and this session's purchase log
+  const autobuyer = useRef<AutobuyerSave>(defaultAutobuyer())
+  const autobuyLog = useRef<AutobuyLogEntry[]>([])
+  const autobuyAcc = useRef<number>(0)
+  // Research queue and finished projects, persisted as galaxy.research and saved on every change
+  const research = useRef<ResearchState>(emptyResearch())
+  // Pacing choice (persisted as galaxy.pacing) and the values it resolves to
+  const pacing = useRef<PacingSave>(defaultPacing())
+  const pace = useRef<PacingValues>(pacingValues(pacing.current))
   // Round-robin tracker for stacking target per level to distribute stacks
   const stackRoundRobin = useRef<Record<number, number>>({})
   
@@ -512,15 +699,78 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     return t === 0 ? 0 : t === 1 ? 1 : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1
   }
 
-  function upgradeCost(key: keyof Upgrades, level: number) {
-    const base: Record<keyof Upgrades, number> = {
-      spawnRate: 25,
-      spawnQty: 180,
-      clickYield: 50,
-      batchCollect: 120,
-      dataQuality: 200,
+  // Registry-driven upgrade access: levels live in persisted[def.state][def.field]
+  function upgradeLevel(id: UpgradeId): number {
+    const def = getUpgrade(id)
+    if (!def || !persisted.current) return 0
+    return upgradeLevelIn(def, persisted.current[def.state] as Record<string, unknown>)
+  }
+  function upgradeEffect(id: UpgradeId): number {
+    return getUpgrade(id)!.effect(upgradeLevel(id))
+  }
+  // Top level a core can reach (Deep Layers raises it); cores there wait for a lineage split
+  function coreLevelCap(): number {
+    return upgradeEffect('deepLayers')
+  }
+  // Buy qty levels atomically (clamped to the cap), or as many as affordable for 'max'
+  // Spendable balance for cost math; Big currencies clamp to the largest finite double
+  function balanceOf(currency: UpgradeCurrency): number {
+    const p = persisted.current
+    if (!p) return 0
+    return currency === 'weights' ? p.weights : toFiniteNumber(p[currency])
+  }
+  function spend(currency: UpgradeCurrency, amount: number) {
+    const p = persisted.current
+    if (!p) return
+    if (currency === 'weights') p.weights -= amount
+    else p[currency] = sub(p[currency], fromNumber(amount))
+  }
+
+  // Pacing scales token upgrade prices; IQ and Weights prices never change
+  function priceMult(currency: UpgradeCurrency): number {
+    return currency === 'tokens' ? pace.current.tokenCostMult : 1
+  }
+  function upgradePrice(id: UpgradeId, lvl: number, n: number): number {
+    return scaleCost(bulkCost(id, lvl, n), priceMult(getUpgrade(id)!.currency))
+  }
+
+  function buyUpgrade(id: UpgradeId, qty: BuyQuantity | undefined): boolean {
+    const p = persisted.current
+    const def = getUpgrade(id)
+    if (!p || !def) return false
+    if (!prerequisitesMet(id, upgradeLevel)) return false
+    if (def.research && !isResearched(research.current.completed, def.research)) return false
+    const lvl = upgradeLevel(id)
+    const budget = balanceOf(def.currency)
+    let n = 0
+    if (qty === 'max') {
+      n = maxAffordableLevels(id, lvl, budget / priceMult(def.currency), pace.current)
+      while (n > 0 && upgradePrice(id, lvl, n) > budget) n--
+    } else {
+      n = Math.min(remainingLevels(id, lvl, pace.current), Math.max(1, Math.floor(Number(qty) || 1)))
+      if (upgradePrice(id, lvl, n) > budget) n = 0
     }
-    return Math.round(base[key] * Math.pow(1.6, level))
+    if (n <= 0) return false
+    spend(def.currency, upgradePrice(id, lvl, n))
+    // Copy of the state object with the new level (unlock fields just flip on)
+    const bought = <T extends object>(source: T): T => {
+      const current = (source as Record<string, unknown>)[def.field]
+      return { ...source, [def.field]: typeof current === 'boolean' ? true : lvl + n }
+    }
+    switch (def.state) {
+      case 'upgrades':
+        p.upgrades = bought(p.upgrades)
+        break
+      case 'iqUpgrades':
+        p.iqUpgrades = bought(p.iqUpgrades)
+        break
+      case 'weightUpgrades':
+        p.weightUpgrades = bought(p.weightUpgrades)
+        break
+    }
+    setUiState(s => ({ ...s, tokens: p.tokens, iq: p.iq, weights: p.weights, upgrades: p.upgrades, iqUpgrades: p.iqUpgrades, weightUpgrades: p.weightUpgrades }))
+    if (id === 'deepLayers') releaseLineageHolds()
+    return true
   }
 
   // Persistence sanitizers to prevent localStorage corruption from crashing
@@ -534,9 +784,10 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       spawnQty: toSafeInt(raw?.spawnQty, 0),
       clickYield: toSafeInt(raw?.clickYield, 0),
       batchCollect: toSafeInt(raw?.batchCollect, 0),
+      comboWindow: Math.min(getUpgrade('comboWindow')!.maxLevel ?? 0, toSafeInt(raw?.comboWindow, 0)),
     }
     const dq = raw?.dataQuality
-    if (dq != null) safe.dataQuality = Math.max(0, Math.min(2, toSafeInt(dq, 0)))
+    if (dq != null) safe.dataQuality = Math.max(0, Math.min(getUpgrade('dataQuality')!.maxLevel ?? 0, toSafeInt(dq, 0)))
     return safe
   }
   function sanitizeIQUpgrades(raw: any): GalaxyState['iqUpgrades'] {
@@ -549,20 +800,524 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       goldUnlocked: Boolean(raw?.goldUnlocked),
       rareUnlocked: Boolean(raw?.rareUnlocked),
       epicUnlocked: Boolean(raw?.epicUnlocked),
+      autobuyerUnlocked: Boolean(raw?.autobuyerUnlocked),
       silverChanceLvl: toSafeInt(raw?.silverChanceLvl, 0),
       goldChanceLvl: toSafeInt(raw?.goldChanceLvl, 0),
       rareChanceLvl: toSafeInt(raw?.rareChanceLvl, 0),
       epicChanceLvl: toSafeInt(raw?.epicChanceLvl, 0),
+      offlineCap: Math.min(getUpgrade('offlineCap')!.maxLevel ?? Infinity, toSafeInt(raw?.offlineCap, 0)),
+      offlineEfficiency: Math.min(getUpgrade('offlineEfficiency')!.maxLevel ?? Infinity, toSafeInt(raw?.offlineEfficiency, 0)),
+      attentionHeads: Math.min(getUpgrade('attentionHeads')!.maxLevel ?? Infinity, toSafeInt(raw?.attentionHeads, 0)),
+      deepLayers: Math.min(getUpgrade('deepLayers')!.maxLevel ?? Infinity, toSafeInt(raw?.deepLayers, 0)),
+    }
+  }
+  function sanitizeWeightUpgrades(raw: any): WeightUpgrades {
+    return {
+      passiveBoost: Math.min(getUpgrade('passiveBoost')!.maxLevel ?? Infinity, toSafeInt(raw?.passiveBoost, 0)),
+      clickBoost: Math.min(getUpgrade('clickBoost')!.maxLevel ?? Infinity, toSafeInt(raw?.clickBoost, 0)),
+      warmStart: Math.min(getUpgrade('warmStart')!.maxLevel ?? Infinity, toSafeInt(raw?.warmStart, 0)),
+    }
+  }
+
+  // Weights are paid out against lifetime potential, so retraining twice without new progress yields nothing
+  function pendingRetrainWeights() {
+    if (!persisted.current) return 0
+    const potential = retrainWeights(toFiniteNumber(persisted.current.totalEverCollected), maxTotalCores.current)
+    return Math.max(0, potential - (persisted.current.weightsEarned || 0))
+  }
+
+  // Live passive income across all cores (levels and stacks), as reported by getStats
+  function passiveTokensPerSec() {
+    let tps = 0
+    for (let i = 0; i < clusters.current.length; i++) {
+      const c = clusters.current[i]
+      tps += levelRow(c.level).rate * lineagePassiveMult(c.lineage) * (c.stackCount || 1)
+    }
+    return tps * upgradeEffect('computeMult') * upgradeEffect('passiveBoost') * achievementMult('passive') * researchMult('passive') * pace.current.passiveMult
+  }
+
+  // Expected auto-collect income: limited by both the collect interval and the average spawn supply
+  function autoCollectTokensPerSec() {
+    if (upgradeLevel('autoCollect') <= 0) return 0
+    let spawnPerSec = upgradeEffect('spawnQty') / Math.max(MIN_SPAWN_INTERVAL, pace.current.spawnBase / upgradeEffect('spawnRate'))
+    const iqUp = persisted.current?.iqUpgrades
+    if (iqUp?.silverUnlocked) spawnPerSec += upgradeEffect('silverChanceUp') / 5
+    if (iqUp?.goldUnlocked) spawnPerSec += upgradeEffect('goldChanceUp') / 5
+    if (iqUp?.rareUnlocked) spawnPerSec += upgradeEffect('rareChanceUp') / 5
+    if (iqUp?.epicUnlocked) spawnPerSec += upgradeEffect('epicChanceUp') / 5
+    const perCollect = (CLICK_BASE + upgradeEffect('clickYield')) * upgradeEffect('clickBoost') * lineageClickMultiplier() * achievementMult('click') * researchMult('click')
+    return autoCollectRate(upgradeEffect('autoCollect'), spawnPerSec) * perCollect
+  }
+
+  // Cores per lineage, stacks included
+  function lineageCounts(): Record<CoreLineage, number> {
+    const counts = { transformer: 0, ensemble: 0 }
+    for (let i = 0; i < clusters.current.length; i++) {
+      const c = clusters.current[i]
+      if (c.lineage) counts[c.lineage] += c.stackCount || 1
+    }
+    return counts
+  }
+
+  // Global click multiplier contributed by Transformer cores
+  function lineageClickMultiplier() {
+    return lineageClickMult(lineageCounts())
+  }
+
+  function syncPendingLineages() {
+    const pending = clusters.current.reduce((n, c) => n + (c.awaitingLineage ? 1 : 0), 0)
+    setUiState(s => (s.pendingLineages === pending ? s : { ...s, pendingLineages: pending }))
+  }
+
+  // After Deep Layers raises the max level, cores held for a split at the old max level up instead
+  function releaseLineageHolds() {
+    const cap = coreLevelCap()
+    let released = false
+    for (const c of clusters.current) {
+      if (!c.awaitingLineage || c.level >= cap) continue
+      c.awaitingLineage = false
+      c.progress = 0
+      c.level += 1
+      c.colorIndex = LEVEL_COLOR_INDEX[c.level - 1]
+      c.levelUpAnimT = 0.8
+      c.scaleMultiplier = 1.0
+      c.flashT = GLOW_MS / 1000
+      released = true
+    }
+    if (released) {
+      syncPendingLineages()
+      notifyLevelReached()
     }
   }
 
-  function computeOfflineTrickle(minutes: number) {
-    const m = clamp(minutes, 0, 30)
-    // Approximate using level-1 rate and current compute multiplier
-    const computeMult = Math.pow(2, (persisted.current?.iqUpgrades.computeMult ?? 0))
-    const perSec = 1 * computeMult * Math.max(1, clusters.current.length)
-    const approx = perSec * 60 * m * 0.12
-    return Math.floor(approx)
+  // Current multiplier of all running buffs aimed at clicks or passive income
+  function buffMult(target: 'click' | 'passive') {
+    let m = 1
+    for (const id of Object.keys(activeBuffs.current) as BuffId[]) {
+      if (BUFFS[id].target === target) m *= activeBuffs.current[id]!.mult
+    }
+    return m
+  }
+
+  function syncBuffs() {
+    const buffs = (Object.keys(activeBuffs.current) as BuffId[]).map(id => ({ id, ...activeBuffs.current[id]! }))
+    setUiState(s => ({ ...s, buffs }))
+  }
+
+  function expireBuffs(now: number) {
+    let changed = false
+    for (const id of Object.keys(activeBuffs.current) as BuffId[]) {
+      if (activeBuffs.current[id]!.endsAt <= now) { delete activeBuffs.current[id]; changed = true }
+    }
+    if (changed) syncBuffs()
+  }
+
+  function achievementMetrics(): AchievementMetrics {
+    let totalCores = 0
+    let coresL5 = 0
+    let highestLevel = 0
+    for (let i = 0; i < clusters.current.length; i++) {
+      const c = clusters.current[i]
+      const n = c.stackCount || 1
+      totalCores += n
+      // Exactly L5: Deep Layers levels above it are their own rows, not "L5 cores"
+      if (c.level === BASE_MAX_LEVEL) coresL5 += n
+      highestLevel = Math.max(highestLevel, c.level)
+    }
+    return {
+      ...achievements.current.counters,
+      totalCollected: toFiniteNumber(persisted.current?.totalEverCollected ?? ZERO),
+      highestLevel,
+      totalCores,
+      coresL5,
+      retrains: persisted.current?.retrains ?? 0,
+    }
+  }
+
+  function bumpAchievement(counter: AchievementCounter, n = 1) {
+    achievements.current.counters[counter] += n
+  }
+
+  // Permanent income bonus from unlocked achievements
+  function achievementMult(kind: 'click' | 'passive') {
+    return achievementBonus(achievements.current.unlocked, kind)
+  }
+
+  // Unlock whatever the current metrics satisfy. silent: record only (used right after loading a save).
+  function checkAchievements(silent = false) {
+    const fresh = newlyUnlocked(achievements.current.unlocked, achievementMetrics())
+    if (fresh.length === 0) return
+    achievements.current.unlocked = [...achievements.current.unlocked, ...fresh.map(a => a.id)]
+    setUiState(s => ({ ...s, achievements: achievements.current.unlocked }))
+    if (silent) return
+    for (const a of fresh) {
+      if (a.effect) {
+        try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name: a.effect, t: Date.now() } })) } catch {}
+      }
+      const bonus = a.bonus ? ` (+${a.bonus.pct}% ${a.bonus.kind})` : ''
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Achievement: ${a.label}${bonus}`, kind: 'achievement', ms: 3000 } })) } catch {}
+    }
+  }
+
+  // The whole save as one document, built from live state
+  function buildSave(p: Persisted): Partial<SaveDocument> {
+    return {
+      tokens: serialize(p.tokens),
+      iq: serialize(p.iq),
+      totalEverCollected: serialize(p.totalEverCollected),
+      lastSeen: Date.now(),
+      upgrades: p.upgrades,
+      iqUpgrades: p.iqUpgrades,
+      weights: p.weights,
+      weightsEarned: p.weightsEarned,
+      weightUpgrades: p.weightUpgrades,
+      retrains: p.retrains,
+      cosmeticTokens: p.cosmeticTokens,
+      maxTotalCores: maxTotalCores.current,
+      dragAndDropEnabled: p.dragAndDropEnabled,
+      notation: uiStateRef.current?.notation ?? 'suffix',
+      coreData: clusters.current.map(c => ({ level: c.level, x: c.x, y: c.y, stackCount: c.stackCount || 1, lineage: c.lineage, awaitingLineage: c.awaitingLineage || undefined })),
+      cosmetics: savedCosmetics.current ?? undefined,
+      achievements: achievements.current,
+      autobuyer: autobuyer.current,
+      research: research.current,
+      events: eventSchedule.current ?? undefined,
+      pacing: pacing.current,
+    }
+  }
+
+  // Write the save document in one setItem, so a crash can't leave half of it updated
+  function saveGame() {
+    const storage = getGalaxyStorage()
+    if (!persisted.current || !storage) return
+    try {
+      writeSave(slotStorage(storage, activeSlot.current), buildSave(persisted.current))
+    } catch (error) {
+      console.warn('Failed to save game state:', error)
+    }
+  }
+
+  // Slot list changes go straight to storage; the live game only changes when the active slot does
+  function changeSlots(change: (storage: StorageMirror) => SlotChange): SlotResult {
+    const storage = getGalaxyStorage()
+    if (!storage || !persisted.current) return { ok: false, error: 'The game is still loading; try again in a moment' }
+    try {
+      const { error } = change(storage)
+      return { ok: !error, error }
+    } catch (e) {
+      return { ok: false, error: `Could not be stored (${e instanceof Error ? e.message : String(e)})` }
+    }
+  }
+
+  // Load a save document into the live game: every field goes through its sanitizer, cores are placed
+  // at random spots. Used on start-up and by swapSave.
+  function applySave(save: SaveDocument): Persisted {
+    // Plain integers from older saves parse as-is; large values are stored as "m" + "e" + exponent
+    const tokens = max(parse(save.tokens ?? null), ZERO)
+    const iq = max(parse(save.iq ?? null), ZERO)
+    const upgrades = sanitizeUpgrades(save.upgrades ?? {})
+    const iqUpgrades = sanitizeIQUpgrades(save.iqUpgrades ?? {})
+    const lastSeen = toSafeInt(save.lastSeen, 0) || Date.now()
+    const totalEverCollected = max(parse(save.totalEverCollected ?? null), ZERO)
+    const dragAndDropEnabled = save.dragAndDropEnabled !== false
+    const notation: Notation = isNotation(save.notation) ? save.notation : 'suffix'
+    const weights = toSafeInt(save.weights, 0)
+    const weightsEarned = Math.max(weights, toSafeInt(save.weightsEarned, 0))
+    const weightUpgrades = sanitizeWeightUpgrades(save.weightUpgrades ?? {})
+    const retrains = toSafeInt(save.retrains, 0)
+    const cosmeticTokens = toSafeInt(save.cosmeticTokens, 0)
+    achievements.current = sanitizeAchievements(save.achievements ?? null)
+    autobuyer.current = sanitizeAutobuyer(save.autobuyer ?? null)
+    research.current = sanitizeResearch(save.research ?? null, Date.now())
+    eventSchedule.current = sanitizeSchedule(save.events ?? null, Date.now())
+    pacing.current = sanitizePacing(save.pacing ?? null)
+    pace.current = pacingValues(pacing.current)
+    maxTotalCores.current = toSafeInt(save.maxTotalCores, 0)
+    savedCosmetics.current = save.cosmetics && typeof save.cosmetics === 'object' ? save.cosmetics : null
+    const p: Persisted = { tokens, iq, upgrades, iqUpgrades, lastSeen, totalEverCollected, dragAndDropEnabled, weights, weightsEarned, weightUpgrades, retrains, cosmeticTokens }
+    persisted.current = p
+    setUiState(s => ({ ...s, tokens, iq, upgrades, iqUpgrades, dragAndDropEnabled, weights, weightUpgrades, retrains, offlineReport: null, notation, pendingLineages: 0, buffs: [], cosmeticTokens, activeEvent: eventSchedule.current?.active ?? null, achievements: achievements.current.unlocked, autobuyer: { ...autobuyer.current, log: [] }, research: research.current, tools: toolsView(), pacing: pacing.current, cosmetics: savedCosmetics.current ?? undefined }))
+    // Restore cores
+    if (save.coreData) {
+      try {
+        const arr: any[] = save.coreData
+        if (Array.isArray(arr)) {
+          clusters.current = []
+          for (const item of arr) {
+            const level = clampLevel(parseInt(item.level, 10) || 1, coreLevelCap())
+            const stackCount = Math.max(1, parseInt(item.stackCount, 10) || 1)
+            const awaitingLineage = level === coreLevelCap() && item.awaitingLineage === true
+            const x = SPAWN_MARGIN + Math.random() * Math.max(0, worldW.current - SPAWN_MARGIN * 2)
+            const y = Math.max(TOP_EXCLUDE, SPAWN_MARGIN + Math.random() * Math.max(0, worldH.current - SPAWN_MARGIN * 2 - TOP_EXCLUDE))
+            clusters.current.push({
+              id: clusters.current.length,
+              x, y,
+              level,
+              progress: awaitingLineage ? 10 : 0,
+              members: 0,
+              radius: 5 + level * 2,
+              emitTimer: 0,
+              flashT: 0,
+              webIndices: [],
+              colorIndex: LEVEL_COLOR_INDEX[level - 1] || LEVEL_COLOR_INDEX[0],
+              stackCount,
+              isVisible: true,
+              scaleMultiplier: 1.0,
+              lineage: isLineage(item.lineage) ? item.lineage : undefined,
+              awaitingLineage,
+            })
+          }
+          syncPendingLineages()
+        }
+      } catch {}
+    }
+    return p
+  }
+
+  // Drop what only lives in this session (capsules, tools, buffs, combo, autobuyer log) before the save changes under it
+  function resetSession() {
+    capsules.current = []
+    nextCapsuleSpawnAt.current = 0
+    activeTool.current = null
+    toolCooldowns.current = emptyCooldowns()
+    lassoPath.current = null
+    gravityWell.current = null
+    activeBuffs.current = {}
+    combo.current = { streak: 0, remaining: 0, window: 0, x: 0, y: 0 }
+    autobuyLog.current = []
+  }
+
+  // Replace the running galaxy with another save (import, slot switch): session state, cores and
+  // captured data are torn down first. No offline earnings: a slot's away-time may overlap time
+  // already played in another slot, so only a cold start credits it.
+  function swapSave(save: SaveDocument) {
+    resetSession()
+    resetToSingleCore()
+    applySave(save)
+    checkAchievements(true)
+  }
+
+  function syncAutobuyer() {
+    setUiState(s => ({ ...s, autobuyer: { ...autobuyer.current, log: autobuyLog.current } }))
+  }
+
+  // Buy whatever the autobuyer rules allow right now (through the normal purchase path) and log it
+  function runAutobuyer() {
+    const p = persisted.current
+    if (!p || !p.iqUpgrades.autobuyerUnlocked || !autobuyer.current.enabled) return
+    const levels: Partial<Record<TokenUpgradeId, number>> = {}
+    for (const id of AUTOBUY_TARGETS) levels[id] = upgradeLevel(id)
+    // Rules compare Standard prices against tokens scaled down by the pacing price multiplier
+    const mult = priceMult('tokens')
+    const plan = planPurchases(autobuyer.current.rules, levels, toFiniteNumber(p.tokens) / mult, pace.current)
+    const bought: AutobuyPurchase[] = []
+    for (const b of plan) {
+      if (!buyUpgrade(b.id, 1)) break
+      bought.push({ ...b, cost: scaleCost(b.cost, mult) })
+    }
+    if (bought.length === 0) return
+    autobuyLog.current = pushLog(autobuyLog.current, bought, Date.now())
+    syncAutobuyer()
+  }
+
+  // Permanent bonus from finished research; click also includes the research-gated Multi-Head Attention
+  function researchMult(kind: 'click' | 'passive') {
+    const bonus = researchBonus(research.current.completed, kind)
+    return kind === 'click' ? bonus * upgradeEffect('attentionHeads') : bonus
+  }
+
+  // Switch pacing: new spawn waves, capture pull, passive income and token prices use it from the next frame
+  function savePacing(next: PacingSave) {
+    pacing.current = next
+    pace.current = pacingValues(next)
+    saveGame()
+    setUiState(s => ({ ...s, pacing: next }))
+  }
+
+  // Finish research on wall-clock time, so projects also complete while the game is closed
+  function stepResearchQueue(now: number) {
+    const { state, finished } = stepResearch(research.current, now)
+    if (finished.length === 0) return
+    research.current = state
+    saveGame()
+    setUiState(s => ({ ...s, research: state }))
+    for (const id of finished) {
+      const def = getResearch(id)!
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Research complete: ${def.label}`, kind: 'research', ms: 3000 } })) } catch {}
+    }
+  }
+
+  // Modifiers of the running timed event (neutral defaults otherwise)
+  function currentEventMods() {
+    return eventMods(eventSchedule.current?.active?.id)
+  }
+
+  // Start or end timed events on wall-clock time. The schedule is saved on every change so a reload
+  // resumes the running event and keeps its cooldown instead of rolling a new one.
+  function stepEvents(now: number) {
+    if (!eventSchedule.current) return
+    const { schedule, started, ended } = stepSchedule(eventSchedule.current, now)
+    if (schedule === eventSchedule.current) return
+    eventSchedule.current = schedule
+    saveGame()
+    setUiState(s => ({ ...s, activeEvent: schedule.active }))
+    if (ended) {
+      try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name: "event-end", event: ended, t: now } })) } catch {}
+    }
+    if (started) {
+      bumpAchievement('eventsSeen')
+      const def = getEvent(started)!
+      try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name: "event-start", event: started, label: def.label, description: def.description, endsAt: schedule.active!.endsAt, t: now } })) } catch {}
+    }
+  }
+
+  function pushFloatingText(x: number, y: number, text: string, color: string) {
+    // Several rewards from one capture stack upward instead of overlapping
+    const stacked = floatingTexts.current.filter(f => f.t < 0.1 && Math.abs(f.x - x) < 1 && Math.abs(f.y - y) < 60).length
+    floatingTexts.current.push({ x, y: y - stacked * 14, text, color, t: 0, life: 1.2 })
+    if (floatingTexts.current.length > 40) floatingTexts.current.splice(0, floatingTexts.current.length - 40)
+  }
+
+  // Chain a manual capture into the combo; returns the multiplier the new streak earns
+  function advanceCombo(x: number, y: number) {
+    const c = combo.current
+    c.streak = c.remaining > 0 ? c.streak + 1 : 1
+    c.window = upgradeEffect('comboWindow')
+    c.remaining = c.window
+    c.x = x
+    c.y = y
+    const counters = achievements.current.counters
+    if (c.streak > counters.bestCombo) counters.bestCombo = c.streak
+    return comboMultiplier(c.streak)
+  }
+
+  // Roll a captured outlier's tier drop table and pay it out. Shared by clicks, drags, Mini-Batch and Auto Collect;
+  // baseGain is the token value before multipliers.
+  function grantOutlierDrops(tier: number, baseGain: number, x: number, y: number, source: 'click' | 'drag' | 'batch' | 'auto') {
+    if (!persisted.current) return
+    // Clicks and drags extend the combo, Mini-Batch extras ride the current streak, autocollect never counts
+    const comboMult = source === 'click' || source === 'drag' ? advanceCombo(x, y)
+      : source === 'batch' ? comboMultiplier(combo.current.streak) : 1
+    const drops = rollDrops(tier)
+    const table = dropTable(tier)
+    if (source === 'click') bumpAchievement('clickCaptures')
+    else if (source === 'drag') bumpAchievement('dragCaptures')
+    if (drops.tier === 4) bumpAchievement('rareCatches')
+    else if (drops.tier === 5) bumpAchievement('epicCatches')
+    const gain = baseGain * drops.tokenMult * comboMult * upgradeEffect('clickBoost') * lineageClickMultiplier() * buffMult('click') * achievementMult('click') * researchMult('click')
+    persisted.current.tokens = add(persisted.current.tokens, gain)
+    setUiState(s => ({ ...s, tokens: persisted.current!.tokens }))
+    pushFloatingText(x, y, `+${format(gain, uiStateRef.current?.notation)}`, table.color)
+    if (drops.iq > 0) {
+      persisted.current.iq = add(persisted.current.iq, drops.iq)
+      setUiState(s => ({ ...s, iq: persisted.current!.iq }))
+      pushFloatingText(x, y, `+${drops.iq} IQ`, '#a78bfa')
+    }
+    if (drops.buffs.length > 0) {
+      const now = Date.now()
+      for (const b of drops.buffs) {
+        activeBuffs.current[b.id] = mergeBuff(activeBuffs.current[b.id], b.mult, now + b.seconds * 1000)
+        pushFloatingText(x, y, `${BUFFS[b.id].label} ×${b.mult}`, '#fbbf24')
+      }
+      syncBuffs()
+    }
+    if (drops.cosmeticTokens > 0) {
+      persisted.current.cosmeticTokens += drops.cosmeticTokens
+      setUiState(s => ({ ...s, cosmeticTokens: persisted.current!.cosmeticTokens }))
+      pushFloatingText(x, y, `+${drops.cosmeticTokens} Cosmetic Token`, '#f472b6')
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: 'Cosmetic token found: redeem it in the HUD', kind: 'unlock', ms: 3000 } })) } catch {}
+    }
+  }
+
+  // Sprites the Cosmetics panel treats as unlocked (saved list plus the baseline set)
+  function unlockedSpriteIds(cos: any): string[] {
+    const list: string[] = Array.isArray(cos?.unlockedSprites) ? cos.unlockedSprites : []
+    const baseline = cos?.strictLocked ? ['database'] : ALL_SPRITE_IDS.filter(id => !DEFAULT_LOCKED_SPRITES.includes(id))
+    return Array.from(new Set([...list, ...baseline]))
+  }
+
+  // What the cosmetic shop counts as owned for a saved cosmetics object
+  function ownedCosmetics(cos: any): ShopOwned {
+    return { sprites: unlockedSpriteIds(cos), effects: ownedEffects(cos), ambientSlots: ambientSlots(cos) }
+  }
+
+  // Read-modify-write the saved cosmetics (missing defaults filled in) and reflect it in the panel
+  function updateCosmetics(change: (cos: any) => any) {
+    const updated: any = change({ ...(savedCosmetics.current || {}) })
+    updated.coreColors = corePalette(updated)
+    if (!Array.isArray(updated.ambientColors)) updated.ambientColors = ["#e5e7eb"]
+    updated.coreSprites = padLevels(Array.isArray(updated.coreSprites) ? updated.coreSprites : null, LEVEL_CAP, () => 'database')
+    if (!updated.specialEffects) updated.specialEffects = { rgbNeon: false, customShift: false, shiftSpeed: 1.0 }
+    savedCosmetics.current = updated
+    saveGame()
+    ;(snapshot as any).currentCosmetics = updated
+    // Immediately reflect unlocks in UI state so panel updates without refresh
+    try { setUiState(s => ({ ...s, cosmetics: updated })) } catch {}
+  }
+
+  // Persist a sprite unlock into the saved cosmetics and (unless the caller announces it) toast it
+  function unlockSprite(id: string, announce = true) {
+    updateCosmetics(cos => {
+      const list: string[] = Array.isArray(cos.unlockedSprites) ? cos.unlockedSprites : []
+      return { ...cos, unlockedSprites: Array.from(new Set([...list, id])) }
+    })
+    bumpAchievement('spritesUnlocked')
+    // Fire toast event with unlocked name
+    const def = ALL_SPRITES.find(s => s.id === id)
+    const name = def?.name || id
+    if (announce) try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Unlocked: ${name}`, kind: 'unlock', ms: 3000 } })) } catch {}
+    return name
+  }
+
+  // Pay out an opened loot capsule: one reward rolled from its rarity, announced with a toast
+  function openCapsule(rarityId: CapsuleRarityId, x: number, y: number) {
+    const p = persisted.current
+    const rarity = getRarity(rarityId)
+    if (!p || !rarity) return
+    const cos = savedCosmetics.current
+    const ownedSprites = unlockedSpriteIds(cos)
+    const ownedColors: string[] = Array.isArray(cos?.unlockedColors) ? cos.unlockedColors : []
+    const reward: CapsuleReward = rollReward(rarity.id, {
+      sprites: ALL_SPRITE_IDS.filter(id => !ownedSprites.includes(id)),
+      colors: CAPSULE_COLORS.filter(c => !ownedColors.includes(c.id)).map(c => c.id),
+      effects: CAPSULE_EFFECTS.filter(e => !(e === 'confetti' ? p.iqUpgrades.confettiUnlocked : p.iqUpgrades.paletteUnlocked)),
+    })
+    let text = ''
+    if (reward.kind === 'tokens') {
+      const gain = capsuleTokens(reward, passiveTokensPerSec())
+      p.tokens = add(p.tokens, gain)
+      setUiState(s => ({ ...s, tokens: p.tokens }))
+      text = `+${format(gain, uiStateRef.current?.notation)} tokens`
+    } else if (reward.kind === 'iq') {
+      p.iq = add(p.iq, reward.amount)
+      setUiState(s => ({ ...s, iq: p.iq }))
+      text = `+${reward.amount} IQ`
+    } else if (reward.kind === 'buff') {
+      activeBuffs.current[reward.buff] = mergeBuff(activeBuffs.current[reward.buff], reward.mult, Date.now() + reward.seconds * 1000)
+      syncBuffs()
+      text = `${BUFFS[reward.buff].label} ×${reward.mult} for ${reward.seconds}s`
+    } else if (reward.kind === 'color') {
+      updateCosmetics(c => ({ ...c, unlockedColors: Array.from(new Set([...(Array.isArray(c.unlockedColors) ? c.unlockedColors : []), reward.color])) }))
+      text = `New color: ${CAPSULE_COLORS.find(c => c.id === reward.color)?.label || reward.color}`
+    } else if (reward.kind === 'effect') {
+      p.iqUpgrades = { ...p.iqUpgrades, [reward.effect === 'confetti' ? 'confettiUnlocked' : 'paletteUnlocked']: true }
+      setUiState(s => ({ ...s, iqUpgrades: p.iqUpgrades }))
+      try { window.dispatchEvent(new CustomEvent('galaxy-effect', { detail: { name: reward.effect, t: Date.now(), x, y } })) } catch {}
+      text = `${getUpgrade(reward.effect)?.label || reward.effect} unlocked`
+    } else {
+      text = `Unlocked ${unlockSprite(reward.sprite, false)}`
+    }
+    pushFloatingText(x, y, text, rarity.color)
+    try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `${rarity.label} capsule: ${text}`, kind: 'capsule', ms: 3000 } })) } catch {}
+  }
+
+  function computeOfflineReport(awaySeconds: number): OfflineReport {
+    const passivePerSec = passiveTokensPerSec()
+    const autoPerSec = autoCollectTokensPerSec()
+    // Residual Connections adds its points of efficiency on top (offlineEarnings clamps at 100%)
+    const efficiency = upgradeEffect('offlineEfficiency') + researchBonus(research.current.completed, 'offline') - 1
+    const earned = offlineEarnings(passivePerSec, autoPerSec, awaySeconds, upgradeEffect('offlineCap'), efficiency)
+    return { ...earned, passivePerSec, autoPerSec }
   }
 
   function updateOrbitalMovement(dt: number) {
@@ -655,6 +1410,13 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
         bouncePhases.current.push(phaseOffset)
       }
 
+      // A core held by the pointer leaves its orbit until dropped
+      if (cluster.isDragging) {
+        cluster.vx = 0
+        cluster.vy = 0
+        return
+      }
+
       // Track previous position for velocity calculation
       const prevX = cluster.x
       const prevY = cluster.y
@@ -796,87 +1558,72 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     }
     points.current = arr
 
-    // Load persistence (validated)
-    try {
-      const tokensRaw = localStorage.getItem("galaxy.tokens")
-      const iqRaw = localStorage.getItem("galaxy.iq")
-      const upgradesRaw = localStorage.getItem("galaxy.upgrades")
-      const iqUpRaw = localStorage.getItem("galaxy.iqUpgrades")
-      const lastSeenRaw = localStorage.getItem("galaxy.lastSeen")
-      const dragDropRaw = localStorage.getItem("galaxy.dragAndDropEnabled")
-      const tokens = tokensRaw ? (parseInt(tokensRaw, 10) || 0) : 0
-      const iq = iqRaw ? (parseInt(iqRaw, 10) || 0) : 0
-      const upgrades = sanitizeUpgrades(upgradesRaw ? JSON.parse(upgradesRaw) : {})
-      const iqUpgrades = sanitizeIQUpgrades(iqUpRaw ? JSON.parse(iqUpRaw) : {})
-      const lastSeen = lastSeenRaw ? (parseInt(lastSeenRaw, 10) || Date.now()) : Date.now()
-      const tecRaw = localStorage.getItem('galaxy.totalEverCollected')
-      const totalEverCollected = tecRaw ? (parseInt(tecRaw, 10) || 0) : 0
-      const dragAndDropEnabled = dragDropRaw ? (dragDropRaw === 'true') : true
-      persisted.current = { tokens, iq, upgrades, iqUpgrades, lastSeen, totalEverCollected, dragAndDropEnabled }
-      setUiState({ tokens, iq, upgrades, iqUpgrades, dragAndDropEnabled })
-      // Restore cores
-      const coreDataRaw = localStorage.getItem('galaxy.coreData')
-      if (coreDataRaw) {
-        try {
-          const arr = JSON.parse(coreDataRaw)
-          if (Array.isArray(arr)) {
-            clusters.current = []
-            for (const item of arr) {
-              const level = Math.max(1, Math.min(5, parseInt(item.level, 10) || 1))
-              const stackCount = Math.max(1, parseInt(item.stackCount, 10) || 1)
-              const x = SPAWN_MARGIN + Math.random() * Math.max(0, worldW.current - SPAWN_MARGIN * 2)
-              const y = Math.max(TOP_EXCLUDE, SPAWN_MARGIN + Math.random() * Math.max(0, worldH.current - SPAWN_MARGIN * 2 - TOP_EXCLUDE))
-              clusters.current.push({
-                id: clusters.current.length,
-                x, y,
-                level,
-                progress: 0,
-                members: 0,
-                radius: 5 + level * 2,
-                emitTimer: 0,
-                flashT: 0,
-                webIndices: [],
-                colorIndex: LEVEL_COLOR_INDEX[level - 1] || LEVEL_COLOR_INDEX[0],
-                stackCount,
-                isVisible: true,
-                scaleMultiplier: 1.0,
-              })
-            }
-          }
-        } catch {}
-      }
-      // Offline trickle
-      const minutes = (Date.now() - lastSeen) / 60000
-      const add = computeOfflineTrickle(minutes)
-      if (add > 0) {
-        persisted.current.tokens += add
-        setUiState(s => ({ ...s, tokens: persisted.current!.tokens }))
+    // Load persistence (validated) once storage is open; a legacy multi-key save is migrated into galaxy.save here.
+    // Until then persisted.current stays null, which every purchase and save path already checks.
+    let cancelled = false
+    galaxyStorage().then(storage => {
+      if (cancelled) return
+      try {
+        activeSlot.current = loadSlots(storage).active
+        const save = loadSave(slotStorage(storage, activeSlot.current))
+        const p = applySave(save)
+        // Offline progress on a cold start only (needs restored cores), measured from this slot's last
+        // write; quick reloads earn nothing, and swapSave never credits away-time
+        const away = offlineAwaySeconds(save.savedAt ?? save.lastSeen, Date.now())
+        const report = away > 0 ? computeOfflineReport(away) : null
+        if (report && report.total > 0) {
+          p.tokens = add(p.tokens, fromNumber(report.total))
+          setUiState(s => ({ ...s, tokens: p.tokens, offlineReport: report }))
+        }
+        // Record anything this save already qualifies for without re-announcing it
+        checkAchievements(true)
+      } catch (error) {
+        console.warn('Failed to load game state from storage:', error)
+        // Initialize with default values if the save can't be read
+        eventSchedule.current = initialSchedule(Date.now())
+        persisted.current = {
+          tokens: ZERO,
+          iq: ZERO,
+          upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0 },
+          iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, autobuyerUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, offlineCap: 0, offlineEfficiency: 0, attentionHeads: 0, deepLayers: 0 },
+          lastSeen: Date.now(),
+          totalEverCollected: ZERO,
+          dragAndDropEnabled: true,
+          weights: 0,
+          weightsEarned: 0,
+          weightUpgrades: { passiveBoost: 0, clickBoost: 0, warmStart: 0 },
+          retrains: 0,
+          cosmeticTokens: 0,
+        }
+        setUiState({
+          tokens: ZERO,
+          iq: ZERO,
+          upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0 },
+          iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, autobuyerUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, offlineCap: 0, offlineEfficiency: 0, attentionHeads: 0, deepLayers: 0 },
+          dragAndDropEnabled: true,
+          weights: 0,
+          weightUpgrades: { passiveBoost: 0, clickBoost: 0, warmStart: 0 },
+          retrains: 0,
+          offlineReport: null,
+          notation: 'suffix',
+          pendingLineages: 0,
+          buffs: [],
+          cosmeticTokens: 0,
+          activeEvent: null,
+          achievements: [],
+          autobuyer: { ...defaultAutobuyer(), log: [] },
+          research: emptyResearch(),
+          tools: toolsView(),
+          pacing: pacing.current,
+        })
       }
-    } catch (error) {
-      console.warn('Failed to load game state from localStorage:', error)
-      // Initialize with default values if localStorage fails
-      persisted.current = {
-        tokens: 0,
-        iq: 0,
-        upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 },
-        iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 },
-        lastSeen: Date.now(),
-        totalEverCollected: 0,
-        dragAndDropEnabled: true
-      }
-      setUiState({
-        tokens: 0,
-        iq: 0,
-        upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 },
-        iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 },
-        dragAndDropEnabled: true
-      })
-    }
+    })
 
     // Initial spawn cooldown - reduced for immediate gameplay
     spawnCooldown.current = 1.0
 
     return () => {
+      cancelled = true
       if (mq && onChange) {
         try { mq.removeEventListener("change", onChange) } catch { try { mq.removeListener(onChange as any) } catch {} }
       }
@@ -888,43 +1635,28 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     if (!enabled) return
     let t: number | undefined
     const write = () => {
-      if (!persisted.current) return
-      try {
-        localStorage.setItem("galaxy.tokens", String(persisted.current.tokens))
-        localStorage.setItem("galaxy.upgrades", JSON.stringify(persisted.current.upgrades))
-        localStorage.setItem("galaxy.iqUpgrades", JSON.stringify(persisted.current.iqUpgrades))
-        localStorage.setItem("galaxy.iq", String(persisted.current.iq))
-        localStorage.setItem("galaxy.lastSeen", String(Date.now()))
-        localStorage.setItem("galaxy.totalEverCollected", String(persisted.current.totalEverCollected || 0))
-        // Save coreData for restore-on-load
-        const coreData = clusters.current.map(c => ({ level: c.level, x: c.x, y: c.y, stackCount: c.stackCount || 1 }))
-        localStorage.setItem("galaxy.coreData", JSON.stringify(coreData))
-      } catch (error) {
-        console.warn('Failed to save game state to localStorage:', error)
-      }
+      saveGame()
       t = window.setTimeout(write, 1500)
     }
     t = window.setTimeout(write, 1500)
-    const onUnload = () => {
-      try {
-        if (persisted.current) {
-          localStorage.setItem("galaxy.tokens", String(persisted.current.tokens))
-          localStorage.setItem("galaxy.upgrades", JSON.stringify(persisted.current.upgrades))
-          localStorage.setItem("galaxy.iqUpgrades", JSON.stringify(persisted.current.iqUpgrades))
-          localStorage.setItem("galaxy.iq", String(persisted.current.iq))
-          localStorage.setItem("galaxy.lastSeen", String(Date.now()))
-          localStorage.setItem("galaxy.totalEverCollected", String(persisted.current.totalEverCollected || 0))
-          const coreData = clusters.current.map(c => ({ level: c.level, x: c.x, y: c.y, stackCount: c.stackCount || 1 }))
-          localStorage.setItem("galaxy.coreData", JSON.stringify(coreData))
-        }
-      } catch (error) {
-        console.warn('Failed to save game state on unload:', error)
-      }
+    // Leaving or hiding the page: IndexedDB may not finish committing, so the mirror also keeps a
+    // synchronous localStorage copy of the writes still in flight (replayed on the next load)
+    const saveBeforeLeaving = () => {
+      saveGame()
+      const storage = getGalaxyStorage()
+      if (!storage) return
+      storage.backupTo(window.localStorage)
+      void storage.flush()
     }
-    window.addEventListener("beforeunload", onUnload)
+    const onVisibility = () => { if (document.visibilityState === "hidden") saveBeforeLeaving() }
+    window.addEventListener("beforeunload", saveBeforeLeaving)
+    window.addEventListener("pagehide", saveBeforeLeaving)
+    document.addEventListener("visibilitychange", onVisibility)
     return () => {
       if (t) window.clearTimeout(t)
-      window.removeEventListener("beforeunload", onUnload)
+      window.removeEventListener("beforeunload", saveBeforeLeaving)
+      window.removeEventListener("pagehide", saveBeforeLeaving)
+      document.removeEventListener("visibilitychange", onVisibility)
     }
   }, [enabled])
 
@@ -1000,18 +1732,19 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
   }, [enabled])
 
   function simulate(dt: number) {
-    // Unlockable spawn/update system
-    try {
-      // derive cosmetics unlocked list from snapshot cache
-      const cos = (snapshot as any).currentCosmetics || null
-      const unlocked: string[] = Array.isArray(cos?.unlockedSprites) ? cos.unlockedSprites : ALL_SPRITE_IDS
-      const lockedPool = ALL_SPRITE_IDS.filter(id => !unlocked.includes(id))
+    // Timed events run on wall-clock time; their modifiers apply to this whole step
+    stepEvents(Date.now())
+    stepResearchQueue(Date.now())
+    const mods = currentEventMods()
+    const captureSpeed = mods.captureSpeedMult * pace.current.attraction
 
-      // Update active unlockables
-      if (unlockables.current.length > 0) {
+    // Loot capsule spawn/update system
+    try {
+      // Update active capsules
+      if (capsules.current.length > 0) {
         const margin = 96
-        for (let i = unlockables.current.length - 1; i >= 0; i--) {
-          const u = unlockables.current[i]
+        for (let i = capsules.current.length - 1; i >= 0; i--) {
+          const u = capsules.current[i]
           // Drift speed (slowed to 1.2x)
           u.x += u.vx * dt * 1.2
           u.y += u.vy * dt * 1.2
@@ -1025,26 +1758,23 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
             u.breakT += dt
             if (u.breakT >= u.breakTotal) {
               // remove after break finishes
-              unlockables.current.splice(i, 1)
+              capsules.current.splice(i, 1)
               continue
             }
           }
           if (u.x < -margin || u.x > worldW.current + margin || u.y < -margin || u.y > worldH.current + margin) {
-            unlockables.current.splice(i, 1)
+            capsules.current.splice(i, 1)
           }
         }
       }
 
-      // Schedule and spawn new unlockable if none active and some remain locked
+      // Schedule and spawn a new capsule once none is active
       const nowMs = performance.now()
-      if (unlockables.current.length === 0 && lockedPool.length > 0) {
-        if (nextUnlockSpawnAt.current === 0) {
-          // reduce spawn cadence: every ~1 minute
-          const minMs = 60 * 1000
-          const maxMs = 60 * 1000
-          nextUnlockSpawnAt.current = nowMs + (minMs + Math.random() * (maxMs - minMs))
-        } else if (nowMs >= nextUnlockSpawnAt.current) {
-          const spriteId = lockedPool[(Math.random() * lockedPool.length) | 0]
+      if (capsules.current.length === 0) {
+        if (nextCapsuleSpawnAt.current === 0) {
+          nextCapsuleSpawnAt.current = nowMs + CAPSULE_SPAWN_SECONDS * 1000
+        } else if (nowMs >= nextCapsuleSpawnAt.current) {
+          const rarity = rollRarity()
           const edge = (Math.random() * 4) | 0 // 0=left,1=top,2=right,3=bottom
           const speed = 40
           let x = 0, y = 0, vx = 0, vy = 0
@@ -1053,15 +1783,12 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           else if (edge === 1) { y = -60; x = Math.random() * worldW.current; vy = speed; vx = (Math.random() - 0.5) * 10 }
           else { y = worldH.current + 60; x = Math.random() * worldW.current; vy = -speed; vx = (Math.random() - 0.5) * 10 }
           const l5DotRadius = (5 + 5 * 2)
-          const size = l5DotRadius * 8
+          const size = l5DotRadius * 8 * rarity.scale
           // random angular velocity in radians/sec; keep gentle spin
           const av = (Math.random() * 0.6 + 0.2) * (Math.random() < 0.5 ? -1 : 1)
           const seed = Math.random()
-          unlockables.current.push({ id: spriteId, x, y, vx, vy, size, clicks: 0, clicksRequired: 10, angle: 0, av, shakeT: 0, spinBoostT: 0, seed, crackP: 0, breaking: false, breakT: 0, breakTotal: 0.3 })
-          // schedule next spawn ~1 minute
-          const minMs = 60 * 1000
-          const maxMs = 60 * 1000
-          nextUnlockSpawnAt.current = nowMs + (minMs + Math.random() * (maxMs - minMs))
+          capsules.current.push({ rarity: rarity.id, x, y, vx, vy, size, clicks: 0, clicksRequired: rarity.clicks, angle: 0, av, shakeT: 0, spinBoostT: 0, seed, crackP: 0, breaking: false, breakT: 0, breakTotal: 0.3 })
+          nextCapsuleSpawnAt.current = nowMs + CAPSULE_SPAWN_SECONDS * 1000
         }
       }
     } catch {}
@@ -1081,6 +1808,18 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     for (let i = 0; i < clusters.current.length; i++) {
       const c = clusters.current[i]
 
+      // Dragged core follows the pointer; clear it if the drag ended without endDrag
+      if (c.isDragging) {
+        if (dragStateRef.current?.draggedCore === i) {
+          c.x = dragStateRef.current.worldX - (c.dragOffsetX || 0)
+          c.y = dragStateRef.current.worldY - (c.dragOffsetY || 0)
+        } else {
+          c.isDragging = false
+          c.dragOffsetX = undefined
+          c.dragOffsetY = undefined
+        }
+      }
+
       // Update level up animation
       if (c.levelUpAnimT !== undefined) {
         c.levelUpAnimT -= dt
@@ -1270,6 +2009,8 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       }
     }
 
+    stepGravityWell(dt)
+
     // Outliers: despawn off-screen; Capturing: animate toward core then finalize
     for (let i = 0; i < points.current.length; i++) {
       const p = points.current[i]
@@ -1306,7 +2047,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           
           // Enhanced capture speed: 25% faster base, scaling to 75% faster at 1000+ cores
           const coreCount = clusters.current.length
-          const coreSpeedMultiplier = 1.25 + (Math.min(coreCount, 1000) / 1000) * 0.5 // 1.25x to 1.75x based on cores
+          const coreSpeedMultiplier = (1.25 + (Math.min(coreCount, 1000) / 1000) * 0.5) * captureSpeed // 1.25x to 1.75x based on cores
           const spd = (200 + (dist * 2)) * coreSpeedMultiplier // Base speed + distance-based acceleration + core scaling
         const nx = dx / (dist || 1)
         const ny = dy / (dist || 1)
@@ -1433,7 +2174,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
         } else {
           // Only count down capture timer if not being dragged and cooldown has ended
           if (!p.isDragging) {
-            p.captureT = (p.captureT || 0.4) - dt
+            p.captureT = (p.captureT || 0.4) - dt * captureSpeed
           }
         }
 
@@ -1445,17 +2186,15 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           // Assign orbit radius in virtual units based on target core level
           try {
             const tc = (p.targetCluster != null) ? clusters.current[p.targetCluster] : undefined
-            const lvl = tc ? Math.max(1, Math.min(5, tc.level)) : 1
-            const base = [22, 26, 30, 34, 38][lvl - 1]
-            const span = [8, 8, 8, 8, 10][lvl - 1]
-            ;(p as any).orbitRvu = base + Math.random() * span
+            const row = levelRow(tc ? tc.level : 1)
+            ;(p as any).orbitRvu = row.orbit + Math.random() * row.span
           } catch { (p as any).orbitRvu = 28 + Math.random() * 10 }
           p.orbitPhase = Math.random() * Math.PI * 2
           const c2 = clusters.current[p.targetCluster]
           c2.members += 1
           c2.progress += 1
           if (persisted.current) {
-            persisted.current.totalEverCollected = (persisted.current.totalEverCollected || 0) + 1
+            persisted.current.totalEverCollected = add(persisted.current.totalEverCollected, 1)
           }
 
           // Trigger collection animation
@@ -1466,7 +2205,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           else if (Math.random() < 0.35) web[(Math.random() * web.length) | 0] = idx
           if (c2.progress >= 10) {
             c2.progress -= 10
-            if (c2.level < 5) {
+            if (c2.level < coreLevelCap()) {
               // Trigger level up animation before changing level
               c2.levelUpAnimT = 0.8 // 0.8 second animation
               c2.scaleMultiplier = 1.0
@@ -1476,27 +2215,25 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
               c2.colorIndex = LEVEL_COLOR_INDEX[c2.level - 1]
               c2.flashT = GLOW_MS / 1000
 
-              // first time any core reaches level 2: notify to hide panels
-              if (c2.level >= 2 && !firstL2Notified.current) {
-                firstL2Notified.current = true
-                try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name: "l2-reached", t: Date.now() } })) } catch {}
-              }
-              // first time any core reaches level 5: notify
-              if (c2.level >= 5 && !firstMaxNotified.current) {
-                firstMaxNotified.current = true
-                try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name: "first-max", t: Date.now() } })) } catch {}
-              }
+              notifyLevelReached()
+            } else if (c2.awaitingLineage) {
+              // Already waiting on a lineage choice: hold at full progress
+              c2.progress = 10
             } else {
-              // Trigger split animation before splitting
-              c2.levelUpAnimT = 1.0 // Longer animation for splitting
+              // Hold the split until the player picks a lineage (api.chooseLineage)
+              c2.levelUpAnimT = 1.0
               c2.scaleMultiplier = 1.0
+              c2.flashT = GLOW_MS / 1000
 
               consumeMembers(p.targetCluster, 10)
               if (persisted.current) {
-                persisted.current.iq = (persisted.current.iq || 0) + 1
+                persisted.current.iq = add(persisted.current.iq, 1)
                 setUiState(s => ({ ...s, iq: persisted.current!.iq }))
               }
-              splitCore(p.targetCluster)
+              c2.awaitingLineage = true
+              c2.progress = 10
+              syncPendingLineages()
+              try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `L${c2.level} core ready to split: choose a lineage`, kind: 'lineage', ms: 3000 } })) } catch {}
             }
           }
           p.targetCluster = undefined
@@ -1522,6 +2259,34 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     // Update clustered canvases (two-canvas system)
     updateClusteredCanvases(dt)
 
+    // Reward popups drift up and fade; drop-table buffs run on wall-clock time
+    for (let i = floatingTexts.current.length - 1; i >= 0; i--) {
+      const f = floatingTexts.current[i]
+      f.t += dt
+      if (f.t >= f.life) floatingTexts.current.splice(i, 1)
+    }
+    expireBuffs(Date.now())
+
+    // Combo window runs down on game time; letting it empty drops the streak
+    if (combo.current.remaining > 0) {
+      combo.current.remaining -= dt
+      if (combo.current.remaining <= 0) combo.current.streak = 0
+    }
+
+    // Achievements are checked about once a second (level-ups check immediately)
+    achievementAcc.current += dt
+    if (achievementAcc.current >= 1) {
+      achievementAcc.current = 0
+      checkAchievements()
+    }
+
+    // Autobuyer rules run on a throttled cadence rather than every frame
+    autobuyAcc.current += dt
+    if (autobuyAcc.current >= AUTOBUY_INTERVAL) {
+      autobuyAcc.current = 0
+      runAutobuyer()
+    }
+
     // Update ambient fade states for smooth culling
     for (let i = 0; i < points.current.length; i++) {
       const p = points.current[i]
@@ -1560,21 +2325,18 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     const currentOutliers = points.current.reduce((n, p) => n + (p.state === 'outlier' ? 1 : 0), 0)
     spawnCooldown.current -= dt
     if (spawnCooldown.current <= 0) {
-      const upgrades = persisted.current?.upgrades || { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 }
-      const spawnRateBoost = 1 + (upgrades.spawnRate || 0) * 0.2
-      const baseInterval = Math.max(2.5, BASE_SPAWN / spawnRateBoost)
-      const qty = Math.min(5, 1 + (upgrades.spawnQty || 0))
-      const toSpawn = Math.min(qty, Math.max(0, 10 - currentOutliers))
+      const spawnRateBoost = upgradeEffect('spawnRate')
+      const baseInterval = Math.max(MIN_SPAWN_INTERVAL, pace.current.spawnBase / spawnRateBoost)
+      const qty = upgradeEffect('spawnQty') * mods.bronzeSpawnMult
+      const toSpawn = Math.min(qty, Math.max(0, mods.outlierCap - currentOutliers))
       for (let s = 0; s < toSpawn; s++) spawnOutlier(1)
       spawnCooldown.current = rand(baseInterval * 0.6, baseInterval * 1.4)
     }
 
     // Higher-tier spawns on fixed 5s cadence per tier with chance rolls
     const iqUp = persisted.current?.iqUpgrades || { silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, computeMult: 0, autoCollect: 0 }
-    const rollTierSpawn = (tier: 2 | 3 | 4 | 5, baseChance: number) => {
-      const lvl = tier === 2 ? (iqUp.silverChanceLvl || 0) : tier === 3 ? (iqUp.goldChanceLvl || 0) : tier === 4 ? (iqUp.rareChanceLvl || 0) : (iqUp.epicChanceLvl || 0)
-      const eff = Math.min(1, baseChance * (1 + 0.25 * lvl))
-      if (Math.random() < eff) spawnOutlier(tier)
+    const rollTierSpawn = (tier: 2 | 3 | 4 | 5, chanceId: IQUpgradeId) => {
+      if (Math.random() < upgradeEffect(chanceId)) spawnOutlier(tier)
     }
 
     const fixedInterval = 5
@@ -1582,45 +2344,44 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     goldTimer.current -= dt
     rareTimer.current -= dt
     epicTimer.current -= dt
-    if (silverTimer.current <= 0 && iqUp.silverUnlocked) { rollTierSpawn(2, 0.50); silverTimer.current += fixedInterval }
-    if (goldTimer.current <= 0 && iqUp.goldUnlocked) { rollTierSpawn(3, 0.10); goldTimer.current += fixedInterval }
-    if (rareTimer.current <= 0 && iqUp.rareUnlocked) { rollTierSpawn(4, 0.02); rareTimer.current += fixedInterval }
-    if (epicTimer.current <= 0 && iqUp.epicUnlocked) { rollTierSpawn(5, 0.005); epicTimer.current += fixedInterval }
+    if (silverTimer.current <= 0 && iqUp.silverUnlocked) { rollTierSpawn(2, 'silverChanceUp'); silverTimer.current += fixedInterval }
+    if (goldTimer.current <= 0 && iqUp.goldUnlocked) { rollTierSpawn(3, 'goldChanceUp'); goldTimer.current += fixedInterval }
+    if (rareTimer.current <= 0 && iqUp.rareUnlocked) { rollTierSpawn(4, 'rareChanceUp'); rareTimer.current += fixedInterval }
+    if (epicTimer.current <= 0 && iqUp.epicUnlocked) { rollTierSpawn(5, 'epicChanceUp'); epicTimer.current += fixedInterval }
 
     // Core passive income per second (account for stacked cores)
     let tokenDelta = 0
-    const computeMult = Math.pow(2, (persisted.current?.iqUpgrades.computeMult ?? 0))
+    const computeMult = upgradeEffect('computeMult') * upgradeEffect('passiveBoost') * buffMult('passive') * mods.levelRateMult * achievementMult('passive') * researchMult('passive') * pace.current.passiveMult
     for (let i = 0; i < clusters.current.length; i++) {
       const c = clusters.current[i]
       c.emitTimer += dt
       while (c.emitTimer >= 1.0) {
         c.emitTimer -= 1.0
-        const lvlIdx = Math.min(4, Math.max(0, c.level - 1))
         const stackMultiplier = c.stackCount || 1
-        tokenDelta += LEVEL_RATE[lvlIdx] * computeMult * stackMultiplier
+        tokenDelta += levelRow(c.level).rate * computeMult * lineagePassiveMult(c.lineage) * stackMultiplier
       }
     }
 
     // Auto-collect IQ upgrade
-    const autoLvl = persisted.current?.iqUpgrades.autoCollect ?? 0
+    const autoLvl = upgradeLevel('autoCollect')
     if (autoLvl > 0) {
       autoAcc.current += dt
-      const interval = 5 / Math.pow(2, autoLvl) // 5s halved per level
+      const interval = upgradeEffect('autoCollect') // 5s halved per level
       if (autoAcc.current >= interval) {
         autoAcc.current -= interval
         // Collect one outlier if any
         for (let i = 0; i < points.current.length; i++) {
-          if (points.current[i].state === 'outlier') {
+          const p = points.current[i]
+          if (p.state === 'outlier') {
             convertOutlier(i)
-            const upgrades = persisted.current?.upgrades || { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 }
-            tokenDelta += CLICK_BASE + (upgrades.clickYield || 0)
+            grantOutlierDrops(p.tier || 1, CLICK_BASE + upgradeEffect('clickYield'), p.x, p.y, 'auto')
             break
           }
         }
       }
     }
     if (tokenDelta && persisted.current) {
-      persisted.current.tokens += tokenDelta
+      persisted.current.tokens = add(persisted.current.tokens, tokenDelta)
       setUiState(s => ({ ...s, tokens: persisted.current!.tokens }))
     }
   }
@@ -1662,6 +2423,21 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     return best
   }
 
+  function nearestCoreWithin(x: number, y: number, r: number, exclude = -1): number {
+    const r2 = r * r
+    let best = -1
+    let bd = r2
+    for (let i = 0; i < clusters.current.length; i++) {
+      const c = clusters.current[i]
+      if (i === exclude || c.isVisible === false) continue
+      const dx = c.x - x
+      const dy = c.y - y
+      const d2 = dx * dx + dy * dy
+      if (d2 <= bd) { bd = d2; best = i }
+    }
+    return best
+  }
+
   // Spawn a flying outlier of a specific tier (1=Bronze..5=Epic)
   function spawnOutlier(tier: 1 | 2 | 3 | 4 | 5) {
     const W = worldW.current || 0
@@ -1688,6 +2464,66 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     p.tier = tier
   }
 
+  // Capture every outlier passing `test` as a Mini-Batch extra (each rolls its own tier table); returns the count
+  function captureOutliersWhere(test: (p: Point) => boolean) {
+    let n = 0
+    for (let i = 0; i < points.current.length; i++) {
+      const p = points.current[i]
+      if (p.state !== 'outlier' || !test(p)) continue
+      convertOutlier(i)
+      grantOutlierDrops(p.tier || 1, 1, p.x, p.y, 'batch')
+      n++
+    }
+    return n
+  }
+
+  function toolsView(): GalaxyState['tools'] {
+    return { active: activeTool.current, readyAt: toolCooldowns.current, wellEndsAt: gravityWell.current?.endsAt ?? null }
+  }
+
+  function syncTools() {
+    setUiState(s => ({ ...s, tools: toolsView() }))
+  }
+
+  // Start a tool's cooldown and drop back to plain clicks
+  function spendTool(id: ToolId) {
+    toolCooldowns.current = startCooldown(toolCooldowns.current, id, Date.now())
+    activeTool.current = null
+    syncTools()
+  }
+
+  // Gravity well: pull outliers toward the chosen core and capture the ones that reach it.
+  // Ends on time or when the core merges away; survivors slow back to drifting speed.
+  function stepGravityWell(dt: number) {
+    const well = gravityWell.current
+    if (!well) return
+    const cIdx = clusters.current.indexOf(well.core)
+    if (Date.now() >= well.endsAt || cIdx < 0) {
+      gravityWell.current = null
+      for (const p of points.current) {
+        const speed = Math.hypot(p.vx, p.vy)
+        if (p.state === 'outlier' && speed > 100) { p.vx *= 100 / speed; p.vy *= 100 / speed }
+      }
+      syncTools()
+      return
+    }
+    for (let i = 0; i < points.current.length; i++) {
+      const p = points.current[i]
+      if (p.state !== 'outlier') continue
+      const dx = well.core.x - p.x
+      const dy = well.core.y - p.y
+      if (dx * dx + dy * dy <= WELL_CAPTURE_RADIUS * WELL_CAPTURE_RADIUS) {
+        convertOutlier(i)
+        p.targetCluster = cIdx
+        grantOutlierDrops(p.tier || 1, 1, p.x, p.y, 'batch')
+        continue
+      }
+      const v = wellVelocity(p.vx, p.vy, dx, dy, dt)
+      p.vx = v.vx
+      p.vy = v.vy
+    }
+  }
+
   function convertOutlier(idx: number, skipAnimation: boolean = false) {
     const p = points.current[idx]
     const cIdx = nearestCluster(p.x, p.y)
@@ -1753,6 +2589,13 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     points.current.push(shard)
   }
 
+  // One-time effects when any core first reaches L2 (hide panels) or max level
+  // The first L2 / L5 milestones ("l2-reached" / "first-max" galaxy-effects) are achievements now,
+  // so they fire once per save instead of once per page load
+  function notifyLevelReached() {
+    checkAchievements()
+  }
+
   function consumeMembers(cIdx: number, count: number) {
     const c = clusters.current[cIdx]
     const candidates: { i: number; d2: number }[] = []
@@ -1798,9 +2641,8 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
   function tryStackCore(level: number): boolean {
     // Disable stacking only in Extreme mode; otherwise use thresholds
     if (extremeMode.current) return false
-    const arr = (lowQualityMode.current ? STACK_THRESHOLDS : STACK_THRESHOLDS_HIGH) || STACK_THRESHOLDS
-    const perLevel = (arr && arr[Math.max(0, Math.min(4, level - 1))]) || undefined
-    const threshold = perLevel ?? (level === 5 ? L5_STACK_THRESHOLD : STACK_THRESHOLD)
+    const row = levelRow(level)
+    const threshold = lowQualityMode.current ? row.stack : row.stackHigh
     const sameLevelCores = clusters.current.filter(c => c.level === level && c.isVisible !== false)
     if (sameLevelCores.length >= threshold) {
       // Prefer cores that don't have a stack yet (stackCount===1)
@@ -1831,14 +2673,14 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
   // Consolidate visible cores into stacks based on active thresholds
   function enforceStackingThresholds() {
     const arrThresholds = (lowQualityMode.current ? STACK_THRESHOLDS : STACK_THRESHOLDS_HIGH) || STACK_THRESHOLDS
-    if (!arrThresholds || arrThresholds.length < 5) return
+    if (!arrThresholds || arrThresholds.length < LEVEL_CAP) return
 
     const centerX = worldW.current * 0.5
     const centerY = worldH.current * 0.5
     const baseR = orbitalRadius.current || Math.min(worldW.current, worldH.current) * 0.3
 
     // For each level, compute total stacks and redistribute evenly across threshold count
-    for (let level = 1; level <= 5; level++) {
+    for (let level = 1; level <= LEVEL_CAP; level++) {
       // Gather all cores of this level
       const indices: number[] = []
       let totalStacks = 0
@@ -1851,7 +2693,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       }
       if (indices.length === 0 || totalStacks === 0) continue
 
-      const threshold = arrThresholds[Math.max(0, Math.min(4, level - 1))] || Infinity
+      const threshold = arrThresholds[level - 1] || Infinity
       const visibleCount = Math.min(threshold, totalStacks) || 1
 
       // Ensure we have at least visibleCount cores to show: use first N indices as targets
@@ -1926,8 +2768,12 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     }
   }
 
-  function splitCore(cIdx: number) {
+  function splitCore(cIdx: number, lineage?: CoreLineage) {
     const c = clusters.current[cIdx]
+    c.awaitingLineage = false
+    c.levelUpAnimT = 1.0 // Longer animation for splitting
+    c.scaleMultiplier = 1.0
+    if (lineage) c.lineage = lineage
 
     // Check if we can create new cores
     if (!canCreateNewCore()) {
@@ -1958,6 +2804,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       stackCount: 1,
       isVisible: true,
       scaleMultiplier: 1.0,
+      lineage: c.lineage,
     }
     // Reset existing core to level 1 and shift left a bit
     c.level = 1
@@ -1985,6 +2832,92 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     clusters.current.push(newCluster)
   }
 
+  // Remove a core, keeping per-core arrays and point references (indices into clusters) aligned.
+  // Points bound to the removed core move to `heirIdx` (given in pre-removal indices).
+  function removeCore(cIdx: number, heirIdx: number) {
+    const heir = heirIdx > cIdx ? heirIdx - 1 : heirIdx
+    const remap = (id: number | undefined) => {
+      if (id == null) return id
+      if (id === cIdx) return heir
+      return id > cIdx ? id - 1 : id
+    }
+    clusters.current.splice(cIdx, 1)
+    for (const arr of [orbitalAngles, orbitalRadii, orbitalSpeeds, bouncePeriods, bouncePhases]) {
+      if (arr.current.length > cIdx) arr.current.splice(cIdx, 1)
+    }
+    for (let i = cIdx; i < clusters.current.length; i++) clusters.current[i].id = i
+    for (let i = 0; i < points.current.length; i++) {
+      const p = points.current[i]
+      p.clusterId = remap(p.clusterId)
+      p.targetCluster = remap(p.targetCluster)
+    }
+    if (dragStateRef.current?.draggedCore != null) dragStateRef.current.draggedCore = remap(dragStateRef.current.draggedCore)
+  }
+
+  // Fuse the dragged core into a same-level target. Stacks fuse pairwise: (a + b) cores of level L
+  // become floor((a + b) / 2) cores of level L + 1; an odd one out stays behind at level L.
+  function mergeCores(targetIdx: number, srcIdx: number): boolean {
+    const a = clusters.current[targetIdx]
+    const b = clusters.current[srcIdx]
+    if (!a || !b || targetIdx === srcIdx) return false
+    if (a.level !== b.level || a.level >= coreLevelCap()) return false
+    const { fused, leftover } = mergeStacks(a.stackCount || 1, b.stackCount || 1)
+
+    a.level += 1
+    a.colorIndex = LEVEL_COLOR_INDEX[a.level - 1]
+    a.stackCount = fused
+    a.lineage = a.lineage ?? b.lineage // The core dropped onto keeps its specialization
+    a.progress = Math.min(9, a.progress + b.progress)
+    a.levelUpAnimT = 0.8
+    a.scaleMultiplier = 1.0
+    a.flashT = GLOW_MS / 1000
+
+    if (leftover > 0) {
+      // The odd core keeps its members and returns to orbit
+      b.stackCount = 1
+      b.progress = 0
+    } else {
+      a.members += b.members
+      a.webIndices = a.webIndices.concat(b.webIndices).slice(0, 12)
+      removeCore(srcIdx, targetIdx)
+    }
+    bumpAchievement('merges')
+    notifyLevelReached()
+    try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Merged into L${a.level}${fused > 1 ? ` ×${fused}` : ''}`, kind: 'merge', ms: 2000 } })) } catch {}
+    return true
+  }
+
+  // Collapse the swarm back to a single L1 core (used by clearSaveData and Retrain)
+  function resetToSingleCore() {
+    clusters.current = []
+    const newCluster: Cluster = {
+      id: 0,
+      x: 50 + Math.random() * Math.max(0, worldW.current - 100),
+      y: 50 + Math.random() * Math.max(0, worldH.current - 100),
+      vx: 0, vy: 0,
+      members: 0,
+      radius: 10,
+      emitTimer: rand(PULSE_MIN, PULSE_MAX),
+      flashT: 0,
+      webIndices: [],
+      level: 1,
+      progress: 0,
+      colorIndex: LEVEL_COLOR_INDEX[0] || 5,
+      stackCount: 1,
+      isVisible: true,
+      scaleMultiplier: 1.0,
+    }
+    clusters.current.push(newCluster)
+    syncPendingLineages()
+    // Reset all points to ambient and clear cluster references
+    for (let i = 0; i < points.current.length; i++) {
+      const p = points.current[i]
+      p.state = 'ambient'
+      p.clusterId = undefined
+      p.alpha = Math.random() * 0.3 + 0.18
+    }
+  }
+
   // Drawing: compose snapshot and draw to canvases
   function buildSnapshot() {
     const W = worldW.current
@@ -2010,17 +2943,17 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       ambient: { rendered: 0, total: 0, limit: 0 },
       clustered: { rendered: 0, total: 0, limit: 0 },
       cores: { rendered: 0, total: visibleCoreCount, limit: Math.floor(reservedForCores / 2) }, // cores, not draw records
-      unlockables: { rendered: 0, total: unlockables.current.length, limit: 10 },
+      unlockables: { rendered: 0, total: capsules.current.length, limit: 10 },
       buffer: { used: 0, total: drawBuffer.length, available: availableForData }
     }
 
     const cullMargin = 50 // Extra margin for viewport culling
 
-    // 1. PRIORITY: Unlockables (special collectible sprites)
-    if (unlockables.current.length > 0) {
-      for (let i = 0; i < unlockables.current.length; i++) {
+    // 1. PRIORITY: Loot capsules
+    if (capsules.current.length > 0) {
+      for (let i = 0; i < capsules.current.length; i++) {
         if (n >= drawBuffer.length - 6) break
-        const u = unlockables.current[i]
+        const u = capsules.current[i]
         const rec = drawBuffer[n++]
         rec.x = u.x
         rec.y = u.y
@@ -2029,7 +2962,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
         rec.alpha = 0.95
         rec.color = GAME_CONFIG.LEVEL_COLOR_INDEX[4] || 9
         rec.shape = 'unlock' as any
-        ;(rec as any).spriteId = u.id
+        ;(rec as any).rarity = u.rarity
         ;(rec as any).angle = u.angle
         ;(rec as any).shake = u.shakeT
         ;(rec as any).seed = u.seed
@@ -2121,7 +3054,9 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       // Scale radius by zoom so visual sizes remain consistent across devices
       halo.radius = (16 + c.level * 4 + Math.min(12, c.members * 0.2) + (c.flashT > 0 ? 5 : 0)) * (zoomRef.current || 1) * scaleMultiplier * stackBoost
       halo.alpha = (0.02 + 0.04 * prog) * (1 + c.level * 0.3) // Brighter for higher levels
-      halo.color = c.colorIndex
+      // Specialized cores glow in their lineage color (Cosmetics → Lineage Colors)
+      halo.color = c.lineage ? LINEAGE_COLOR_INDEX[c.lineage] : c.colorIndex
+      if (c.lineage) halo.alpha *= 1.6
       halo.shape = 'halo'
 
       const dot = drawBuffer[n++]
@@ -2132,7 +3067,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       dot.color = c.colorIndex
       dot.shape = 'core'
       // Use variant to carry the core level (1..5) for drawing the database cylinder stacks
-      dot.variant = Math.max(1, Math.min(5, c.level))
+      dot.variant = clampLevel(c.level)
       dot.glow = prog + (scaleMultiplier - 1.0) * 0.5 // Extra glow during animation
 
       // Count base pair against core budget
@@ -2181,7 +3116,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
             stackDot.alpha = ring.alpha
             stackDot.color = c.colorIndex
             stackDot.shape = 'core'
-            stackDot.variant = Math.max(1, Math.min(5, c.level))
+            stackDot.variant = clampLevel(c.level)
             stackDot.glow = 0
           }
           angleSeed += 0.42 // small rotation between rings
@@ -2334,7 +3269,8 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       }
     }
     
-    // Second pass: render ambient points with fade alpha
+    // Second pass: render ambient points with fade alpha, spread across the ambient colors in use
+    const ambientColorCount = ambientPalette((snapshot as any).currentCosmetics).length
     for (const p of ambientPointsToRender) {
       if (n >= drawBuffer.length - reservedForCores - 5) break
 
@@ -2343,7 +3279,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       rec.y = p.y
       rec.radius = 1.6
       rec.alpha = p.alpha * (p.fadeProgress || 1.0) // Apply fade progress
-      rec.color = 1
+      rec.color = AMBIENT_COLOR_INDEX + (p.id % ambientColorCount)
       rec.shape = 'icon'
       rec.variant = -1 // Mark as ambient
       rec.glow = 0
@@ -2485,10 +3421,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
   function renderAll() {
     buildSnapshot()
     // Refresh cosmetics for color mapping on each frame
-    try {
-      const raw = localStorage.getItem('galaxy.cosmetics')
-      ;(snapshot as any).currentCosmetics = raw ? JSON.parse(raw) : null
-    } catch { (snapshot as any).currentCosmetics = null }
+    ;(snapshot as any).currentCosmetics = savedCosmetics.current
     if (canvases.current.size === 0) return
     const snap = snapshot.current
     // Render into each registered canvas context
@@ -2538,24 +3471,22 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           }
           ctx.restore()
         }
-        // Draw in order; halos as circles, unlockables, cores as sprites, others as page icons
+        // Draw in order; halos as circles, capsules, cores as sprites, others as page icons
         for (let i = 0; i < snap.points.length; i++) {
           const r = snap.points[i]
           const COLORS = getColors()
           let color = COLORS[r.color] || COLORS[0]
-          // Unlockables (render before halos/cores/pages)
+          // Loot capsules (render before halos/cores/pages)
           if ((r as any).shape === 'unlock') {
             const cx = r.x, cy = r.y
             const size = r.radius * 1.7
-            const spriteId = (r as any).spriteId as string
-            // draw as big tinted glyph or shape
+            const rarity = getRarity((r as any).rarity) || RARITIES[0]
+            const rank = RARITIES.indexOf(rarity)
+            const tint = rarity.color
             ctx.save()
             ctx.globalAlpha = r.alpha
-            // dynamic color via special effects (prefer current special settings)
-            const tSec = performance.now() * 0.001
-            const shifted = applySpecialColor(5, color, tSec)
-            ctx.fillStyle = shifted
-            ctx.strokeStyle = shifted
+            ctx.fillStyle = tint
+            ctx.strokeStyle = tint
             // apply rotation about center
             const ang = (r as any).angle || 0
             const shake = (r as any).shake || 0
@@ -2568,83 +3499,54 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
               ctx.translate(jx, jy)
             }
             if (ang !== 0) { ctx.translate(cx, cy); ctx.rotate(ang); ctx.translate(-cx, -cy) }
-            // soft pulsing glow behind the unlockable
+            // soft pulsing glow behind the capsule; rarer capsules glow wider and brighter
             {
               const pulse = 0.6 + 0.4 * Math.sin(performance.now() * 0.004 + seed * 6.28)
-              const glowR = size * 1.5
+              const glowR = size * (1.3 + rank * 0.2)
               const grad = ctx.createRadialGradient(cx, cy, 0, cx, cy, glowR)
-              grad.addColorStop(0, shifted)
-              grad.addColorStop(1, shifted + '00')
+              grad.addColorStop(0, tint)
+              grad.addColorStop(1, tint + '00')
               ctx.save()
-              ctx.globalAlpha = 0.25 + 0.25 * pulse
+              ctx.globalAlpha = 0.2 + 0.08 * rank + 0.25 * pulse
               ctx.fillStyle = grad
               ctx.beginPath(); ctx.arc(cx, cy, glowR, 0, Math.PI * 2); ctx.fill()
               ctx.restore()
             }
-            // reuse small shape render logic inline with crack overlay
-            if (spriteId === 'circle' || spriteId === 'ring') {
-              const radius = size * 0.5
-              ctx.beginPath(); ctx.arc(cx, cy, radius, 0, Math.PI * 2)
-              if (spriteId === 'ring') ctx.stroke(); else ctx.fill()
-            } else if (spriteId === 'square') {
-              const s = size * 0.9
-              ctx.fillRect(cx - s/2, cy - s/2, s, s)
-            } else if (spriteId === 'star') {
-              const spikes = 5
-              const outerR = size * 0.5
-              const innerR = outerR * 0.5
-              let rot = Math.PI / 2 * 3
-              let x = cx, y = cy
-              ctx.beginPath(); ctx.moveTo(cx, cy - outerR)
-              for (let j = 0; j < spikes; j++) {
-                x = cx + Math.cos(rot) * outerR; y = cy + Math.sin(rot) * outerR; ctx.lineTo(x, y); rot += Math.PI / spikes
-                x = cx + Math.cos(rot) * innerR; y = cy + Math.sin(rot) * innerR; ctx.lineTo(x, y); rot += Math.PI / spikes
+            // epic and legendary capsules throw slowly turning light rays
+            if (rank >= 2) {
+              const rays = rank === 3 ? 8 : 5
+              const spin = performance.now() * 0.0004 + seed * 6.28
+              ctx.save()
+              ctx.globalAlpha = 0.18
+              for (let k = 0; k < rays; k++) {
+                const a = spin + (Math.PI * 2 * k) / rays
+                ctx.beginPath()
+                ctx.moveTo(cx, cy)
+                ctx.arc(cx, cy, size * 1.2, a - 0.08, a + 0.08)
+                ctx.closePath(); ctx.fill()
               }
-              ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'triangle') {
-              const r2 = size * 0.55
-              ctx.beginPath(); ctx.moveTo(cx, cy - r2); ctx.lineTo(cx - r2 * 0.87, cy + r2 * 0.5); ctx.lineTo(cx + r2 * 0.87, cy + r2 * 0.5); ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'diamond_shape') {
-              const r2 = size * 0.6
-              ctx.beginPath(); ctx.moveTo(cx, cy - r2); ctx.lineTo(cx + r2, cy); ctx.lineTo(cx, cy + r2); ctx.lineTo(cx - r2, cy); ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'hexagon') {
-              const r2 = size * 0.5
-              ctx.beginPath(); for (let j = 0; j < 6; j++) { const a = (Math.PI/3)*j - Math.PI/6; const x = cx + Math.cos(a)*r2; const y = cy + Math.sin(a)*r2; if (j===0) ctx.moveTo(x,y); else ctx.lineTo(x,y) } ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'plus') {
-              const w = size * 0.18; const l = size * 0.5
-              ctx.fillRect(cx - w/2, cy - l, w, l * 2); ctx.fillRect(cx - l, cy - w/2, l * 2, w)
-            } else if (spriteId === 'pentagon') {
-              const r2 = size * 0.5
-              ctx.beginPath();
-              for (let k = 0; k < 5; k++) { const a = (Math.PI*2*k)/5 - Math.PI/2; const x = cx + Math.cos(a)*r2; const y = cy + Math.sin(a)*r2; if (k===0) ctx.moveTo(x,y); else ctx.lineTo(x,y) }
-              ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'octagon') {
-              const r2 = size * 0.5
-              ctx.beginPath();
-              for (let k = 0; k < 8; k++) { const a = (Math.PI*2*k)/8 - Math.PI/8; const x = cx + Math.cos(a)*r2; const y = cy + Math.sin(a)*r2; if (k===0) ctx.moveTo(x,y); else ctx.lineTo(x,y) }
-              ctx.closePath(); ctx.fill()
-            } else if (spriteId === 'chevron') {
-              const w = size * 0.9; const h = size * 0.6; const t = Math.max(2, size * 0.12)
-              const x0 = cx - w/2; const y0 = cy - h/2
+              ctx.restore()
+            }
+            // pill body: tinted shell, lighter left half and a dark seam
+            {
+              const w = size, h = size * 0.56, rr = h / 2
               ctx.beginPath()
-              ctx.moveTo(x0, y0)
-              ctx.lineTo(x0 + w*0.6, y0 + h/2)
-              ctx.lineTo(x0, y0 + h)
-              ctx.lineTo(x0 + t, y0 + h)
-              ctx.lineTo(x0 + w*0.6 + t, y0 + h/2)
-              ctx.lineTo(x0 + t, y0)
-              ctx.closePath(); ctx.fill()
-            } else {
-              // emoji fallback
-          const glyph = (SPRITE_EMOJI as any)[spriteId] || '✨'
+              ctx.moveTo(cx - w / 2 + rr, cy - h / 2)
+              ctx.lineTo(cx + w / 2 - rr, cy - h / 2)
+              ctx.arc(cx + w / 2 - rr, cy, rr, -Math.PI / 2, Math.PI / 2)
+              ctx.lineTo(cx - w / 2 + rr, cy + h / 2)
+              ctx.arc(cx - w / 2 + rr, cy, rr, Math.PI / 2, Math.PI * 1.5)
+              ctx.closePath()
+              ctx.fill()
               ctx.save()
-              ctx.globalAlpha = 1
+              ctx.clip()
+              ctx.globalAlpha = 0.35
               ctx.fillStyle = '#ffffff'
-              ctx.font = `${Math.max(10, size)}px serif`
-              ctx.textAlign = 'center'; ctx.textBaseline = 'middle'
-              ctx.fillText(glyph, cx, cy)
-              ctx.globalCompositeOperation = 'source-atop'; ctx.globalAlpha = 0.45; ctx.fillStyle = color
-              ctx.beginPath(); ctx.arc(cx, cy, size * 0.6, 0, Math.PI * 2); ctx.fill()
+              ctx.fillRect(cx - w / 2, cy - h / 2, w / 2, h)
+              ctx.globalAlpha = 0.6
+              ctx.strokeStyle = '#0f172a'
+              ctx.lineWidth = Math.max(1, size * 0.025)
+              ctx.beginPath(); ctx.moveTo(cx, cy - h / 2); ctx.lineTo(cx, cy + h / 2); ctx.stroke()
               ctx.restore()
             }
             // draw crack overlay proportional to crackP
@@ -2706,7 +3608,7 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           }
           if (r.shape === 'core') {
             // Apply special effects color override per level
-            const level = Math.max(1, Math.min(5, (r.variant ?? 1)))
+            const level = clampLevel(r.variant ?? 1)
             color = applySpecialColor(level, color, performance.now() * 0.001)
             // Determine sprite selection from cosmetics per level (segments = level)
             const cos = (snapshot as any).currentCosmetics || null
@@ -2832,16 +3734,17 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
               continue
             }
 
-              // Database cylinder icon with 1..5 segments based on variant (core level)
+              // Database cylinder icon with one segment per core level (variant)
             // Simplified lines with curved separators; cylinder height grows with level.
             const glowFrac = Math.max(0, Math.min(1, r.glow || 0))
-            const segments = Math.max(1, Math.min(5, (r.variant ?? 1)))
+            const segments = clampLevel(r.variant ?? 1)
             // Slightly upscale early levels so L1-L3 read better; L4-5 unchanged
             const sizeBase = r.radius * 2.6
             const sizeScale = segments === 1 ? 1.18 : segments === 2 ? 1.12 : segments === 3 ? 1.06 : 1.0
             const size = sizeBase * sizeScale // base size adjusted by level
               const halfW = size * 0.55
-              const segH = Math.max(2, size * 0.28) // constant per-segment height → total height scales with level
+              // Constant per-segment height up to L5 (total height scales with level); past L5 the bands thin out
+              const segH = Math.max(2, size * 0.28 * Math.min(1, 6 / (segments + 1)))
               const totalH = segH * segments
               const ellH = Math.max(2, segH * 0.8) // more pronounced curvature on caps
 
@@ -3117,6 +4020,81 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
             }
           }
         }
+        // Reward popups from drop tables, above everything else
+        if (floatingTexts.current.length > 0) {
+          ctx.save()
+          ctx.font = `600 ${Math.round(12 * (zoomRef.current || 1))}px ui-sans-serif, system-ui, sans-serif`
+          ctx.textAlign = 'center'
+          ctx.textBaseline = 'middle'
+          for (const f of floatingTexts.current) {
+            const k = f.t / f.life
+            ctx.globalAlpha = Math.max(0, 1 - k * k)
+            ctx.fillStyle = f.color
+            ctx.fillText(f.text, f.x, f.y - 28 * k)
+          }
+          ctx.restore()
+        }
+        // Combo meter beside the last capture: streak, multiplier and a ring that empties with the window
+        const cb = combo.current
+        if (cb.streak > 1 && cb.remaining > 0 && cb.window > 0) {
+          const z = zoomRef.current || 1
+          const k = Math.max(0, Math.min(1, cb.remaining / cb.window))
+          const r = 13 * z
+          ctx.save()
+          ctx.translate(cb.x + 24 * z, cb.y - 24 * z)
+          ctx.globalAlpha = Math.min(1, 0.4 + k)
+          ctx.lineWidth = 3 * z
+          ctx.strokeStyle = 'rgba(255,255,255,0.15)'
+          ctx.beginPath()
+          ctx.arc(0, 0, r, 0, Math.PI * 2)
+          ctx.stroke()
+          ctx.strokeStyle = '#fbbf24'
+          ctx.beginPath()
+          ctx.arc(0, 0, r, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * k)
+          ctx.stroke()
+          ctx.fillStyle = '#fde68a'
+          ctx.textAlign = 'center'
+          ctx.textBaseline = 'middle'
+          ctx.font = `700 ${Math.round(11 * z)}px ui-sans-serif, system-ui, sans-serif`
+          ctx.fillText(String(cb.streak), 0, 0)
+          ctx.font = `600 ${Math.round(10 * z)}px ui-sans-serif, system-ui, sans-serif`
+          ctx.fillText(`×${comboMultiplier(cb.streak).toFixed(1)}`, 0, r + 10 * z)
+          ctx.restore()
+        }
+        // Lasso being drawn: dashed path closed back to its start
+        const lasso = lassoPath.current
+        if (lasso && lasso.length > 1) {
+          ctx.save()
+          ctx.globalAlpha = 0.85
+          ctx.strokeStyle = '#38bdf8'
+          ctx.fillStyle = 'rgba(56,189,248,0.08)'
+          ctx.lineWidth = 2
+          ctx.setLineDash([6, 4])
+          ctx.beginPath()
+          ctx.moveTo(lasso[0].x, lasso[0].y)
+          for (let i = 1; i < lasso.length; i++) ctx.lineTo(lasso[i].x, lasso[i].y)
+          ctx.closePath()
+          ctx.fill()
+          ctx.stroke()
+          ctx.restore()
+        }
+        // Gravity well: rings contracting into the chosen core while it pulls
+        const well = gravityWell.current
+        if (well) {
+          const z = zoomRef.current || 1
+          const phase = (performance.now() * 0.001) % 1
+          ctx.save()
+          ctx.strokeStyle = '#38bdf8'
+          ctx.lineWidth = 2 * z
+          for (let k = 0; k < 3; k++) {
+            const t = (phase + k / 3) % 1
+            ctx.globalAlpha = 0.5 * t
+            ctx.beginPath()
+            ctx.arc(well.core.x, well.core.y, (WELL_CAPTURE_RADIUS + 90 * (1 - t)) * z, 0, Math.PI * 2)
+            ctx.stroke()
+          }
+          ctx.restore()
+        }
         ctx.globalAlpha = 1
       } catch (e) {
         console.warn('Canvas draw error:', e)
@@ -3133,30 +4111,49 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     },
     getCosmeticsSettings() {
       try {
-        const raw = localStorage.getItem("galaxy.cosmetics")
-        if (raw) {
-          const saved = JSON.parse(raw)
+        if (savedCosmetics.current) {
+          const saved = { ...savedCosmetics.current }
           // Ensure unlockedSprites exists and excludes our default-locked testing set
           const list = Array.isArray(saved?.unlockedSprites) ? saved.unlockedSprites : []
           const baseline = saved?.strictLocked ? ['database'] : ALL_SPRITE_IDS.filter(id => !DEFAULT_LOCKED_SPRITES.includes(id))
           const merged = Array.from(new Set([...(list || []), ...baseline]))
           saved.unlockedSprites = merged
+          // Saves from before L6+ existed carry five levels; fill the rest with defaults
+          saved.coreColors = corePalette(saved)
+          saved.coreSprites = padLevels(Array.isArray(saved.coreSprites) ? saved.coreSprites : null, LEVEL_CAP, () => 'database')
+          saved.unlockedEffects = ownedEffects(saved)
+          saved.ambientSlots = ambientSlots(saved)
           return saved
         }
       } catch {}
       // minimal fallback
       return {
-        coreColors: ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"],
+        coreColors: CORE_LEVELS.map(r => r.color),
         ambientColors: ["#e5e7eb"],
-        coreSprites: ['database','database','database','database','database'],
+        coreSprites: CORE_LEVELS.map(() => 'database'),
         // Unlock all except default-locked test sprites
         unlockedSprites: ALL_SPRITE_IDS.filter(id => !DEFAULT_LOCKED_SPRITES.includes(id)),
+        unlockedEffects: [],
+        ambientSlots: BASE_AMBIENT_SLOTS,
         specialEffects: { rgbNeon: false, customShift: false, shiftSpeed: 1.0 }
       }
     },
+    // Panel edits change looks only: what is owned stays as saved, and unowned effects stay off
     setCosmeticsSettings(settings) {
-      try { localStorage.setItem("galaxy.cosmetics", JSON.stringify(settings)) } catch {}
-      setUiState(s => ({ ...s, cosmetics: settings as any }))
+      updateCosmetics(cos => {
+        const effects = ownedEffects(cos)
+        const special: any = { ...(settings.specialEffects || {}) }
+        for (const e of SHOP_EFFECTS) if (!effects.includes(e.id)) special[e.id] = false
+        return {
+          ...settings,
+          unlockedSprites: Array.isArray(cos.unlockedSprites) ? cos.unlockedSprites : [],
+          unlockedColors: cos.unlockedColors,
+          unlockedEffects: effects,
+          ambientSlots: ambientSlots(cos),
+          strictLocked: cos.strictLocked,
+          specialEffects: special,
+        }
+      })
     },
     setTargetFps(fps: number) {
       const clamped = Math.max(15, Math.min(120, Math.round(fps)))
@@ -3174,14 +4171,34 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       // Update state and ref immediately so engine checks use the latest value
       setUiState(s => ({ ...s, dragAndDropEnabled: enabled }))
       try { uiStateRef.current = { ...uiStateRef.current, dragAndDropEnabled: enabled } as GalaxyState } catch {}
-      // Persist to localStorage
-      try {
-        localStorage.setItem("galaxy.dragAndDropEnabled", enabled.toString())
-      } catch (e) {
-        console.warn("Failed to save drag and drop setting:", e)
-      }
+      if (persisted.current) persisted.current.dragAndDropEnabled = enabled
+      saveGame()
     },
     getDragAndDropEnabled() { return !!uiStateRef.current?.dragAndDropEnabled },
+    setNotation(notation: Notation) {
+      if (!isNotation(notation)) {
+        console.warn('Invalid notation:', notation)
+        return
+      }
+      setUiState(s => ({ ...s, notation }))
+      try { uiStateRef.current = { ...uiStateRef.current, notation } as GalaxyState } catch {}
+      saveGame()
+    },
+    getNotation() { return uiStateRef.current?.notation ?? 'suffix' },
+    setPacingPreset(preset) {
+      if (!isPacingPresetId(preset)) {
+        console.warn('Invalid pacing preset:', preset)
+        return
+      }
+      savePacing({ ...pacing.current, preset })
+    },
+    setCustomPacing(patch) {
+      const custom = { ...pacing.current.custom }
+      for (const key of PACING_KEYS) {
+        if (patch[key] != null) custom[key] = clampPacingValue(key, patch[key])
+      }
+      savePacing({ preset: 'custom', custom })
+    },
     setPerformanceMode(v: boolean) {
       const next = !!v
       lowQualityMode.current = next
@@ -3189,74 +4206,63 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     },
     getPerformanceMode() { return lowQualityMode.current },
     clearSaveData() {
+      const storage = getGalaxyStorage()
+      if (!storage) return false
       try {
-        // Clear storage
-        localStorage.removeItem('galaxy.tokens')
-        localStorage.removeItem('galaxy.iq')
-        localStorage.removeItem('galaxy.upgrades')
-        localStorage.removeItem('galaxy.iqUpgrades')
-        localStorage.removeItem('galaxy.coreData')
-        localStorage.removeItem('galaxy.totalEverCollected')
-        localStorage.removeItem('galaxy.dragAndDropEnabled')
         // Lock sprites except database; reset cosmetics
         const resetCosmetics = {
-          coreColors: ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"],
+          coreColors: CORE_LEVELS.map(r => r.color),
           ambientColors: ["#e5e7eb"],
-          coreSprites: ['database','database','database','database','database'],
+          coreSprites: CORE_LEVELS.map(() => 'database'),
           unlockedSprites: ['database'],
+          unlockedEffects: [],
+          ambientSlots: BASE_AMBIENT_SLOTS,
           specialEffects: { rgbNeon: false, customShift: false, shiftSpeed: 1.0 },
           strictLocked: true,
         } as any
-        localStorage.setItem('galaxy.cosmetics', JSON.stringify(resetCosmetics))
+        // Start a fresh save document; notation and pacing carry over
+        clearSave(slotStorage(storage, activeSlot.current), { cosmetics: resetCosmetics })
+        savedCosmetics.current = resetCosmetics
 
         // Reset in-memory
-        // Reset unlockables and timers
-        unlockables.current = []
-        nextUnlockSpawnAt.current = 0
-
-        clusters.current = []
-        // Add a single L1 core
-        const newCluster: Cluster = {
-          id: 0,
-          x: 50 + Math.random() * Math.max(0, worldW.current - 100),
-          y: 50 + Math.random() * Math.max(0, worldH.current - 100),
-          vx: 0, vy: 0,
-          members: 0,
-          radius: 10,
-          emitTimer: rand(PULSE_MIN, PULSE_MAX),
-          flashT: 0,
-          webIndices: [],
-          level: 1,
-          progress: 0,
-          colorIndex: LEVEL_COLOR_INDEX[0] || 5,
-          stackCount: 1,
-          isVisible: true,
-          scaleMultiplier: 1.0,
-        }
-        clusters.current.push(newCluster)
-        // Reset all points to ambient and clear cluster references
-        for (let i = 0; i < points.current.length; i++) {
-          const p = points.current[i]
-          p.state = 'ambient'
-          p.clusterId = undefined
-          p.alpha = Math.random() * 0.3 + 0.18
-        }
+        resetSession()
+        resetToSingleCore()
+        maxTotalCores.current = 0
         if (persisted.current) {
-          persisted.current.tokens = 0
-          persisted.current.iq = 0
-          persisted.current.upgrades = { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, dataQuality: 0 }
-          persisted.current.iqUpgrades = { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 }
-          persisted.current.totalEverCollected = 0
+          persisted.current.tokens = ZERO
+          persisted.current.iq = ZERO
+          persisted.current.upgrades = { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0, dataQuality: 0 }
+          persisted.current.iqUpgrades = { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, autobuyerUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, offlineCap: 0, offlineEfficiency: 0, attentionHeads: 0, deepLayers: 0 }
+          persisted.current.totalEverCollected = ZERO
           persisted.current.dragAndDropEnabled = true
+          persisted.current.weights = 0
+          persisted.current.weightsEarned = 0
+          persisted.current.weightUpgrades = { passiveBoost: 0, clickBoost: 0, warmStart: 0 }
+          persisted.current.retrains = 0
+          persisted.current.cosmeticTokens = 0
         }
+        eventSchedule.current = initialSchedule(Date.now())
+        achievements.current = sanitizeAchievements(null)
+        autobuyer.current = defaultAutobuyer()
+        research.current = emptyResearch()
         setUiState(s => ({
           ...s,
-          tokens: 0,
-          iq: 0,
-          upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, dataQuality: 0 },
-          iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0 },
+          tokens: ZERO,
+          iq: ZERO,
+          upgrades: { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0, dataQuality: 0 },
+          iqUpgrades: { computeMult: 0, autoCollect: 0, confettiUnlocked: false, paletteUnlocked: false, silverUnlocked: false, goldUnlocked: false, rareUnlocked: false, epicUnlocked: false, autobuyerUnlocked: false, silverChanceLvl: 0, goldChanceLvl: 0, rareChanceLvl: 0, epicChanceLvl: 0, offlineCap: 0, offlineEfficiency: 0, attentionHeads: 0, deepLayers: 0 },
           cosmetics: resetCosmetics,
           dragAndDropEnabled: true,
+          weights: 0,
+          weightUpgrades: { passiveBoost: 0, clickBoost: 0, warmStart: 0 },
+          retrains: 0,
+          buffs: [],
+          cosmeticTokens: 0,
+          activeEvent: null,
+          achievements: [],
+          autobuyer: { ...defaultAutobuyer(), log: [] },
+          research: emptyResearch(),
+          tools: toolsView(),
         }))
         return true
       } catch (e) {
@@ -3264,88 +4270,80 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
         return false
       }
     },
-    purchaseIQ(key) {
+    exportSave() {
+      if (!persisted.current) return null
+      return serializeSave(buildSave(persisted.current))
+    },
+    exportSaveCode() {
+      if (!persisted.current) return null
+      return encodeSaveCode({ version: SAVE_VERSION, ...buildSave(persisted.current) })
+    },
+    // The imported save replaces the current one in place; its time away is not credited as offline earnings
+    importSave(text) {
+      const { doc, errors } = parseSaveText(text)
+      if (!doc) return { ok: false, errors }
+      const storage = getGalaxyStorage()
+      if (!storage) return { ok: false, errors: ['save: the game is still loading; try again in a moment'] }
+      try {
+        writeSave(slotStorage(storage, activeSlot.current), doc)
+      } catch (e) {
+        return { ok: false, errors: [`save: could not be stored (${e instanceof Error ? e.message : String(e)})`] }
+      }
+      swapSave(doc)
+      return { ok: true, errors: [] }
+    },
+    listSaveSlots() {
+      const storage = getGalaxyStorage()
+      if (!storage || !persisted.current) return []
+      // The active slot's summary is as of the last periodic save
+      return listSlots(storage)
+    },
+    createSaveSlot(name) {
+      // The new slot copies the current settings, so write them first
+      saveGame()
+      return changeSlots(storage => createSlot(storage, name))
+    },
+    duplicateSaveSlot(id, name) {
+      if (id === activeSlot.current) saveGame()
+      return changeSlots(storage => createSlot(storage, name, id))
+    },
+    renameSaveSlot(id, name) {
+      return changeSlots(storage => renameSlot(storage, id, name))
+    },
+    deleteSaveSlot(id) {
+      return changeSlots(storage => deleteSlot(storage, id))
+    },
+    switchSaveSlot(id) {
+      if (id === activeSlot.current) return { ok: true, error: null }
+      saveGame()
+      return changeSlots(storage => {
+        const change = setActiveSlot(storage, id)
+        if (change.error) return change
+        activeSlot.current = id
+        swapSave(loadSave(slotStorage(storage, id)))
+        return change
+      })
+    },
+    purchaseIQ(key, qty) {
       if (!persisted.current) return
       // Input validation
       if (!key || typeof key !== 'string') {
         console.warn('Invalid IQ upgrade key:', key)
         return
       }
-      const validKeys = ['computeMult', 'autoCollect', 'silverUnlock', 'goldUnlock', 'rareUnlock', 'epicUnlock', 'silverChanceUp', 'goldChanceUp', 'rareChanceUp', 'epicChanceUp', 'confetti', 'palette']
+      const validKeys = upgradesFor('iq', 'iqUpgrades').map(d => d.id)
       if (!validKeys.includes(key)) {
         console.warn('Invalid IQ upgrade key:', key, 'Valid keys:', validKeys)
         return
       }
-      let lvl = 0
-      let cost = 0
-      if (key === 'computeMult') {
-        lvl = persisted.current.iqUpgrades.computeMult
-        cost = Math.pow(2, lvl) // 1,2,4,8...
-        if (persisted.current.iq < cost || lvl >= 10) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.computeMult = lvl + 1
-      } else if (key === 'autoCollect') {
-        lvl = persisted.current.iqUpgrades.autoCollect
-        cost = Math.pow(2, lvl)
-        if (persisted.current.iq < cost) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.autoCollect = lvl + 1
-      } else if (key === 'silverUnlock') {
-        if (persisted.current.iqUpgrades.silverUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.silverUnlocked = true
-      } else if (key === 'goldUnlock') {
-        if (persisted.current.iqUpgrades.goldUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.goldUnlocked = true
-      } else if (key === 'rareUnlock') {
-        if (persisted.current.iqUpgrades.rareUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.rareUnlocked = true
-      } else if (key === 'epicUnlock') {
-        if (persisted.current.iqUpgrades.epicUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.epicUnlocked = true
-      } else if (key === 'silverChanceUp') {
-        lvl = persisted.current.iqUpgrades.silverChanceLvl || 0
-        cost = 1
-        if (persisted.current.iq < cost || !persisted.current.iqUpgrades.silverUnlocked) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.silverChanceLvl = lvl + 1
-      } else if (key === 'goldChanceUp') {
-        lvl = persisted.current.iqUpgrades.goldChanceLvl || 0
-        cost = 1
-        if (persisted.current.iq < cost || !persisted.current.iqUpgrades.goldUnlocked) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.goldChanceLvl = lvl + 1
-      } else if (key === 'rareChanceUp') {
-        lvl = persisted.current.iqUpgrades.rareChanceLvl || 0
-        cost = 1
-        if (persisted.current.iq < cost || !persisted.current.iqUpgrades.rareUnlocked) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.rareChanceLvl = lvl + 1
-      } else if (key === 'epicChanceUp') {
-        lvl = persisted.current.iqUpgrades.epicChanceLvl || 0
-        cost = 1
-        if (persisted.current.iq < cost || !persisted.current.iqUpgrades.epicUnlocked) return
-        persisted.current.iq -= cost
-        persisted.current.iqUpgrades.epicChanceLvl = lvl + 1
-      } else if (key === 'confetti') {
-        if (persisted.current.iqUpgrades.confettiUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.confettiUnlocked = true
-      } else if (key === 'palette') {
-        if (persisted.current.iqUpgrades.paletteUnlocked) return
-        if (persisted.current.iq < 1) return
-        persisted.current.iq -= 1
-        persisted.current.iqUpgrades.paletteUnlocked = true
-      }
-      setUiState(s => ({ ...s, iq: persisted.current!.iq, iqUpgrades: persisted.current!.iqUpgrades }))
+      buyUpgrade(key, qty)
+    },
+    purchaseUpgrade(id, qty) {
+      if (!getUpgrade(id)) {
+        console.warn('Invalid upgrade id:', id)
+        return false
+      }
+      return buyUpgrade(id, qty)
     },
     clickAt(x, y) {
       if (!enabledRef.current) return
@@ -3370,11 +4368,25 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
         console.warn('Click coordinates out of bounds:', { x, y, worldW: worldW.current, worldH: worldH.current })
         return
       }
-      // Map to virtual units for unlockable tests if needed (currently hit tests are in screen px)
-      // Unlockable click detection has priority
-      if (unlockables.current.length > 0) {
-        for (let i = unlockables.current.length - 1; i >= 0; i--) {
-          const u = unlockables.current[i]
+      // Gravity well selected: this click picks the core it sits on
+      if (activeTool.current === 'gravityWell') {
+        const cIdx = nearestCluster(x, y)
+        const core = clusters.current[cIdx]
+        if (!core || Math.hypot(core.x - x, core.y - y) > 80) {
+          try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: 'Click a core to place the gravity well', kind: 'tool', ms: 2000 } })) } catch {}
+          return
+        }
+        gravityWell.current = { core, endsAt: Date.now() + (getTool('gravityWell')!.seconds ?? 0) * 1000 }
+        spendTool('gravityWell')
+        pushFloatingText(core.x, core.y, getTool('gravityWell')!.label, '#38bdf8')
+        return
+      }
+      // Map to virtual units for capsule tests if needed (currently hit tests are in screen px)
+      // Capsule click detection has priority
+      if (capsules.current.length > 0) {
+        for (let i = capsules.current.length - 1; i >= 0; i--) {
+          const u = capsules.current[i]
+          if (u.breaking) continue
           const dx = u.x - x
           const dy = u.y - y
           const r = (u.size || 40) * 0.6
@@ -3386,30 +4398,12 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
             // increase cracking progress proportionally
             const inc = 1 / (u.clicksRequired || 10)
             u.crackP = Math.min(1, u.crackP + inc)
-            // Persist unlock when threshold reached
-            const cosRaw = localStorage.getItem('galaxy.cosmetics')
-            let cos = null
-            try { cos = cosRaw ? JSON.parse(cosRaw) : null } catch {}
-            const list: string[] = Array.isArray(cos?.unlockedSprites) ? cos.unlockedSprites : []
-            if (u.clicks >= u.clicksRequired && !list.includes(u.id)) {
-              // initiate break animation
+            if (u.clicks >= u.clicksRequired) {
+              // initiate break animation, then pay out
               u.breaking = true
               u.breakT = 0
               u.breakTotal = 0.35
-              const merged = Array.from(new Set([...list, u.id]))
-              const updated: any = { ...(cos || {}), unlockedSprites: merged }
-              if (!Array.isArray(updated.coreColors)) updated.coreColors = ["#3b82f6", "#6366f1", "#8b5cf6", "#a855f7", "#c084fc"]
-              if (!Array.isArray(updated.ambientColors)) updated.ambientColors = ["#e5e7eb"]
-              if (!Array.isArray(updated.coreSprites) || updated.coreSprites.length < 5) updated.coreSprites = ['database','database','database','database','database']
-              if (!updated.specialEffects) updated.specialEffects = { rgbNeon: false, customShift: false, shiftSpeed: 1.0 }
-              try { localStorage.setItem('galaxy.cosmetics', JSON.stringify(updated)) } catch {}
-              ;(snapshot as any).currentCosmetics = updated
-              // Immediately reflect unlocks in UI state so panel updates without refresh
-              try { setUiState(s => ({ ...s, cosmetics: updated })) } catch {}
-              // Fire toast event with unlocked name
-              const def = ALL_SPRITES.find(s => s.id === u.id)
-              const name = def?.name || u.id
-              try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Unlocked: ${name}`, kind: 'unlock', ms: 3000 } })) } catch {}
+              openCapsule(u.rarity, u.x, u.y)
             }
             return
           }
@@ -3425,78 +4419,224 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       if (idx !== -1) {
         const base = points.current[idx]
         const t = base?.tier || 1
-        const splitMap: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 5, 5: 8 }
-        const pieces = splitMap[t] || 1
+        const pieces = dropTable(t).shards
         // Convert original and spawn extra shards for visual split
         convertOutlier(idx)
         for (let k = 1; k < pieces; k++) spawnCapturedShardFrom(base, 1 + k * 0.2)
-        const upgrades = persisted.current?.upgrades || { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0 }
-        let gain = (CLICK_BASE + (upgrades.clickYield || 0)) * pieces
-        // Data Quality: bring extra outliers if available (bronze=1, silver=2, gold=3)
-        // Remove old dataQuality burst; now handled by tier splitting
-        // Mini-Batch: +10% per level, collect ALL outliers if >1 present
-        const mbLevel = upgrades.batchCollect || 0
-        const chance = clamp(0.1 * mbLevel, 0, 1)
-        const totalOutliers = points.current.reduce((n, p) => n + (p.state === 'outlier' ? 1 : 0), 0)
-        if (totalOutliers > 1 && Math.random() < chance) {
-          for (let i = 0; i < points.current.length; i++) {
-            const p = points.current[i]
-            if (p.state === 'outlier') {
-              convertOutlier(i)
-              gain += 1
-            }
-          }
-        }
-        if (persisted.current) {
-          persisted.current.tokens += gain
-          setUiState(s => ({ ...s, tokens: persisted.current!.tokens }))
-        }
+        grantOutlierDrops(t, (CLICK_BASE + upgradeEffect('clickYield')) * pieces, base.x, base.y, 'click')
+        // Mini-Batch: outliers within reach of the clicked one are captured with it
+        const reach = upgradeEffect('batchCollect')
+        if (reach > 0) captureOutliersWhere(p => Math.hypot(p.x - base.x, p.y - base.y) <= reach)
       }
     },
-    purchase(key) {
+    purchase(key, qty) {
       if (!persisted.current) return
       // Input validation
       if (!key || typeof key !== 'string') {
         console.warn('Invalid upgrade key:', key)
         return
       }
-      if (key === 'dataQuality') {
-        const lvl = persisted.current.upgrades.dataQuality ?? 0 // 0 bronze -> 1 silver -> 2 gold
-        const costIQ = lvl === 0 ? 10 : 100
-        if (persisted.current.iq < costIQ || lvl >= 2) return
-        persisted.current.iq -= costIQ
-        persisted.current.upgrades = { ...persisted.current.upgrades, dataQuality: lvl + 1 }
-        setUiState(s => ({ ...s, iq: persisted.current!.iq, upgrades: persisted.current!.upgrades }))
+      // dataQuality lives in upgrades but is priced in IQ; the registry entry carries the currency
+      if (getUpgrade(key)?.state !== 'upgrades') {
+        console.warn('Invalid upgrade key:', key)
         return
       }
-      const lvl = persisted.current.upgrades[key]
-      const price = upgradeCost(key, lvl)
-      if (persisted.current.tokens < price) return
-      persisted.current.tokens -= price
-      persisted.current.upgrades = { ...persisted.current.upgrades, [key]: lvl + 1 }
-      setUiState(s => ({ ...s, tokens: persisted.current!.tokens, upgrades: persisted.current!.upgrades }))
+      buyUpgrade(key, qty)
+    },
+    getRetrainPreview() {
+      return {
+        weights: pendingRetrainWeights(),
+        totalEverCollected: persisted.current?.totalEverCollected ?? ZERO,
+        peakCores: maxTotalCores.current,
+      }
     },
-    // For future: IQ purchases handled via UI calling 'galaxy-effect' or separate method
+    retrain() {
+      if (!persisted.current) return false
+      const gained = pendingRetrainWeights()
+      if (gained <= 0) return false
+      try {
+        // Wipe the run (tokens, token upgrades, cores); IQ, cosmetics and lifetime stats carry over
+        resetToSingleCore()
+        persisted.current.weights += gained
+        persisted.current.weightsEarned += gained
+        persisted.current.retrains += 1
+        persisted.current.tokens = fromNumber(upgradeEffect('warmStart'))
+        persisted.current.upgrades = { spawnRate: 0, spawnQty: 0, clickYield: 0, batchCollect: 0, comboWindow: 0, dataQuality: 0 }
+        spawnCooldown.current = 1.0
+        autoAcc.current = 0
+        setUiState(s => ({
+          ...s,
+          tokens: persisted.current!.tokens,
+          upgrades: persisted.current!.upgrades,
+          weights: persisted.current!.weights,
+          retrains: persisted.current!.retrains,
+        }))
+        try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Retrained: +${gained} Weights`, kind: 'retrain', ms: 3000 } })) } catch {}
+        return true
+      } catch (e) {
+        console.warn('Failed to retrain:', e)
+        return false
+      }
+    },
+    purchaseWeight(key) {
+      if (!persisted.current) return
+      if (getUpgrade(key)?.currency !== 'weights') {
+        console.warn('Invalid weight upgrade key:', key)
+        return
+      }
+      buyUpgrade(key, 1)
+    },
+    dismissOfflineReport() {
+      setUiState(s => (s.offlineReport ? { ...s, offlineReport: null } : s))
+    },
+    setAutobuyRule(id, patch) {
+      if (!AUTOBUY_TARGETS.includes(id)) {
+        console.warn('Invalid autobuy rule id:', id)
+        return
+      }
+      const rules = autobuyer.current.rules.map(r => (r.id === id ? { ...r, ...patch, id } : r))
+      autobuyer.current = sanitizeAutobuyer({ ...autobuyer.current, rules })
+      saveGame()
+      syncAutobuyer()
+    },
+    setAutobuyerEnabled(v) {
+      autobuyer.current = { ...autobuyer.current, enabled: Boolean(v) }
+      saveGame()
+      syncAutobuyer()
+    },
+    queueResearch(id) {
+      const p = persisted.current
+      if (!p) return false
+      const def = getResearch(id)
+      if (!def) {
+        console.warn('Invalid research id:', id)
+        return false
+      }
+      const blocker = queueBlocker(research.current, id)
+      if (blocker) {
+        try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `${def.label}: ${blocker}`, kind: 'research', ms: 2500 } })) } catch {}
+        return false
+      }
+      if (!gte(p.iq, fromNumber(def.iq))) return false
+      spend('iq', def.iq)
+      research.current = enqueue(research.current, id, Date.now())
+      saveGame()
+      setUiState(s => ({ ...s, iq: p.iq, research: research.current }))
+      return true
+    },
+    selectTool(id) {
+      if (id !== null && !isToolId(id)) {
+        console.warn('Invalid tool:', id)
+        return false
+      }
+      if (id && cooldownLeft(toolCooldowns.current[id], Date.now()) > 0) return false
+      activeTool.current = activeTool.current === id ? null : id
+      lassoPath.current = null
+      syncTools()
+      return true
+    },
+    getActiveTool() { return activeTool.current },
+    beginLasso(x, y) {
+      if (activeTool.current !== 'lasso') return
+      lassoPath.current = [{ x, y }]
+    },
+    extendLasso(x, y) {
+      const path = lassoPath.current
+      if (!path || path.length >= LASSO_MAX_POINTS) return
+      const last = path[path.length - 1]
+      if (Math.hypot(x - last.x, y - last.y) >= 4) path.push({ x, y })
+    },
+    finishLasso() {
+      const path = lassoPath.current
+      lassoPath.current = null
+      if (!path || path.length < LASSO_MIN_POINTS || activeTool.current !== 'lasso') return 0
+      const n = captureOutliersWhere(p => pointInPath(p.x, p.y, path))
+      spendTool('lasso')
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: n > 0 ? `Lasso caught ${n} outlier${n === 1 ? '' : 's'}` : 'Lasso missed', kind: 'tool', ms: 2000 } })) } catch {}
+      return n
+    },
+    cancelResearch(id) {
+      const p = persisted.current
+      if (!p) return false
+      const { state, removed } = cancel(research.current, id, Date.now())
+      if (removed.length === 0) return false
+      const refund = removed.reduce((n, r) => n + getResearch(r)!.iq, 0)
+      p.iq = add(p.iq, fromNumber(refund))
+      research.current = state
+      saveGame()
+      setUiState(s => ({ ...s, iq: p.iq, research: state }))
+      return true
+    },
+    getAchievements() {
+      const metrics = achievementMetrics()
+      const unlocked = new Set(achievements.current.unlocked)
+      return ACHIEVEMENTS.map(a => ({ ...a, ...achievementProgress(a, metrics), unlocked: unlocked.has(a.id) }))
+    },
+    redeemCosmeticToken() {
+      if (!persisted.current || persisted.current.cosmeticTokens <= 0) return false
+      const unlocked = unlockedSpriteIds(savedCosmetics.current)
+      const locked = ALL_SPRITE_IDS.filter(id => !unlocked.includes(id))
+      if (locked.length === 0) {
+        try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: 'Every sprite is already unlocked', kind: 'unlock', ms: 2000 } })) } catch {}
+        return false
+      }
+      persisted.current.cosmeticTokens -= 1
+      setUiState(s => ({ ...s, cosmeticTokens: persisted.current!.cosmeticTokens }))
+      unlockSprite(locked[(Math.random() * locked.length) | 0])
+      return true
+    },
+    buyCosmetic(id) {
+      const p = persisted.current
+      const item = getShopItem(id)
+      if (!p || !item) return false
+      if (purchaseBlocker(item, ownedCosmetics(savedCosmetics.current))) return false
+      const price = itemPrice(item)
+      if (balanceOf(price.currency) < price.amount) return false
+      spend(price.currency, price.amount)
+      setUiState(s => ({ ...s, tokens: p.tokens, iq: p.iq }))
+      if (item.kind === 'sprite') {
+        unlockSprite(item.target, false)
+      } else if (item.kind === 'effect') {
+        updateCosmetics(c => ({ ...c, unlockedEffects: Array.from(new Set([...ownedEffects(c), item.target])) }))
+      } else {
+        updateCosmetics(c => ({ ...c, ambientSlots: Math.max(ambientSlots(c), Number(item.target)) }))
+      }
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Bought: ${item.label}`, kind: 'shop', ms: 2500 } })) } catch {}
+      return true
+    },
+    chooseLineage(lineage) {
+      if (!isLineage(lineage)) {
+        console.warn('Invalid lineage:', lineage)
+        return false
+      }
+      const idx = clusters.current.findIndex(c => c.awaitingLineage)
+      if (idx < 0) return false
+      splitCore(idx, lineage)
+      syncPendingLineages()
+      bumpAchievement('lineageSplits')
+      try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `Split into ${getLineage(lineage)!.label} cores`, kind: 'lineage', ms: 2000 } })) } catch {}
+      return true
+    },
+    // Site effects (components/SiteEffectsLayer.tsx) play only once their IQ unlock is bought
     triggerEffect(name) {
+      const iqUp = persisted.current?.iqUpgrades
+      if (name === 'confetti' ? !iqUp?.confettiUnlocked : !iqUp?.paletteUnlocked) return
       try { window.dispatchEvent(new CustomEvent("galaxy-effect", { detail: { name, t: Date.now() } })) } catch {}
     },
     getStats() {
-      const counts = [0,0,0,0,0]
+      const counts = new Array(coreLevelCap()).fill(0)
       for (let i = 0; i < clusters.current.length; i++) {
         const c = clusters.current[i]
-        const lvl = Math.min(5, Math.max(1, c.level))
+        const lvl = clampLevel(c.level, counts.length)
         const stackMultiplier = c.stackCount || 1
         counts[lvl-1] += stackMultiplier // Count all stacked cores
       }
-      const computeMult = Math.pow(2, (persisted.current?.iqUpgrades.computeMult ?? 0))
-      let tps = 0
-      for (let i = 0; i < counts.length; i++) tps += LEVEL_RATE[i] * counts[i]
-      tps *= computeMult
-      const totalEverCollected = persisted.current?.totalEverCollected ?? 0
+      const tps = passiveTokensPerSec()
+      const totalEverCollected = persisted.current?.totalEverCollected ?? ZERO
       // Compute floating data as pages currently attached to cores
       let currentFloatingData = 0
       for (let i = 0; i < clusters.current.length; i++) currentFloatingData += (clusters.current[i].members || 0) * (clusters.current[i].stackCount || 1)
-      return { tokensPerSec: tps, coresByLevel: counts, totalEverCollected, currentFloatingData }
+      return { tokensPerSec: tps, coresByLevel: counts, coresByLineage: lineageCounts(), clickMult: lineageClickMultiplier(), bestCombo: achievements.current.counters.bestCombo, totalEverCollected, currentFloatingData }
     },
 
     // Drag and drop functionality
@@ -3554,6 +4694,23 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           return true
         }
       }
+
+      // No data under the pointer: pick up a core to merge it into another of the same level
+      const coreIdx = nearestCoreWithin(screenX, screenY, dragRadius)
+      if (coreIdx !== -1) {
+        const c = clusters.current[coreIdx]
+        const mouseWorldCoords = screenToWorld(screenX, screenY)
+        dragStateRef.current = {
+          worldX: mouseWorldCoords.x,
+          worldY: mouseWorldCoords.y,
+          isActive: true,
+          draggedCore: coreIdx
+        }
+        c.isDragging = true
+        c.dragOffsetX = mouseWorldCoords.x - c.x
+        c.dragOffsetY = mouseWorldCoords.y - c.y
+        return true
+      }
       return false
     },
 
@@ -3584,6 +4741,28 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
       }
 
       console.log('🏁 endDrag called - clearing drag state')
+      const draggedCoreIdx = dragStateRef.current.draggedCore
+      if (draggedCoreIdx !== undefined) {
+        const core = clusters.current[draggedCoreIdx]
+        if (core) {
+          core.x = dragStateRef.current.worldX - (core.dragOffsetX || 0)
+          core.y = dragStateRef.current.worldY - (core.dragOffsetY || 0)
+          core.isDragging = false
+          core.dragOffsetX = undefined
+          core.dragOffsetY = undefined
+          const targetIdx = nearestCoreWithin(core.x, core.y, CLICK_RADIUS, draggedCoreIdx)
+          if (targetIdx !== -1) {
+            const target = clusters.current[targetIdx]
+            if (target.level !== core.level) {
+              try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: 'Only cores of the same level can merge', kind: 'merge', ms: 2000 } })) } catch {}
+            } else if (core.level >= coreLevelCap()) {
+              try { window.dispatchEvent(new CustomEvent('galaxy-toast', { detail: { message: `L${core.level} cores are already at max level`, kind: 'merge', ms: 2000 } })) } catch {}
+            } else {
+              mergeCores(targetIdx, draggedCoreIdx)
+            }
+          }
+        }
+      }
       const draggedPointIdx = dragStateRef.current.draggedPoint
       if (draggedPointIdx !== undefined) {
         const point = points.current[draggedPointIdx]
@@ -3618,9 +4797,9 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
           // Spawn additional shards based on tier so drag yields correct visual count and value
           try {
             const t = point.tier || 1
-            const splitMap: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 5, 5: 8 }
-            const pieces = splitMap[t] || 1
+            const pieces = dropTable(t).shards
             for (let k = 1; k < pieces; k++) spawnCapturedShardFrom(point, 1 + k * 0.2)
+            grantOutlierDrops(t, (CLICK_BASE + upgradeEffect('clickYield')) * pieces, point.x, point.y, 'drag')
           } catch {}
 
           // Clear drag state for this point
@@ -3641,20 +4820,20 @@ type Persisted = { tokens: number; iq: number; upgrades: Upgrades; iqUpgrades: G
     debug: {
       addTokens(amount: number) {
         if (persisted.current) {
-          persisted.current.tokens += amount
+          persisted.current.tokens = add(persisted.current.tokens, amount)
           setUiState(s => ({ ...s, tokens: persisted.current!.tokens }))
         }
       },
       addIQ(amount: number) {
         if (persisted.current) {
-          persisted.current.iq += amount
+          persisted.current.iq = add(persisted.current.iq, amount)
           setUiState(s => ({ ...s, iq: persisted.current!.iq }))
         }
       },
       addCores(levels: number[]) {
-        // Add cores at specified levels [1,2,3,4,5]
+        // Add cores at specified levels (clamped to the current max level)
         levels.forEach(level => {
-          const targetLevel = Math.max(1, Math.min(5, level))
+          const targetLevel = clampLevel(level, coreLevelCap())
 
           // Try stacking first if over threshold
       if (/* getTotalCoreCount() >= MAX_CORES || */ tryStackCore(targetLevel)) {
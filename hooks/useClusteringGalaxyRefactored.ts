@@ -7,6 +7,7 @@ import { useGameLogic } from './useGameLogic'
 import { useRendering } from './useRendering'
 import { usePersistence } from './usePersistence'
 import { GAME_CONFIG } from '../constants/gameConstants'
+import { galaxyStorage } from '../constants/storageAdapter'
 import type { UseClusteringGalaxyOptions, GalaxyAPI, GalaxyState } from '../types/gameTypes'
 
 export function useClusteringGalaxyRefactored(opts: UseClusteringGalaxyOptions = {}) {
@@ -82,29 +83,34 @@ export function useClusteringGalaxyRefactored(opts: UseClusteringGalaxyOptions =
     // Initialize engine
     engine.initialize(worldW.current, worldH.current, reducedMotion.current)
 
-    // Load saved state
-    const loadedState = loadState()
-    
-    // Apply offline progress
-    if (loadedState) {
-      const offlineMinutes = calculateOfflineProgress(loadedState.lastSeen)
-      const stats = engine.getStats(loadedState.iqUpgrades)
-      const offlineTokens = applyOfflineTrickle(offlineMinutes, stats.tokensPerSec)
-      
-      if (offlineTokens > 0) {
-        updateTokens(offlineTokens)
+    // Load saved state once storage is open
+    let cancelled = false
+    galaxyStorage().then(storage => {
+      if (cancelled) return
+      const loadedState = loadState(storage)
+
+      // Apply offline progress
+      if (loadedState) {
+        const offlineMinutes = calculateOfflineProgress(loadedState.lastSeen)
+        const stats = engine.getStats(loadedState.iqUpgrades)
+        const offlineTokens = applyOfflineTrickle(offlineMinutes, stats.tokensPerSec)
+
+        if (offlineTokens > 0) {
+          updateTokens(offlineTokens)
+        }
       }
-    }
 
-    // Update spawn cooldown based on upgrades
-    const state = getState()
-    if (state) {
-      const spawnCooldown = GAME_CONFIG.BASE_SPAWN / (1 + state.upgrades.spawnRate * 0.15)
-      // Note: This would need to be passed to the engine or handled differently
-    }
+      // Update spawn cooldown based on upgrades
+      const state = getState()
+      if (state) {
+        const spawnCooldown = GAME_CONFIG.BASE_SPAWN / (1 + state.upgrades.spawnRate * 0.15)
+        // Note: This would need to be passed to the engine or handled differently
+      }
+    })
 
     return () => {
-      // Cleanup is handled by individual hooks
+      // Other cleanup is handled by individual hooks
+      cancelled = true
     }
   }, [enabled, engine, loadState, updateTokens, calculateOfflineProgress, applyOfflineTrickle, getState])
 
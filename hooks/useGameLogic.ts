@@ -2,7 +2,7 @@
 
 import { useCallback } from 'react'
 import { ClusteringGalaxyEngine } from '../engine/ClusteringGalaxyEngine'
-import { GAME_CONFIG, UPGRADE_CONFIG } from '../constants/gameConstants'
+import { getUpgrade, upgradeLevelIn, remainingLevels, levelCost } from '../constants/upgrades'
 import type { Upgrades, IQUpgrades, GalaxyAPI } from '../types/gameTypes'
 
 export function useGameLogic(
@@ -35,21 +35,23 @@ export function useGameLogic(
       return
     }
 
-    if (key === 'dataQuality') {
-      const lvl = state.upgrades.dataQuality ?? 0
-      const costIQ = lvl === 0 ? 10 : 100
-      if (state.iq < costIQ || lvl >= 2) return
-      
-      updateIQ(-costIQ)
-      updateUpgrades({ dataQuality: lvl + 1 })
+    const def = getUpgrade(key)
+    if (!def || def.state !== 'upgrades') {
+      console.warn('Invalid upgrade key:', key)
       return
     }
 
-    const lvl = state.upgrades[key] || 0
-    const price = calculateUpgradeCost(key, lvl)
-    if (state.tokens < price) return
-
-    updateTokens(-price)
+    // dataQuality is priced in IQ; the registry entry carries the currency
+    const lvl = upgradeLevelIn(def, state.upgrades)
+    if (remainingLevels(key, lvl) <= 0) return
+    const price = levelCost(key, lvl)
+    if (def.currency === 'iq') {
+      if (state.iq < price) return
+      updateIQ(-price)
+    } else {
+      if (state.tokens < price) return
+      updateTokens(-price)
+    }
     updateUpgrades({ [key]: lvl + 1 })
   }, [updateTokens, updateIQ, updateUpgrades, getState])
 
@@ -70,32 +72,14 @@ export function useGameLogic(
       return
     }
 
-    let lvl = 0
-    let cost = 0
-
-    if (key === 'computeMult') {
-      lvl = state.iqUpgrades.computeMult
-      cost = Math.pow(UPGRADE_CONFIG.COMPUTE_MULT.base, lvl)
-      if (state.iq < cost || lvl >= 10) return
-      updateIQ(-cost)
-      updateIQUpgrades({ computeMult: lvl + 1 })
-    } else if (key === 'autoCollect') {
-      lvl = state.iqUpgrades.autoCollect
-      cost = Math.pow(UPGRADE_CONFIG.AUTO_COLLECT.base, lvl)
-      if (state.iq < cost) return
-      updateIQ(-cost)
-      updateIQUpgrades({ autoCollect: lvl + 1 })
-    } else if (key === 'confetti') {
-      if (state.iqUpgrades.confettiUnlocked) return
-      if (state.iq < UPGRADE_CONFIG.CONFETTI_COST) return
-      updateIQ(-UPGRADE_CONFIG.CONFETTI_COST)
-      updateIQUpgrades({ confettiUnlocked: true })
-    } else if (key === 'palette') {
-      if (state.iqUpgrades.paletteUnlocked) return
-      if (state.iq < UPGRADE_CONFIG.PALETTE_COST) return
-      updateIQ(-UPGRADE_CONFIG.PALETTE_COST)
-      updateIQUpgrades({ paletteUnlocked: true })
-    }
+    const def = getUpgrade(key)!
+    const lvl = upgradeLevelIn(def, state.iqUpgrades)
+    if (remainingLevels(key, lvl) <= 0) return
+    const cost = levelCost(key, lvl)
+    if (state.iq < cost) return
+    updateIQ(-cost)
+    // Unlock entries are stored as booleans, levelled ones as counts
+    updateIQUpgrades({ [def.field]: typeof state.iqUpgrades[def.field] === 'boolean' ? true : lvl + 1 })
   }, [updateIQ, updateIQUpgrades, getState])
 
   // Trigger effects
@@ -137,19 +121,3 @@ export function useGameLogic(
     calculateOfflineTrickle,
   }
 }
-
-// Helper function to calculate upgrade costs
-function calculateUpgradeCost(key: keyof Upgrades, level: number): number {
-  switch (key) {
-    case 'spawnRate':
-      return Math.floor(10 * Math.pow(1.5, level))
-    case 'spawnQty':
-      return Math.floor(15 * Math.pow(1.4, level))
-    case 'clickYield':
-      return Math.floor(20 * Math.pow(1.3, level))
-    case 'batchCollect':
-      return Math.floor(25 * Math.pow(1.2, level))
-    default:
-      return 0
-  }
-}
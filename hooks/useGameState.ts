@@ -1,7 +1,11 @@
 // Game State Management Hook - Handles state persistence and UI updates
 
 import { useState, useRef, useCallback } from 'react'
-import { PERSISTENCE_KEYS } from '../constants/gameConstants'
+import { loadSave, updateSave } from '../constants/saveDocument'
+import type { SaveStorage } from '../constants/saveDocument'
+import { getGalaxyStorage } from '../constants/storageAdapter'
+import { parse, serialize, toFiniteNumber } from '../constants/bigNumber'
+import { activeSlotStorage } from '../constants/saveSlots'
 import type { GalaxyState, PersistedState, Upgrades, IQUpgrades } from '../types/gameTypes'
 
 export function useGameState() {
@@ -14,38 +18,35 @@ export function useGameState() {
 
   const persisted = useRef<PersistedState | null>(null)
 
-  // Load state from localStorage
-  const loadState = useCallback(() => {
+  // Load the active save slot from the opened storage (see galaxyStorage)
+  const loadState = useCallback((storage: SaveStorage) => {
     try {
-      const tokensRaw = localStorage.getItem(PERSISTENCE_KEYS.TOKENS)
-      const iqRaw = localStorage.getItem(PERSISTENCE_KEYS.IQ)
-      const upgradesRaw = localStorage.getItem(PERSISTENCE_KEYS.UPGRADES)
-      const iqUpRaw = localStorage.getItem(PERSISTENCE_KEYS.IQ_UPGRADES)
-      const lastSeenRaw = localStorage.getItem(PERSISTENCE_KEYS.LAST_SEEN)
-
-      const tokens = tokensRaw ? parseInt(tokensRaw, 10) || 0 : 0
-      const iq = iqRaw ? parseInt(iqRaw, 10) || 0 : 0
-      const upgrades: Upgrades = upgradesRaw ? JSON.parse(upgradesRaw) : { 
+      const save = loadSave(activeSlotStorage(storage))
+
+      // Balances are stored as big-number strings ('1.5e12'); this state keeps plain numbers
+      const tokens = toFiniteNumber(parse(save.tokens))
+      const iq = toFiniteNumber(parse(save.iq))
+      const upgrades: Upgrades = save.upgrades ? save.upgrades as Upgrades : { 
         spawnRate: 0, 
         spawnQty: 0, 
         clickYield: 0, 
         batchCollect: 0 
       }
-      const iqUpgrades: IQUpgrades = iqUpRaw ? JSON.parse(iqUpRaw) : { 
+      const iqUpgrades: IQUpgrades = save.iqUpgrades ? save.iqUpgrades as IQUpgrades : { 
         computeMult: 0, 
         autoCollect: 0, 
         confettiUnlocked: false, 
         paletteUnlocked: false 
       }
-      const lastSeen = lastSeenRaw ? parseInt(lastSeenRaw, 10) || Date.now() : Date.now()
+      const lastSeen = save.lastSeen || Date.now()
 
       persisted.current = { tokens, iq, upgrades, iqUpgrades, lastSeen }
       setUiState({ tokens, iq, upgrades, iqUpgrades })
 
       return { tokens, iq, upgrades, iqUpgrades, lastSeen }
     } catch (error) {
-      console.warn('Failed to load game state from localStorage:', error)
-      // Initialize with default values if localStorage fails
+      console.warn('Failed to load game state from storage:', error)
+      // Initialize with default values if the save can't be read
       const defaultState = {
         tokens: 0,
         iq: 0,
@@ -59,18 +60,21 @@ export function useGameState() {
     }
   }, [])
 
-  // Save state to localStorage
+  // Save state to storage
   const saveState = useCallback(() => {
-    if (!persisted.current) return
+    const storage = getGalaxyStorage()
+    if (!persisted.current || !storage) return
 
     try {
-      localStorage.setItem(PERSISTENCE_KEYS.TOKENS, String(persisted.current.tokens))
-      localStorage.setItem(PERSISTENCE_KEYS.UPGRADES, JSON.stringify(persisted.current.upgrades))
-      localStorage.setItem(PERSISTENCE_KEYS.IQ_UPGRADES, JSON.stringify(persisted.current.iqUpgrades))
-      localStorage.setItem(PERSISTENCE_KEYS.IQ, String(persisted.current.iq))
-      localStorage.setItem(PERSISTENCE_KEYS.LAST_SEEN, String(Date.now()))
+      updateSave(activeSlotStorage(storage), {
+        tokens: serialize(persisted.current.tokens),
+        iq: serialize(persisted.current.iq),
+        upgrades: persisted.current.upgrades,
+        iqUpgrades: persisted.current.iqUpgrades,
+        lastSeen: Date.now(),
+      })
     } catch (error) {
-      console.warn('Failed to save game state to localStorage:', error)
+      console.warn('Failed to save game state:', error)
     }
   }, [])
 
@@ -3,6 +3,11 @@
 import { useCallback, useEffect, useRef } from 'react'
 import { GAME_CONFIG } from '../constants/gameConstants'
 import type { PersistedState } from '../types/gameTypes'
+import { clearSave, loadSave, writeSave, serializeSave } from '../constants/saveDocument'
+import type { SaveImportResult } from '../constants/saveDocument'
+import { parseSaveText } from '../constants/saveCode'
+import { getGalaxyStorage } from '../constants/storageAdapter'
+import { activeSlotStorage } from '../constants/saveSlots'
 
 export function usePersistence(
   enabled: boolean,
@@ -34,16 +39,30 @@ export function usePersistence(
     }
   }, [enabled, saveState])
 
-  // Save on page unload
+  // Save when the page is hidden or unloads, with a synchronous localStorage copy of any write
+  // IndexedDB hasn't committed yet (see StorageMirror.backupTo)
   useEffect(() => {
     if (!enabled) return
 
-    const handleBeforeUnload = () => {
+    const handleLeave = () => {
       saveState()
+      const storage = getGalaxyStorage()
+      if (!storage) return
+      storage.backupTo(window.localStorage)
+      void storage.flush()
+    }
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') handleLeave()
     }
 
-    window.addEventListener('beforeunload', handleBeforeUnload)
-    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+    window.addEventListener('beforeunload', handleLeave)
+    window.addEventListener('pagehide', handleLeave)
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => {
+      window.removeEventListener('beforeunload', handleLeave)
+      window.removeEventListener('pagehide', handleLeave)
+      document.removeEventListener('visibilitychange', handleVisibility)
+    }
   }, [enabled, saveState])
 
   // Calculate offline progress
@@ -69,58 +88,44 @@ export function usePersistence(
 
   // Clear save data
   const clearSaveData = useCallback(() => {
+    const storage = getGalaxyStorage()
+    if (!storage) return
     try {
-      localStorage.removeItem('galaxy.tokens')
-      localStorage.removeItem('galaxy.iq')
-      localStorage.removeItem('galaxy.upgrades')
-      localStorage.removeItem('galaxy.iqUpgrades')
-      localStorage.removeItem('galaxy.lastSeen')
+      clearSave(activeSlotStorage(storage))
     } catch (error) {
       console.warn('Failed to clear save data:', error)
     }
   }, [])
 
-  // Export save data
+  // Export save data: the whole save document, flushed first so it matches the running game
   const exportSaveData = useCallback(() => {
-    const state = getState()
-    if (!state) return null
+    const storage = getGalaxyStorage()
+    if (!getState() || !storage) return null
 
     try {
-      return JSON.stringify(state, null, 2)
+      saveState()
+      return serializeSave(loadSave(activeSlotStorage(storage)))
     } catch (error) {
       console.warn('Failed to export save data:', error)
       return null
     }
-  }, [getState])
-
-  // Import save data
-  const importSaveData = useCallback((data: string) => {
+  }, [getState, saveState])
+
+  // Import save data (a save code or exported JSON): checked field by field, stored only if every field passes
+  const importSaveData = useCallback((data: string): SaveImportResult => {
+    const { doc, errors } = parseSaveText(data)
+    if (!doc) {
+      console.warn('Invalid save data:', errors)
+      return { ok: false, errors }
+    }
+    const storage = getGalaxyStorage()
+    if (!storage) return { ok: false, errors: ['save: the game is still loading; try again in a moment'] }
     try {
-      const parsed = JSON.parse(data) as PersistedState
-      
-      // Validate the data structure
-      if (
-        typeof parsed.tokens === 'number' &&
-        typeof parsed.iq === 'number' &&
-        typeof parsed.upgrades === 'object' &&
-        typeof parsed.iqUpgrades === 'object' &&
-        typeof parsed.lastSeen === 'number'
-      ) {
-        // Save to localStorage
-        localStorage.setItem('galaxy.tokens', String(parsed.tokens))
-        localStorage.setItem('galaxy.iq', String(parsed.iq))
-        localStorage.setItem('galaxy.upgrades', JSON.stringify(parsed.upgrades))
-        localStorage.setItem('galaxy.iqUpgrades', JSON.stringify(parsed.iqUpgrades))
-        localStorage.setItem('galaxy.lastSeen', String(parsed.lastSeen))
-        
-        return true
-      } else {
-        console.warn('Invalid save data format')
-        return false
-      }
+      writeSave(activeSlotStorage(storage), doc)
+      return { ok: true, errors: [] }
     } catch (error) {
       console.warn('Failed to import save data:', error)
-      return false
+      return { ok: false, errors: [`save: could not be stored (${error instanceof Error ? error.message : String(error)})`] }
     }
   }, [])
 
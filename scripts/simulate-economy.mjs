@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Headless Clustering Galaxy economy run: plays fresh saves with bot strategies and prints the report.
+//   node scripts/simulate-economy.mjs --hours=4 --strategy=all --seed=1 --format=json|csv [--pacing=calm] [--out=file]
+import { createRequire } from 'node:module'
+import { writeFileSync } from 'node:fs'
+
+const require = createRequire(import.meta.url)
+const { STRATEGIES, simulateEconomy, samplesToCsv } = require('../hooks/economySim.js')
+const { getPreset } = require('../hooks/pacing.js')
+
+const args = process.argv.slice(2)
+const arg = (name, fallback) => {
+  const hit = args.find(a => a.startsWith(`--${name}=`))
+  return hit ? hit.slice(name.length + 3) : fallback
+}
+
+const hours = Number(arg('hours', '2'))
+const seed = Number(arg('seed', '1'))
+const step = Number(arg('step', '0.1'))
+const sampleEvery = Number(arg('sample', '60'))
+const format = arg('format', 'json')
+const out = arg('out', '')
+const pacing = arg('pacing', 'standard')
+const strategyArg = arg('strategy', 'all')
+const ids = strategyArg === 'all' ? Object.keys(STRATEGIES) : strategyArg.split(',')
+
+const unknown = ids.filter(id => !STRATEGIES[id])
+if (unknown.length || !(hours > 0) || !['json', 'csv'].includes(format) || !getPreset(pacing)) {
+  if (unknown.length) console.error(`[sim] Unknown strategy: ${unknown.join(', ')} (have ${Object.keys(STRATEGIES).join(', ')}, all)`)
+  if (!getPreset(pacing)) console.error(`[sim] Unknown pacing preset: ${pacing}`)
+  if (!(hours > 0)) console.error('[sim] --hours must be a positive number')
+  if (!['json', 'csv'].includes(format)) console.error('[sim] --format must be json or csv')
+  process.exit(1)
+}
+
+const reports = ids.map(id => simulateEconomy({ strategy: id, hours, seed, step, sampleEvery, pacing }))
+const text = format === 'csv' ? samplesToCsv(reports) : JSON.stringify(reports, null, 2) + '\n'
+
+if (out) {
+  writeFileSync(out, text)
+  for (const r of reports) {
+    console.error(`[sim] ${r.label}: first upgrade ${r.milestones.firstUpgrade ?? '-'}s, first split ${r.milestones.firstSplit ?? '-'}s, ${r.final.tokens} tokens after ${hours}h`)
+  }
+  console.error(`[sim] Wrote ${out}`)
+} else {
+  process.stdout.write(text)
+}
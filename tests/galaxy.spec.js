@@ -1,6 +1,24 @@
 // Lightweight unit tests for Clustering Galaxy math
 const assert = require('assert')
-const { UPGRADE_BASES, upgradeCost, spawnIntervalBase, offlineTrickle, batchCollectChance, clamp } = require('../hooks/galaxyMath.js')
+const { geometricBulkCost, maxAffordable, spawnIntervalBase, MIN_SPAWN_INTERVAL, spawnRateCap, offlineEarnings, offlineAwaySeconds, OFFLINE_MIN_SECONDS, autoCollectRate, batchCollectRadius, comboWindowSeconds, comboMultiplier, mergeStacks, retrainWeights, clamp } = require('../hooks/galaxyMath.js')
+const Big = require('../hooks/bigNumber.js')
+const { UPGRADES, UPGRADE_BASES, upgradeCost, bulkCost, maxAffordableLevels, getUpgrade, levelCost } = require('../hooks/upgradeRegistry.js')
+const { DROP_TABLES, rollDrops, mergeBuff } = require('../hooks/dropTables.js')
+const Events = require('../hooks/galaxyEvents.js')
+const Ach = require('../hooks/achievements.js')
+const Auto = require('../hooks/autobuyer.js')
+const Research = require('../hooks/research.js')
+const Capsules = require('../hooks/capsules.js')
+const Tools = require('../hooks/captureTools.js')
+const Levels = require('../hooks/coreLevels.js')
+const Shop = require('../hooks/cosmeticShop.js')
+const Sim = require('../hooks/economySim.js')
+const Pacing = require('../hooks/pacing.js')
+const Save = require('../hooks/saveDocument.js')
+const Code = require('../hooks/saveCode.js')
+const Store = require('../hooks/storageAdapter.js')
+const Slots = require('../hooks/saveSlots.js')
+const { LINEAGES, CLICK_BONUS_CAP, isLineage, lineagePassiveMult, lineageClickMult } = require('../hooks/lineages.js')
 
 function testCostCurve() {
   Object.entries(UPGRADE_BASES).forEach(([key, base]) => {
@@ -13,17 +31,72 @@ function testCostCurve() {
   })
 }
 
-function testOfflineTrickleClamp() {
-  const clusters = 5
-  const mult = 4 // 2^2
-  const tenMin = offlineTrickle(clusters, mult, 10)
-  const thirtyMin = offlineTrickle(clusters, mult, 30)
-  const sixtyMin = offlineTrickle(clusters, mult, 60)
-  assert(tenMin >= 0, '10min should be >= 0')
-  assert(thirtyMin >= tenMin, '30min >= 10min')
-  assert.strictEqual(sixtyMin, thirtyMin, 'clamped at 30min')
-  const neg = offlineTrickle(clusters, mult, -10)
-  assert.strictEqual(neg, 0, 'negative minutes => 0')
+function testBulkCost() {
+  Object.keys(UPGRADE_BASES).forEach((key) => {
+    assert.strictEqual(bulkCost(key, 3, 1), upgradeCost(key, 3), `bulk x1 matches single: ${key}`)
+    const summed = Array.from({ length: 20 }, (_, i) => upgradeCost(key, 2 + i)).reduce((a, b) => a + b, 0)
+    const bulk = bulkCost(key, 2, 20)
+    assert(Math.abs(bulk - summed) <= 20, `closed form ~ summed levels: ${key} ${bulk} vs ${summed}`)
+  })
+  // Doubling IQ costs are exact: 1 + 2 + 4 + 8
+  assert.strictEqual(geometricBulkCost(1, 2, 0, 4), 15)
+}
+
+function testMaxAffordable() {
+  const budget = 10000
+  const n = maxAffordableLevels('clickYield', 0, budget)
+  assert(n > 0, 'can afford some levels')
+  assert(bulkCost('clickYield', 0, n) <= budget, 'max affordable fits budget')
+  assert(bulkCost('clickYield', 0, n + 1) > budget, 'one more level does not fit')
+  assert.strictEqual(maxAffordableLevels('spawnQty', 0, 1e12), 4, 'spawnQty capped at 5 per wave')
+  assert.strictEqual(maxAffordableLevels('spawnQty', 4, 1e12), 0, 'no levels past cap')
+  // Data Ingest stops at the spawn floor for the pacing in play (Standard when none is given)
+  assert.strictEqual(maxAffordableLevels('spawnRate', 0, 1e12), 7, 'spawnRate capped at the 2.5s floor')
+  assert.strictEqual(maxAffordableLevels('spawnRate', 0, 1e12, Pacing.pacingValues({ preset: 'fast' })), 1, 'faster pacing reaches the floor sooner')
+  assert.strictEqual(maxAffordableLevels('spawnRate', 9, 1e12), 0, 'levels above the floor buy nothing more')
+  assert.strictEqual(maxAffordable(1, 2, 0, 0, Infinity), 0, 'empty budget buys nothing')
+}
+
+function testRegistryShape() {
+  const ids = UPGRADES.map((u) => u.id)
+  assert.strictEqual(new Set(ids).size, ids.length, 'upgrade ids are unique')
+  UPGRADES.forEach((u) => {
+    assert(levelCost(u.id, 0) > 0, `first level has a price: ${u.id}`)
+    u.requires.forEach((req) => assert(getUpgrade(req), `${u.id} requires known upgrade ${req}`))
+  })
+  // Linear and table curves go through the same bulk pricing
+  assert.strictEqual(bulkCost('warmStart', 0, 3), 2 + 4 + 6)
+  assert.strictEqual(bulkCost('dataQuality', 0, 2), 110)
+  assert.strictEqual(maxAffordableLevels('passiveBoost', 0, 10), 4, '1 + 2 + 3 + 4 fits 10 weights')
+  assert.strictEqual(maxAffordableLevels('passiveBoost', 19, 1e9), 1, 'weights upgrades respect cap')
+}
+
+function testOfflineEarningsCap() {
+  const cap = getUpgrade('offlineCap').effect(0) // 30 minutes
+  const eff = getUpgrade('offlineEfficiency').effect(0)
+  const tenMin = offlineEarnings(20, 5, 600, cap, eff)
+  const thirtyMin = offlineEarnings(20, 5, 1800, cap, eff)
+  const sixtyMin = offlineEarnings(20, 5, 3600, cap, eff)
+  assert(tenMin.total > 0, '10min earns something')
+  assert(thirtyMin.total >= tenMin.total, '30min >= 10min')
+  assert.strictEqual(sixtyMin.total, thirtyMin.total, 'clamped at 30min')
+  assert(sixtyMin.capped && !thirtyMin.capped, 'cap flagged only past the limit')
+  assert.strictEqual(tenMin.total, tenMin.passive + tenMin.auto, 'sources add up')
+  assert.strictEqual(offlineEarnings(20, 5, -600, cap, eff).total, 0, 'negative time => 0')
+  // Away-time counts from the save's own write stamp and ignores quick reloads
+  const now = 1_700_000_000_000
+  assert.strictEqual(offlineAwaySeconds(now - 5000, now), 0, 'a reload seconds after the last save earns nothing')
+  assert.strictEqual(offlineAwaySeconds(now - (OFFLINE_MIN_SECONDS - 1) * 1000, now), 0)
+  assert.strictEqual(offlineAwaySeconds(now - 600_000, now), 600)
+  assert.strictEqual(offlineAwaySeconds(now + 600_000, now), 0, 'clock went backwards')
+  assert.strictEqual(offlineAwaySeconds(undefined, now), 0, 'no stamp, no credit')
+  const upgraded = offlineEarnings(20, 5, 3600, getUpgrade('offlineCap').effect(1), getUpgrade('offlineEfficiency').effect(5))
+  assert(upgraded.total > sixtyMin.total, 'cap and efficiency upgrades pay more')
+  assert(upgraded.efficiency <= 1, 'efficiency capped at 100%')
+  // Auto-collect is limited by both its interval and spawn supply
+  assert.strictEqual(autoCollectRate(0.5, 10), 2)
+  assert.strictEqual(autoCollectRate(0.5, 0.4), 0.4)
+  assert.strictEqual(autoCollectRate(0, 10), 0)
 }
 
 function testSpawnIntervalMonotonic() {
@@ -34,22 +107,595 @@ function testSpawnIntervalMonotonic() {
     assert(cur < prev, `spawn interval decreases with level ${lvl}: ${cur} < ${prev}`)
     prev = cur
   }
+  // The cap is the first level at the floor: one level less is still above it
+  for (const spawnBase of [2.5, 3, 4.5, 6, 8, 15]) {
+    const cap = spawnRateCap(spawnBase)
+    assert(spawnIntervalBase(spawnBase, cap) <= MIN_SPAWN_INTERVAL, `Lv ${cap} reaches the floor at ${spawnBase}s`)
+    if (cap > 0) assert(spawnIntervalBase(spawnBase, cap - 1) > MIN_SPAWN_INTERVAL, `Lv ${cap - 1} is above the floor at ${spawnBase}s`)
+  }
+  assert.strictEqual(spawnRateCap(6), 7, 'Standard pacing tops out at Lv 7')
+}
+
+function testBatchCollectRadius() {
+  assert.strictEqual(batchCollectRadius(0), 0, 'no neighborhood before the first level')
+  let prev = 0
+  for (let lvl = 1; lvl <= 10; lvl++) {
+    const r = batchCollectRadius(lvl)
+    assert(r > prev, 'reach grows with level')
+    prev = r
+  }
+  assert.strictEqual(getUpgrade('batchCollect').effect(10), 260)
+}
+
+function testComboCurve() {
+  assert.strictEqual(comboMultiplier(0), 1)
+  assert.strictEqual(comboMultiplier(1), 1, 'a lone capture is not a combo')
+  assert(Math.abs(comboMultiplier(6) - 1.5) < 1e-9)
+  assert.strictEqual(comboMultiplier(21), 3)
+  assert.strictEqual(comboMultiplier(500), 3, 'cap at x3')
+  assert.strictEqual(comboWindowSeconds(0), 1.5)
+  assert.strictEqual(getUpgrade('comboWindow').effect(10), 4, 'Momentum lengthens the window')
+}
+
+function testRetrainWeights() {
+  assert.strictEqual(retrainWeights(0, 0), 0, 'no progress => no weights')
+  assert.strictEqual(retrainWeights(999, 1), 0, 'below 1k collected => no weights')
+  let prev = retrainWeights(1000, 1)
+  assert(prev >= 1, '1k collected => at least 1 weight')
+  for (const collected of [10000, 100000, 1000000]) {
+    const cur = retrainWeights(collected, 1)
+    assert(cur > prev, `weights grow with collected: ${cur} > ${prev}`)
+    prev = cur
+  }
+  assert(retrainWeights(100000, 500) > retrainWeights(100000, 5), 'higher core peak pays more')
+}
+
+function testMergeStacks() {
+  assert.deepStrictEqual(mergeStacks(1, 1), { fused: 1, leftover: 0 }, 'two single cores fuse into one')
+  assert.deepStrictEqual(mergeStacks(3, 1), { fused: 2, leftover: 0 })
+  assert.deepStrictEqual(mergeStacks(2, 3), { fused: 2, leftover: 1 }, 'odd core stays behind')
+  for (const [a, b] of [[1, 1], [4, 7], [10, 1]]) {
+    const { fused, leftover } = mergeStacks(a, b)
+    assert.strictEqual(fused * 2 + leftover, a + b, 'no cores created or lost')
+  }
+}
+
+function testBigNumber() {
+  // Precision survives past the double range, where plain numbers become Infinity
+  const huge = Big.mul(Big.fromNumber(1e300), Big.fromNumber(1e300))
+  assert.strictEqual(huge.e, 600)
+  assert(Big.gte(Big.add(huge, 1), huge), 'adding to a huge value does not overflow')
+  assert.strictEqual(Big.cmp(Big.sub(huge, huge), Big.ZERO), 0)
+  assert.strictEqual(Big.toFiniteNumber(huge), Number.MAX_VALUE, 'cost math gets a finite budget')
+  // Save round-trip, including legacy plain-integer saves
+  assert.deepStrictEqual(Big.parse(Big.serialize(huge)), huge)
+  assert.strictEqual(Big.toNumber(Big.parse('12345')), 12345)
+  assert.strictEqual(Big.serialize(Big.fromNumber(12345)), '12345')
+  assert.strictEqual(Big.parse('garbage'), Big.ZERO)
+  // Notations
+  assert.strictEqual(Big.format(999), '999')
+  assert.strictEqual(Big.format(1234567, 'suffix'), '1.23M')
+  assert.strictEqual(Big.format(1234567, 'scientific'), '1.23e6')
+  assert.strictEqual(Big.format(12345678, 'engineering'), '12.3e6')
+  assert.strictEqual(Big.format(999999, 'suffix'), '1M', 'rounding carries into the next suffix')
+  assert.strictEqual(Big.format(huge, 'suffix'), '1e600', 'suffix falls back to scientific')
+  // Repeated small adds stay whole: no 48.99999999999999 balances that can't afford a price of 49
+  let ones = Big.ZERO
+  for (let i = 0; i < 49; i++) ones = Big.add(ones, Big.fromNumber(1))
+  assert.strictEqual(Big.serialize(ones), '49')
+  assert.strictEqual(Big.format(ones), '49')
+  assert(Big.gte(ones, 49) && Big.toNumber(ones) >= 49, 'a balance of exactly the price affords it')
+  let threes = Big.ZERO
+  for (let i = 1; i <= 1000; i++) {
+    threes = Big.add(threes, 3)
+    assert.strictEqual(Big.format(threes), String(3 * i > 999 ? Big.format(3 * i) : 3 * i))
+  }
+  assert.strictEqual(Big.serialize(threes), '3000')
+  let tenths = Big.ZERO
+  for (let i = 0; i < 10; i++) tenths = Big.add(tenths, 0.1)
+  assert.strictEqual(Big.toNumber(tenths), 1, 'fractions are rounded back too')
+}
+
+function testLineageTraits() {
+  assert.deepStrictEqual(LINEAGES.map(l => l.id), ['transformer', 'ensemble'])
+  assert(isLineage('ensemble') && !isLineage('toString') && !isLineage(undefined))
+  assert(lineagePassiveMult('ensemble') > 1, 'ensemble boosts passive')
+  assert.strictEqual(lineagePassiveMult(undefined), 1, 'unspecialized cores are unchanged')
+  assert.strictEqual(lineageClickMult({}), 1)
+  assert.strictEqual(lineageClickMult({ ensemble: 50 }), 1, 'ensemble gives no click bonus')
+  assert(Math.abs(lineageClickMult({ transformer: 3 }) - 1.3) < 1e-9)
+  assert.strictEqual(lineageClickMult({ transformer: 1000 }), 1 + CLICK_BONUS_CAP, 'click bonus is capped')
+}
+
+function testDropTables() {
+  // Shard counts keep the old split map; higher tiers never pay less
+  assert.deepStrictEqual([1, 2, 3, 4, 5].map(t => DROP_TABLES[t].shards), [1, 2, 3, 5, 8])
+  const never = () => 0.999999
+  const always = () => 0
+  for (let t = 1; t <= 5; t++) {
+    const base = rollDrops(t, never)
+    assert.strictEqual(base.iq, 0, `tier ${t}: no IQ when every roll misses`)
+    assert.strictEqual(base.buffs.length, 0)
+    if (t > 1) assert(base.tokenMult >= rollDrops(t - 1, never).tokenMult, `tier ${t} token mult is monotonic`)
+  }
+  const epic = rollDrops(5, always)
+  assert.strictEqual(epic.tokenMult, 9, 'guaranteed ×3 and jackpot ×3 multiply')
+  assert(epic.iq > 0 && epic.cosmeticTokens > 0 && epic.buffs.length === 2)
+  assert.strictEqual(rollDrops(99, never).tier, 5, 'out-of-range tiers clamp')
+  // Refreshing a buff keeps the stronger multiplier and the later expiry
+  assert.deepStrictEqual(mergeBuff({ mult: 3, endsAt: 100 }, 2, 500), { mult: 3, endsAt: 500 })
+  assert.deepStrictEqual(mergeBuff(undefined, 2, 500), { mult: 2, endsAt: 500 })
+}
+
+function testEventSchedule() {
+  const t0 = 1000000
+  let sched = Events.initialSchedule(t0)
+  assert.strictEqual(Events.stepSchedule(sched, t0, () => 0).started, null, 'fresh saves wait before the first event')
+  let step = Events.stepSchedule(sched, sched.nextAt, () => 0)
+  assert.strictEqual(step.started, 'dataStorm')
+  sched = step.schedule
+  const def = Events.getEvent('dataStorm')
+  assert.strictEqual(sched.active.endsAt, sched.nextAt)
+  assert.strictEqual(Events.eventMods(sched.active.id).outlierCap, def.mods.outlierCap)
+  // A reload mid-event resumes the same event from the persisted schedule
+  const reloaded = Events.sanitizeSchedule(JSON.parse(JSON.stringify(sched)), sched.active.endsAt - 1)
+  assert.deepStrictEqual(reloaded, sched)
+  step = Events.stepSchedule(reloaded, sched.active.endsAt, () => 0)
+  assert.strictEqual(step.ended, 'dataStorm')
+  // The ended event stays on cooldown, so the next pick is a different one
+  const next = Events.stepSchedule(step.schedule, step.schedule.nextAt, () => 0)
+  assert.notStrictEqual(next.started, 'dataStorm')
+  assert.deepStrictEqual(Events.eventMods(undefined), Events.DEFAULT_MODS)
+  assert.deepStrictEqual(Events.sanitizeSchedule('junk', t0), Events.initialSchedule(t0))
+}
+
+function testAchievements() {
+  const ids = Ach.ACHIEVEMENTS.map(a => a.id)
+  assert(ids.length >= 24, 'dozens of milestones')
+  assert.strictEqual(new Set(ids).size, ids.length, 'ids are unique')
+  // The old one-off milestones are achievements that still announce via galaxy-effect
+  assert.strictEqual(Ach.getAchievement('reachL2').effect, 'l2-reached')
+  assert.strictEqual(Ach.getAchievement('reachL5').effect, 'first-max')
+  const fresh = Ach.newlyUnlocked([], { totalCollected: 1500, highestLevel: 2 }).map(a => a.id)
+  assert.deepStrictEqual(fresh, ['collect100', 'collect1k', 'reachL2'])
+  assert.deepStrictEqual(Ach.newlyUnlocked(fresh, { totalCollected: 1500, highestLevel: 2 }), [], 'unlocks happen once')
+  assert.strictEqual(Ach.achievementProgress(Ach.getAchievement('collect10k'), { totalCollected: 2500 }).ratio, 0.25)
+  assert.strictEqual(Ach.achievementBonus(['collect10k', 'collect100k', 'clicks5k'], 'passive'), 1.05)
+  assert.strictEqual(Ach.achievementBonus([], 'click'), 1)
+  const saved = Ach.sanitizeAchievements({ unlocked: ['epic1', 'bogus', 'epic1'], counters: { epicCatches: 3, merges: 'x' } })
+  assert.deepStrictEqual(saved.unlocked, ['epic1'])
+  assert.strictEqual(saved.counters.epicCatches, 3)
+  assert.strictEqual(saved.counters.merges, 0)
+}
+
+function testAutobuyerRules() {
+  const rules = Auto.sanitizeAutobuyer({ rules: [
+    { id: 'spawnRate', enabled: true, maxCostPct: 10, maxLevel: null },
+    { id: 'clickYield', enabled: true, maxCostPct: 250, maxLevel: 2 },
+    { id: 'bogus', enabled: true },
+  ] }).rules
+  assert.deepStrictEqual(rules.map(r => r.id), Auto.AUTOBUY_TARGETS, 'one rule per token upgrade')
+  assert.strictEqual(rules.find(r => r.id === 'clickYield').maxCostPct, 100, 'percent clamps to 100')
+  assert.strictEqual(rules.find(r => r.id === 'batchCollect').enabled, false, 'missing rules default off')
+  // spawnRate Lv0 costs 25: allowed at 250 tokens (10%), not at 249
+  assert(Auto.ruleAllows(rules[0], 0, 250))
+  assert(!Auto.ruleAllows(rules[0], 0, 249))
+  const buys = Auto.planPurchases(rules, {}, 1e6)
+  assert.strictEqual(buys.filter(b => b.id === 'clickYield').length, 2, 'level limit stops the rule')
+  assert.strictEqual(buys.length, 7 + 2, 'spawnRate stops at the spawn-interval floor')
+  const fast = Auto.planPurchases(rules, {}, 1e6, Pacing.pacingValues({ preset: 'fast' }))
+  assert.strictEqual(fast.filter(b => b.id === 'spawnRate').length, 1, 'the floor follows the pacing')
+  const qty = Auto.sanitizeAutobuyer({ rules: [{ id: 'spawnQty', enabled: true, maxCostPct: 100 }] }).rules
+  assert.strictEqual(Auto.planPurchases(qty, { spawnQty: 2 }, 1e9).length, 2, 'spawnQty stops at its registry cap')
+  assert.strictEqual(Auto.planPurchases(rules, {}, 1e6, null, 3).length, 3, 'buys per tick are capped')
+  assert.deepStrictEqual(buys.slice(0, 2).map(b => b.id), ['spawnRate', 'clickYield'], 'rules take turns')
+  const log = Auto.pushLog([], buys, 1)
+  assert.deepStrictEqual(log.find(e => e.id === 'clickYield'), { id: 'clickYield', level: 2, count: 2, cost: 50 + 80, at: 1 })
+}
+
+function testResearchQueue() {
+  const t0 = 1000000
+  let rs = Research.emptyResearch()
+  assert.strictEqual(Research.queueBlocker(rs, 'residual'), 'Requires Dropout')
+  rs = Research.enqueue(rs, 'dropout', t0)
+  assert.strictEqual(Research.queueBlocker(rs, 'residual'), null, 'a queued prerequisite is enough')
+  rs = Research.enqueue(rs, 'residual', t0)
+  rs = Research.enqueue(rs, 'attention', t0)
+  assert.strictEqual(Research.queueBlocker(rs, 'rlhf'), 'Queue full')
+  assert.strictEqual(rs.queue[0].endsAt, t0 + 180 * 1000, 'the head starts right away')
+  assert.strictEqual(rs.queue[1].endsAt, null, 'the rest wait')
+  // Cancelling a prerequisite also drops what needed it
+  const { removed } = Research.cancel(rs, 'dropout', t0)
+  assert.deepStrictEqual(removed, ['dropout', 'residual'])
+  // Time away finishes projects back to back
+  const { state, finished } = Research.stepResearch(rs, t0 + (180 + 600 + 60) * 1000)
+  assert.deepStrictEqual(finished, ['dropout', 'residual'])
+  assert.strictEqual(state.queue[0].endsAt, t0 + (180 + 600 + 300) * 1000)
+  assert.strictEqual(Research.researchBonus(state.completed, 'offline'), 1.1)
+  const saved = Research.sanitizeResearch({ completed: ['dropout', 'bogus'], queue: [{ id: 'dropout' }, { id: 'attention' }] }, t0)
+  assert.deepStrictEqual(saved.completed, ['dropout'])
+  assert.deepStrictEqual(saved.queue, [{ id: 'attention', endsAt: t0 + 300 * 1000 }])
+  assert.strictEqual(getUpgrade('attentionHeads').research, 'attention', 'research gates the upgrade')
+}
+
+function testCapsuleRolls() {
+  // Rarer capsules need more clicks; rolls walk the weights in table order
+  const clicks = Capsules.RARITIES.map(r => r.clicks)
+  assert.deepStrictEqual(clicks, [...clicks].sort((a, b) => a - b))
+  assert.strictEqual(Capsules.rollRarity(() => 0).id, 'common')
+  assert.strictEqual(Capsules.rollRarity(() => 0.999999).id, 'legendary')
+  // With nothing left to unlock, only tokens, IQ and buffs can drop
+  const none = { sprites: [], colors: [], effects: [] }
+  for (let i = 0; i < 50; i++) {
+    const kind = Capsules.rollReward('legendary', none, () => i / 50).kind
+    assert(['tokens', 'iq', 'buff'].includes(kind), `legendary with empty pools rolled ${kind}`)
+  }
+  const sprite = Capsules.rollReward('common', { sprites: ['star'], colors: [], effects: [] }, () => 0.999999)
+  assert.deepStrictEqual(sprite, { kind: 'sprite', sprite: 'star' })
+  // Token rewards scale with passive income but never drop below the floor
+  const tokens = Capsules.rollReward('rare', none, () => 0)
+  assert.strictEqual(tokens.kind, 'tokens')
+  assert.strictEqual(Capsules.capsuleTokens(tokens, 0), 50)
+  assert.strictEqual(Capsules.capsuleTokens(tokens, 10), 600)
+}
+
+function testCaptureTools() {
+  // The lasso path closes back to its first point
+  const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }]
+  assert.strictEqual(Tools.pointInPath(50, 50, square), true)
+  assert.strictEqual(Tools.pointInPath(150, 50, square), false)
+  const t0 = 1_000_000
+  const cd = Tools.startCooldown(Tools.emptyCooldowns(), 'lasso', t0)
+  assert.strictEqual(Tools.cooldownLeft(cd.lasso, t0), Tools.getTool('lasso').cooldown)
+  assert.strictEqual(Tools.cooldownLeft(cd.gravityWell, t0), 0, 'other tools stay ready')
+  // The well pulls toward the core and never exceeds its top speed
+  const v = Tools.wellVelocity(0, 0, 100, 0, 0.1)
+  assert(v.vx > 0 && v.vy === 0)
+  const fast = Tools.wellVelocity(0, 0, 100, 0, 100)
+  assert(Math.hypot(fast.vx, fast.vy) <= 360 + 1e-9)
+}
+
+function testCoreLevels() {
+  assert.strictEqual(Levels.maxCoreLevel(0), Levels.BASE_MAX_LEVEL)
+  assert.strictEqual(Levels.maxCoreLevel(getUpgrade('deepLayers').maxLevel), Levels.LEVEL_CAP, 'Deep Layers reaches the last row')
+  assert.strictEqual(Levels.maxCoreLevel(99), Levels.LEVEL_CAP)
+  assert.strictEqual(Levels.clampLevel(7, 5), 5)
+  assert.strictEqual(Levels.clampLevel('x'), 1)
+  // Income grows with level and every level has its own color slot
+  for (let i = 1; i < Levels.CORE_LEVELS.length; i++) assert(Levels.CORE_LEVELS[i].rate > Levels.CORE_LEVELS[i - 1].rate)
+  assert.strictEqual(new Set(Levels.CORE_LEVELS.map(r => r.colorIndex)).size, Levels.LEVEL_CAP)
+  // Saves from before L6+ are padded out to every level
+  assert.deepStrictEqual(Levels.padLevels(['a', 'b'], 4, () => 'z'), ['a', 'b', 'z', 'z'])
+}
+
+function testCosmeticShop() {
+  const items = Shop.buildShop([{ id: 'database', name: 'Database' }, { id: 'circle', name: 'Circle' }, { id: 'unicorn', name: 'Unicorn' }])
+  const byId = Object.fromEntries(items.map(i => [i.id, i]))
+  assert(!byId['sprite:database'], 'the default sprite is never sold')
+  // Rarer items cost more: tokens for Common/Rare, IQ for Epic/Legendary
+  assert.strictEqual(Shop.itemPrice(byId['sprite:circle']).currency, 'tokens')
+  assert.strictEqual(Shop.itemPrice(byId['sprite:unicorn']).currency, 'iq')
+  assert(Shop.PRICES.rare.amount > Shop.PRICES.common.amount && Shop.PRICES.legendary.amount > Shop.PRICES.epic.amount)
+  // Ambient slots are bought in order
+  const owned = { sprites: ['database', 'circle'], effects: [], ambientSlots: 1 }
+  assert.strictEqual(Shop.purchaseBlocker(byId['sprite:circle'], owned), 'Owned')
+  assert.strictEqual(Shop.purchaseBlocker(byId['ambient:2'], owned), null)
+  assert.notStrictEqual(Shop.purchaseBlocker(byId['ambient:3'], owned), null)
+  // Saves from before the shop keep effects they had switched on; newer saves only own what they bought
+  assert.deepStrictEqual(Shop.ownedEffects({ specialEffects: { rgbNeon: true } }), ['rgbNeon'])
+  assert.deepStrictEqual(Shop.ownedEffects({ unlockedEffects: [], specialEffects: { rgbNeon: true } }), [])
+}
+
+function testEconomySim() {
+  const a = Sim.simulateEconomy({ strategy: 'casual', hours: 0.1, seed: 42 })
+  const b = Sim.simulateEconomy({ strategy: 'casual', hours: 0.1, seed: 42 })
+  assert.deepStrictEqual(a, b, 'same seed, same run')
+  assert.strictEqual(a.samples.length, 7, 'one sample per minute, both ends included')
+  assert(a.milestones.firstUpgrade > 0 && a.milestones.firstUpgrade < 60, `casual first upgrade within a minute: ${a.milestones.firstUpgrade}`)
+  // Idle never captures; its only income is the starting core's passive rate
+  const idle = Sim.simulateEconomy({ strategy: 'idle', hours: 0.1, seed: 42 })
+  assert.strictEqual(idle.totals.captures, 0)
+  assert.strictEqual(idle.final.tokens, 360)
+  // Without Data Ingest, bronze waves stay within the spawn timer's 0.6x-1.4x jitter of BASE_SPAWN
+  assert(idle.spawnGaps.min >= 6 * 0.6 - 0.2 && idle.spawnGaps.max <= 6 * 1.4 + 0.2, 'level 0 spawn gaps')
+  const optimal = Sim.simulateEconomy({ strategy: 'optimal', hours: 0.1, seed: 42 })
+  assert(optimal.totals.earned > a.totals.earned, 'optimal out-earns casual')
+  assert(Sim.samplesToCsv([a]).startsWith(['strategy', ...Sim.SAMPLE_FIELDS].join(',')))
+}
+
+function testPacingPresets() {
+  // Standard is the shipped tuning
+  assert.deepStrictEqual(Pacing.pacingValues(null), { spawnBase: 6, attraction: 1, passiveMult: 1, tokenCostMult: 1 })
+  assert.strictEqual(Pacing.defaultPacing().preset, 'standard')
+  // Presets run from slow to quick
+  const order = ['calm', 'standard', 'lively', 'fast'].map(id => Pacing.getPreset(id).values)
+  for (let i = 1; i < order.length; i++) assert(order[i].spawnBase < order[i - 1].spawnBase && order[i].tokenCostMult < order[i - 1].tokenCostMult)
+  // Custom values are clamped and snapped; junk falls back to Standard
+  const saved = Pacing.sanitizePacing({ preset: 'custom', custom: { spawnBase: 1, attraction: 1.234, passiveMult: 'x' } })
+  assert.deepStrictEqual(saved.custom, { spawnBase: 2.5, attraction: 1.25, passiveMult: 1, tokenCostMult: 1 })
+  assert.strictEqual(Pacing.sanitizePacing({ preset: 'warp' }).preset, 'standard')
+  // Switching presets keeps the Custom values
+  assert.strictEqual(Pacing.pacingValues({ preset: 'fast', custom: saved.custom }).spawnBase, 3)
+  assert.strictEqual(Pacing.scaleCost(25, 0.6), 15)
+  assert.strictEqual(Pacing.scaleCost(1, 0.25), 1, 'prices never round down to free')
+  const calm = Sim.simulateEconomy({ strategy: 'casual', hours: 0.1, seed: 42, pacing: 'calm' })
+  const fast = Sim.simulateEconomy({ strategy: 'casual', hours: 0.1, seed: 42, pacing: 'fast' })
+  assert(fast.totals.earned > calm.totals.earned, 'Fast pacing out-earns Calm')
+}
+
+function memoryStorage(entries) {
+  const map = new Map(Object.entries(entries || {}))
+  return {
+    map,
+    getItem: k => (map.has(k) ? map.get(k) : null),
+    setItem: (k, v) => { map.set(k, String(v)) },
+    removeItem: k => { map.delete(k) },
+    get length() { return map.size },
+    key: i => [...map.keys()][i] ?? null,
+  }
+}
+
+function testSaveMigrations() {
+  // Fresh storage loads an empty document and writes nothing
+  const empty = memoryStorage()
+  assert.deepStrictEqual(Save.loadSave(empty), { version: Save.SAVE_VERSION })
+  assert.strictEqual(empty.map.size, 0)
+  // A legacy multi-key save migrates into one document and the loose keys go away
+  const legacy = memoryStorage({
+    'galaxy.tokens': '1.5e12',
+    'galaxy.weights': '3',
+    'galaxy.dragAndDropEnabled': 'false',
+    'galaxy.upgrades': '{"spawnRate":2}',
+    'galaxy.coreData': '{broken',
+    'galaxy.notation': 'scientific',
+    'cosmetics.recentColors': '[]',
+  })
+  const doc = Save.loadSave(legacy)
+  assert.strictEqual(doc.version, Save.SAVE_VERSION)
+  assert.strictEqual(doc.tokens, '1.5e12')
+  assert.strictEqual(doc.weights, 3)
+  assert.strictEqual(doc.dragAndDropEnabled, false)
+  assert.deepStrictEqual(doc.upgrades, { spawnRate: 2 })
+  assert(!('coreData' in doc), 'unreadable legacy values are dropped')
+  assert.deepStrictEqual([...legacy.map.keys()].sort(), ['cosmetics.recentColors', Save.SAVE_KEY])
+  // Migrating is idempotent and loading again reads the stored document
+  assert.deepStrictEqual(Save.migrate(doc), doc)
+  assert.strictEqual(Save.loadSave(legacy).tokens, '1.5e12')
+  // Every version below the current one has a migration step
+  assert.strictEqual(Save.MIGRATIONS.length, Save.SAVE_VERSION)
+  // A failed write keeps the legacy keys for the next attempt
+  const full = memoryStorage({ 'galaxy.iq': '7' })
+  full.setItem = () => { throw new Error('quota') }
+  assert.strictEqual(Save.loadSave(full).iq, '7')
+  assert.strictEqual(full.map.get('galaxy.iq'), '7')
+  // Clearing keeps the settings only
+  const cleared = Save.clearSave(legacy, { cosmetics: { strictLocked: true } })
+  assert.strictEqual(cleared.notation, 'scientific')
+  assert.strictEqual(cleared.tokens, undefined)
+  assert.deepStrictEqual(Save.loadSave(legacy).cosmetics, { strictLocked: true })
+}
+
+function testSaveImport() {
+  const save = {
+    version: Save.SAVE_VERSION,
+    tokens: '2.5e40',
+    totalEverCollected: '9000',
+    upgrades: { spawnRate: 3 },
+    iqUpgrades: { computeMult: 2, confettiUnlocked: true },
+    coreData: [{ level: 4, x: 10, y: 20, stackCount: 3, lineage: 'ensemble' }],
+    cosmetics: { unlockedSprites: ['database', 'rocket'] },
+    notation: 'scientific',
+    pacing: Pacing.defaultPacing(),
+  }
+  // An export reads back unchanged
+  const back = Save.parseSave(Save.serializeSave(save))
+  assert.deepStrictEqual(back.errors, [])
+  assert.deepStrictEqual(back.doc, save)
+  // Every bad field is reported with its path, and nothing is returned to apply
+  const bad = Save.validateSave({ ...save, tokens: '-1', coreData: [{ level: 2 }, { level: 99 }], upgrades: { spawnRate: 1.5 }, notation: 'roman' })
+  assert.strictEqual(bad.doc, null)
+  assert.deepStrictEqual(bad.errors.map(e => e.split(':')[0]), ['tokens', 'upgrades.spawnRate', 'notation', 'coreData[1].level'])
+  assert.match(Save.parseSave('{"version": 1').errors[0], /^save: not valid JSON/)
+  assert.match(Save.validateSave({ ...save, version: Save.SAVE_VERSION + 1 }).errors[0], /newer version/)
+  assert.match(Save.validateSave({ version: 1 }).errors[0], /^coreData: missing/)
+}
+
+function testSaveCodes() {
+  const save = {
+    version: Save.SAVE_VERSION,
+    savedAt: 1,
+    tokens: '2.5e40',
+    upgrades: { spawnRate: 3, spawnQty: 2 },
+    coreData: Array.from({ length: 30 }, (_, i) => ({ level: 1 + (i % 5), x: i * 7.5, y: 100, stackCount: 1 + (i % 3) })),
+    notation: 'engineering',
+  }
+  const code = Code.encodeSaveCode(save)
+  assert(code.startsWith(Code.CODE_PREFIX) && /^[\w.-]+$/.test(code), 'one line of URL-safe text')
+  assert(code.length * 2 < Save.serializeSave(save).length, 'much shorter than the JSON export')
+  // Decodes to the same save, minus the write stamp and core positions; wrapped whitespace is ignored
+  const back = Code.parseSaveText(code.replace(/(.{40})/g, '$1\n'))
+  assert.deepStrictEqual(back.errors, [])
+  assert.strictEqual(back.doc.savedAt, undefined)
+  assert.deepStrictEqual(back.doc.coreData[4], { level: 5, stackCount: 2 })
+  // The import box still takes JSON
+  assert.strictEqual(Code.parseSaveText(Save.serializeSave(save)).doc.tokens, '2.5e40')
+  // Damage is reported specifically
+  const typo = code.slice(0, 20) + (code[20] === 'a' ? 'b' : 'a') + code.slice(21)
+  assert.match(Code.decodeSaveCode(code.slice(0, -12)).errors[0], /cut off: about \d+ characters missing/)
+  assert.match(Code.decodeSaveCode(typo).errors[0], /checksum|damaged/)
+  assert.match(Code.decodeSaveCode(code.slice(0, 30) + '*' + code.slice(30)).errors[0], /"\*" at character 31/)
+  assert.match(Code.decodeSaveCode('GX9.' + code.slice(4)).errors[0], /newer version/)
+  // LZW round-trips arbitrary bytes
+  const bytes = Uint8Array.from({ length: 5000 }, (_, i) => (i * 7919) % 251 % (i % 3 ? 256 : 4))
+  assert.deepStrictEqual(Code.lzwDecompress(Code.lzwCompress(bytes), bytes.length), bytes)
 }
 
-function testBatchCollectCap() {
-  for (let lvl = 0; lvl <= 20; lvl++) {
-    const p = batchCollectChance(lvl)
-    assert(p <= 1 + 1e-9, 'cap at 1')
-    assert(p >= 0, 'non-negative')
+async function testStorageAdapters() {
+  // No IndexedDB: localStorage, listing only the game's own keys
+  const ls = memoryStorage({ 'galaxy.tokens': '5', 'cosmetics.recentColors': '[]', 'other.app': 'x' })
+  const local = await Store.openStorage({ localStorage: ls })
+  assert.strictEqual(local.kind, 'localStorage')
+  assert.deepStrictEqual((await local.entries()).map(([k]) => k).sort(), ['cosmetics.recentColors', 'galaxy.tokens'])
+  // Blocked localStorage (throws on write) or nothing at all: memory
+  const blocked = { ...memoryStorage(), setItem: () => { throw new Error('QuotaExceededError') } }
+  assert.strictEqual((await Store.openStorage({ localStorage: blocked })).kind, 'memory')
+  assert.strictEqual((await Store.openStorage({})).kind, 'memory')
+  // Adoption moves keys the target lacks and leaves the rest alone
+  const target = Store.createMemoryAdapter({ 'galaxy.save': '{"version":1}' })
+  const old = memoryStorage({ 'galaxy.save': 'stale', 'cosmetics.recentColors': '["#fff"]', 'other.app': 'x' })
+  assert.strictEqual(await Store.adoptLocalStorage(target, old), 1)
+  assert.strictEqual(await target.getItem('cosmetics.recentColors'), '["#fff"]')
+  assert.strictEqual(await target.getItem('galaxy.save'), '{"version":1}')
+  assert.deepStrictEqual([...old.map.keys()].sort(), ['galaxy.save', 'other.app'])
+  // The mirror reads synchronously and writes through in call order, even when the backend is slow
+  const log = []
+  const slow = Store.createMemoryAdapter({ 'galaxy.a': '1' })
+  const setItem = slow.setItem
+  slow.setItem = (k, v) => new Promise(r => setTimeout(r, k === 'galaxy.a' ? 5 : 0)).then(() => { log.push(`set ${k}=${v}`); return setItem(k, v) })
+  const mirror = await Store.createStorageMirror(slow)
+  assert.strictEqual(mirror.getItem('galaxy.a'), '1')
+  mirror.setItem('galaxy.a', 2)
+  mirror.setItem('galaxy.b', 3)
+  mirror.removeItem('galaxy.a')
+  assert.strictEqual(mirror.getItem('galaxy.a'), null)
+  assert.strictEqual(mirror.getItem('galaxy.b'), '3')
+  await mirror.flush()
+  assert.deepStrictEqual(log, ['set galaxy.a=2', 'set galaxy.b=3'])
+  assert.deepStrictEqual(await slow.entries(), [['galaxy.b', '3']])
+  // A failed write is reported but doesn't stall the writes behind it
+  const warn = console.warn
+  console.warn = () => {}
+  try {
+    const flaky = Store.createMemoryAdapter()
+    const flakySet = flaky.setItem
+    flaky.setItem = (k, v) => (k === 'galaxy.bad' ? Promise.reject(new Error('full')) : flakySet(k, v))
+    const m = await Store.createStorageMirror(flaky)
+    m.setItem('galaxy.bad', 1)
+    m.setItem('galaxy.good', 1)
+    await m.flush()
+    assert.strictEqual(await flaky.getItem('galaxy.good'), '1')
+  } finally {
+    console.warn = warn
   }
+  // A write issued just before unload survives even though IndexedDB never commits it
+  const ls2 = memoryStorage()
+  const dying = { ...Store.createMemoryAdapter({ 'galaxy.save': 'v1' }), kind: 'indexeddb', setItem: () => new Promise(() => {}) }
+  const closing = await Store.createStorageMirror(dying)
+  closing.setItem('galaxy.save', 'v2')
+  closing.removeItem('galaxy.stale')
+  assert.strictEqual(closing.backupTo(ls2), 2)
+  assert.strictEqual(await dying.getItem('galaxy.save'), 'v1', 'the backend never saw it')
+  const reopened = Store.createMemoryAdapter({ 'galaxy.save': 'v1', 'galaxy.stale': 'x' })
+  assert.strictEqual(await Store.restoreUnloadBackup(reopened, ls2), 2)
+  assert.strictEqual(await reopened.getItem('galaxy.save'), 'v2')
+  assert.strictEqual(await reopened.getItem('galaxy.stale'), null)
+  assert.strictEqual(ls2.getItem(Store.UNLOAD_KEY), null, 'replayed once')
+  // The loader replays it on whichever backend opens, and never adopts it as a save key
+  const ls3 = memoryStorage({ 'galaxy.save': 'v1', [Store.UNLOAD_KEY]: JSON.stringify({ 'galaxy.save': 'v3' }) })
+  const reloaded = await Store.openStorage({ localStorage: ls3 })
+  assert.strictEqual(await reloaded.getItem('galaxy.save'), 'v3')
+  assert.deepStrictEqual((await reloaded.entries()).map(([k]) => k), ['galaxy.save'])
+  // Once the backend commits, the copy is dropped; localStorage and memory backends never need one
+  const healthy = await Store.createStorageMirror({ ...Store.createMemoryAdapter(), kind: 'indexeddb' })
+  healthy.setItem('galaxy.save', 'v4')
+  assert.strictEqual(healthy.backupTo(ls2), 1)
+  await healthy.flush()
+  assert.strictEqual(ls2.getItem(Store.UNLOAD_KEY), null)
+  assert.strictEqual(healthy.backupTo(ls2), 0, 'nothing left unconfirmed')
+  const plain = await Store.createStorageMirror(Store.createMemoryAdapter())
+  plain.setItem('galaxy.save', 'v5')
+  assert.strictEqual(plain.backupTo(ls2), 0)
+  // The save document works through a mirror exactly as through localStorage
+  const legacy = await Store.createStorageMirror(Store.createMemoryAdapter({ 'galaxy.tokens': '42' }))
+  assert.strictEqual(Save.loadSave(legacy).tokens, '42')
+  await legacy.flush()
+  assert.strictEqual(legacy.getItem('galaxy.tokens'), null)
+  assert.strictEqual(JSON.parse(legacy.getItem(Save.SAVE_KEY)).version, Save.SAVE_VERSION)
+}
+
+function testSaveSlots() {
+  // A save from before slots is the Main slot, legacy keys included
+  const storage = memoryStorage({ 'galaxy.tokens': '900', 'galaxy.notation': 'scientific' })
+  assert.deepStrictEqual(Slots.loadSlots(storage), { active: 'main', slots: [{ id: 'main', name: 'Main', createdAt: 0 }] })
+  const main = Save.loadSave(Slots.activeSlotStorage(storage))
+  assert.strictEqual(main.tokens, '900')
+  Save.updateSave(storage, { coreData: [{ level: 3, x: 0, y: 0, stackCount: 4 }, { level: 1, x: 0, y: 0, stackCount: 1 }] })
+  // New slots start fresh but keep the settings; duplicates copy the whole save
+  const fresh = Slots.createSlot(storage, '  Stress test ')
+  assert.strictEqual(fresh.error, null)
+  const freshDoc = Save.loadSave(Slots.slotStorage(storage, fresh.id))
+  assert.strictEqual(freshDoc.tokens, undefined)
+  assert.strictEqual(freshDoc.notation, 'scientific')
+  const copy = Slots.createSlot(storage, 'Backup', 'main')
+  assert.strictEqual(Save.loadSave(Slots.slotStorage(storage, copy.id)).tokens, '900')
+  assert(Slots.slotKey(copy.id) !== Save.SAVE_KEY && storage.getItem(Slots.slotKey(copy.id)), 'each slot has its own key')
+  // Names are checked; a failed operation writes nothing
+  const before = storage.getItem(Slots.SLOTS_KEY)
+  assert.match(Slots.createSlot(storage, 'stress TEST').error, /already a slot named/)
+  assert.match(Slots.renameSlot(storage, copy.id, '   ').error, /name/)
+  assert.strictEqual(storage.getItem(Slots.SLOTS_KEY), before)
+  assert.strictEqual(Slots.renameSlot(storage, copy.id, 'Backup 1').error, null)
+  // Slots write independently, and the legacy keys stay Main's alone
+  Save.updateSave(Slots.slotStorage(storage, fresh.id), { tokens: '5' })
+  assert.strictEqual(Save.loadSave(storage).tokens, '900')
+  // Switching moves the active view; the active slot can't be deleted
+  assert.strictEqual(Slots.setActiveSlot(storage, fresh.id).error, null)
+  assert.strictEqual(Save.loadSave(Slots.activeSlotStorage(storage)).tokens, '5')
+  assert.match(Slots.deleteSlot(storage, fresh.id).error, /Switch to another slot/)
+  assert.match(Slots.deleteSlot(storage, 'main').error, /Main slot can't be deleted/, 'even when it is not the active one')
+  assert.strictEqual(Slots.deleteSlot(storage, copy.id).error, null)
+  assert.strictEqual(storage.getItem(Slots.slotKey(copy.id)), null)
+  // The picker summary: cores count stacks, last played comes from the save
+  const list = Slots.listSlots(storage)
+  assert.deepStrictEqual(list.map(s => [s.name, s.active]), [['Main', false], ['Stress test', true]])
+  assert.strictEqual(list[0].tokens, '900')
+  assert.strictEqual(list[0].cores, 5)
+  assert.strictEqual(list[0].maxLevel, 3)
+  assert.strictEqual(list[1].lastPlayed, null)
+  // A damaged slot list keeps what it can still read, and Main always comes back
+  storage.setItem(Slots.SLOTS_KEY, JSON.stringify({ active: 'gone', slots: [{ id: 'BAD ID' }, { id: 'slot-2', name: '' }] }))
+  assert.deepStrictEqual(Slots.loadSlots(storage), { active: 'main', slots: [{ id: 'main', name: 'Main', createdAt: 0 }, { id: 'slot-2', name: 'slot-2', createdAt: 0 }] })
+  storage.setItem(Slots.SLOTS_KEY, JSON.stringify({ active: 'main', slots: [] }))
+  assert.deepStrictEqual(Slots.loadSlots(storage).slots.map(s => s.id), ['main'])
+  // At most MAX_SLOTS
+  const full = memoryStorage()
+  for (let i = 1; i < Slots.MAX_SLOTS; i++) assert.strictEqual(Slots.createSlot(full, `Galaxy ${i}`).error, null)
+  assert.match(Slots.createSlot(full, 'One too many').error, /at most/)
 }
 
-function run() {
+async function run() {
   testCostCurve()
-  testOfflineTrickleClamp()
+  testBulkCost()
+  testMaxAffordable()
+  testRegistryShape()
+  testOfflineEarningsCap()
   testSpawnIntervalMonotonic()
-  testBatchCollectCap()
+  testBatchCollectRadius()
+  testComboCurve()
+  testRetrainWeights()
+  testMergeStacks()
+  testBigNumber()
+  testLineageTraits()
+  testDropTables()
+  testEventSchedule()
+  testAchievements()
+  testAutobuyerRules()
+  testResearchQueue()
+  testCapsuleRolls()
+  testCaptureTools()
+  testCoreLevels()
+  testCosmeticShop()
+  testEconomySim()
+  testPacingPresets()
+  testSaveMigrations()
+  testSaveImport()
+  testSaveCodes()
+  testSaveSlots()
+  await testStorageAdapters()
   console.log('Galaxy math tests passed')
 }
 
-run()
+run().catch(error => {
+  console.error(error)
+  process.exit(1)
+})